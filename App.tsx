@@ -1,37 +1,400 @@
-import React, { useState, useCallback, Suspense } from 'react';
-import { HeTuScene } from './components/HeTuScene';
+import React, { useState, useCallback, useMemo, useEffect, useRef, Suspense } from 'react';
+import { flushSync } from 'react-dom';
+import { HeTuScene, HeTuTimelineControl } from './components/HeTuScene';
 import { LoShuScene } from './components/LoShuScene';
-import { AnimationState, ViewMode, LoShuMorphState, LoShuLayerState } from './types';
+import { HeLuoScene } from './components/HeLuoScene';
+import { SceneCaptureApi } from './components/SceneCapture';
+import { TimelinePanel } from './components/TimelinePanel';
+import { CommandPalette, ShortcutHelp } from './components/CommandPalette';
+import { StructureTable } from './components/StructureTable';
+import { HexagramPanel } from './components/HexagramPanel';
+import { SymmetryPanel } from './components/SymmetryPanel';
+import { StructurePanel } from './components/StructurePanel';
+import { AnimationState, ViewMode, LoShuMorphState, LoShuLayerState, FlightDirection, MagicSquareMethod, Polarity, ElementCycle, BaguaArrangement, HeLuoStage, CameraPose, ShareState, CaptureBackground, RecordingFormat, CaptureClip, ModelFormat, HeTuKeyframe, HeTuForm, CameraNudge, HexagramPick, HexagramSlot, LoShuSymmetry, HeTuLayoutId, HeTuContext, HeTuEvent, LoShuContext, LoShuEvent, HeTuStructureDefinition, LoShuStructureDefinition } from './types';
+import { LOSHU_ENERGY_ROUTES, DEFAULT_LOSHU_LAYERS, CUSTOM_ROUTE_ID, parseLoShuSequence, describeNumber, ELEMENT_NAMES, ELEMENT_COLORS, ELEMENT_CYCLES } from './constants';
+import { computeFlyingStarChart, getPeriodForYear, STAR_NAMES } from './flyingStars';
+import { parseShareState, serializeShareState } from './shareState';
+import { createDefaultSequence, getSequenceDuration } from './heTuTimeline';
+import { HETU_LAYOUTS, HeTuLayoutDefinition } from './heTuLayouts';
+import { BAGUA_ARRANGEMENTS } from './bagua';
+import { DEFAULT_HEXAGRAM_PICK, isTrigramPalace, lineBit, pickPalace } from './hexagrams';
+import { LOSHU_SYMMETRY_LABELS, composeSymmetry } from './loShuSymmetry';
+import { HETU_PRESET, LOSHU_PRESET, StructureDefinitionError, readStructureFile } from './structureDefinitions';
+import { MachineState, transition, canTransition, HETU_MACHINE, LOSHU_MACHINE } from './stateMachine';
+import { CAPTURE_RESOLUTIONS, CAPTURE_CLIPS, exportStill, recordClip, downloadBlob } from './sceneExport';
+import { MODEL_FORMS, getCurrentModelForm, exportModel } from './geometryExport';
+import { generateMagicSquare, verifyMagicSquare, getMagicSquareMethod, MIN_MAGIC_ORDER, MAX_MAGIC_ORDER } from './magicSquare';
+import { LOCALES, getLocale, useLocale } from './i18n';
+import { Command, useShortcuts } from './shortcuts';
+import { describeSceneStatus, useReducedMotion } from './accessibility';
 
-const LoadingScreen = () => (
-  <div className="flex items-center justify-center w-full h-full text-cyan-400 text-sm tracking-widest uppercase animate-pulse">
-    系统初始化中...
-  </div>
-);
+const MAGIC_METHOD_LABELS: Record<MagicSquareMethod, string> = {
+  [MagicSquareMethod.SIAMESE]: '奇阶 · 罗伯法',
+  [MagicSquareMethod.DOUBLY_EVEN]: '双偶阶 · 对角互补',
+  [MagicSquareMethod.SINGLY_EVEN]: '单偶阶 · 斯特雷奇法'
+};
+
+// Lo Shu layer toggles in toolbar order; number keys 1-7 follow it
+const LOSHU_LAYER_TOGGLES: { key: keyof LoShuLayerState, label: string }[] = [
+  { key: 'dots', label: '黑白子' },
+  { key: 'numbers', label: '数字' },
+  { key: 'trigrams', label: '八卦' },
+  { key: 'directions', label: '方位' },
+  { key: 'lines', label: '连线' },
+  { key: 'sums', label: '十五' },
+  { key: 'stars', label: '星盘' }
+];
+
+const ORBIT_STEP = Math.PI / 24; // Camera orbit per arrow key press
+
+const LoadingScreen = () => {
+  const { t } = useLocale();
+  return (
+    <div className="flex items-center justify-center w-full h-full text-cyan-400 text-sm tracking-widest uppercase animate-pulse">
+      {t('系统初始化中...')}
+    </div>
+  );
+};
+
+// Local date as YYYY-MM-DD (the value format of <input type="date">)
+const getTodayString = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
 
 const App: React.FC = () => {
+  const { locale, setLocale, pinyin, setPinyin, t, term } = useLocale();
+
   // --- GLOBAL STATE ---
-  const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.HETU);
+  // Shared links carry the state in the URL hash (see shareState.ts)
+  const [initialShare] = useState(() => parseShareState(window.location.hash));
+  const [viewMode, setViewMode] = useState<ViewMode>(initialShare.viewMode);
+
+  // Camera of the current view; null = the scene's default. Scenes only read it
+  // on mount, so `sceneKey` remounts them when a pasted link replaces it.
+  const [camera, setCamera] = useState<CameraPose | null>(initialShare.camera);
+  const [sceneKey, setSceneKey] = useState(0);
+
+  const handleViewChange = (mode: ViewMode) => {
+    setViewMode(mode);
+    setCamera(null); // Poses don't carry over between views
+  };
+
+  // Inspector: the number group picked in the current view
+  const [selection, setSelection] = useState<{ view: ViewMode, numberValue: number } | null>(null);
+  const selectedNumber = selection && selection.view === viewMode ? selection.numberValue : null;
+  const handleSelectNumber = useCallback((numberValue: number | null) => {
+    setSelection(numberValue === null ? null : { view: viewMode, numberValue });
+  }, [viewMode]);
 
   // --- HE TU STATE ---
   const [alignTrigger, setAlignTrigger] = useState(0);
-  const [animState, setAnimState] = useState<AnimationState>(AnimationState.STATIC);
-  const [autoRotate, setAutoRotate] = useState(false);
-  const [lastMode, setLastMode] = useState<'GALAXY' | 'HELIX'>('GALAXY');
+  // Cube and the registry layouts (HETU_MACHINE, HETU_LAYOUTS); morphs finish when the scene reports them settled
+  const [heTu, setHeTu] = useState<MachineState<AnimationState, HeTuContext>>(() => ({
+    value: initialShare.animState,
+    context: { layout: initialShare.heTuLayout }
+  }));
+  const sendHeTu = useCallback((event: HeTuEvent) => setHeTu(state => transition(HETU_MACHINE, state, event)), []);
+  const animState = heTu.value;
+  const heTuLayout = heTu.context.layout;
+  const [autoRotate, setAutoRotate] = useState(initialShare.autoRotate);
+  const [reducedMotion, setReducedMotion] = useReducedMotion(); // Also shortens the morphs (scenes' reducedMotion)
+  const sceneAutoRotate = autoRotate && !reducedMotion;
+  const [elementCycle, setElementCycle] = useState<ElementCycle | null>(initialShare.elementCycle); // Five Elements overlay
+  const [baguaArrangement, setBaguaArrangement] = useState<BaguaArrangement | null>(initialShare.baguaArrangement); // Trigram ring (He Tu & Lo Shu)
 
   // --- LO SHU STATE ---
-  const [lsMorph, setLsMorph] = useState<LoShuMorphState>(LoShuMorphState.PLANE);
-  const [lsRunning, setLsRunning] = useState(false); // Now "Flying Star" (Energy Flow)
-  const [lsSphereRotating, setLsSphereRotating] = useState(false); // New "Run" (Sphere Rotation)
+  // Plane / sphere / projection plus the sphere-only toggles (LOSHU_MACHINE)
+  const [loShu, setLoShu] = useState<MachineState<LoShuMorphState, LoShuContext>>(() => ({
+    value: initialShare.lsMorph,
+    context: { running: initialShare.lsRunning, rotating: initialShare.lsSphereRotating }
+  }));
+  const sendLoShu = useCallback((event: LoShuEvent) => setLoShu(state => transition(LOSHU_MACHINE, state, event)), []);
+  const lsMorph = loShu.value;
+  const lsRunning = loShu.context.running; // Now "Flying Star" (Energy Flow)
+  const lsSphereRotating = loShu.context.rotating; // New "Run" (Sphere Rotation)
   
+  // Orientation of the square (rotations / reflections, see loShuSymmetry.ts)
+  const [lsSymmetry, setLsSymmetry] = useState<LoShuSymmetry>(initialShare.lsSymmetry);
+  const [syOpen, setSyOpen] = useState(false);
+
+  // Inspector copy of the selection; a Lo Shu number faces the palace it was turned to
+  const selectedInfo = useMemo(
+    () => selectedNumber !== null ? describeNumber(viewMode, selectedNumber, lsSymmetry) : null,
+    [viewMode, selectedNumber, lsSymmetry]
+  );
+
+  // --- STRUCTURE DEFINITIONS (see structureDefinitions.ts) ---
+  // The JSON presets, or a file dropped on the page / picked in the panel. Not
+  // part of shared links: a link always opens on the presets.
+  const [heTuStructure, setHeTuStructure] = useState<HeTuStructureDefinition>(HETU_PRESET);
+  const [loShuStructure, setLoShuStructure] = useState<LoShuStructureDefinition>(LOSHU_PRESET);
+  const [structureError, setStructureError] = useState<StructureDefinitionError | null>(null);
+  const [stOpen, setStOpen] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const structureInputRef = useRef<HTMLInputElement>(null);
+
+  const viewStructure = viewMode === ViewMode.HETU ? heTuStructure : viewMode === ViewMode.LOSHU ? loShuStructure : null;
+  const isCustomStructure = viewMode === ViewMode.HETU ? heTuStructure !== HETU_PRESET
+    : viewMode === ViewMode.LOSHU && loShuStructure !== LOSHU_PRESET;
+
+  // A valid file replaces the preset of its kind and switches to that view
+  const handleStructureFile = async (file: File) => {
+    setStOpen(true);
+    setStructureError(null);
+    try {
+      const definition = await readStructureFile(file);
+      if (definition.kind === 'hetu') setHeTuStructure(definition);
+      else setLoShuStructure(definition);
+      setSelection(null);
+      const mode = definition.kind === 'hetu' ? ViewMode.HETU : ViewMode.LOSHU;
+      if (mode !== viewMode) handleViewChange(mode);
+    } catch (e) {
+      setStructureError(e instanceof StructureDefinitionError ? e : new StructureDefinitionError(e instanceof Error ? e.message : String(e)));
+    }
+  };
+
+  const handleRestoreStructure = () => {
+    setStructureError(null);
+    if (viewMode === ViewMode.HETU) setHeTuStructure(HETU_PRESET);
+    if (viewMode === ViewMode.LOSHU) setLoShuStructure(LOSHU_PRESET);
+  };
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e) || recordingClip) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDragActive(true);
+  };
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setDragActive(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !recordingClip) handleStructureFile(file);
+  };
+
   // DEFAULT STATE: Dots ONLY (User Request)
-  const [lsLayers, setLsLayers] = useState<LoShuLayerState>({
-    dots: true,       // Raw coding layer (Visible by default)
-    numbers: false,   // Interpretation layer (Hidden)
-    trigrams: false,  // Semantic layer (Hidden)
-    directions: false,// Context layer (Hidden)
-    lines: false      // Energy layer (Hidden by default)
-  });
+  const [lsLayers, setLsLayers] = useState<LoShuLayerState>(initialShare.lsLayers);
+
+  // Energy Tube route (see LOSHU_ENERGY_ROUTES)
+  const [lsRouteId, setLsRouteId] = useState<string>(initialShare.lsRouteId);
+  const [lsCustomRoute, setLsCustomRoute] = useState(initialShare.lsCustomRoute);
+
+  const lsCustomSequence = useMemo(() => parseLoShuSequence(lsCustomRoute), [lsCustomRoute]);
+  const lsEnergySequences = useMemo(() => {
+    if (lsRouteId === CUSTOM_ROUTE_ID) return lsCustomSequence ? [lsCustomSequence] : [];
+    const route = LOSHU_ENERGY_ROUTES.find(r => r.id === lsRouteId) ?? LOSHU_ENERGY_ROUTES[0];
+    return route.sequences;
+  }, [lsRouteId, lsCustomSequence]);
+
+  // Flying Star chart inputs
+  const [lsStarDate, setLsStarDate] = useState(getTodayString);
+  const [lsPeriod, setLsPeriod] = useState(() => getPeriodForYear(new Date().getFullYear()));
+  const [lsFlight, setLsFlight] = useState<FlightDirection>(FlightDirection.FORWARD);
+  const [lsIncludeMonth, setLsIncludeMonth] = useState(true);
+
+  const lsFlyingStars = useMemo(() => {
+    const [year, month, day] = lsStarDate.split('-').map(Number);
+    if (!year || !month || !day) return null;
+    return computeFlyingStarChart({
+      period: lsPeriod,
+      year,
+      month: lsIncludeMonth ? month : undefined,
+      day,
+      direction: lsFlight
+    });
+  }, [lsStarDate, lsPeriod, lsFlight, lsIncludeMonth]);
+
+  // --- HE TU ⇄ LO SHU TRANSFORMATION STATE ---
+  const [hlStage, setHlStage] = useState<HeLuoStage>(initialShare.hlStage);
+
+  // --- MAGIC SQUARE STATE (Generalised N×N Lo Shu) ---
+  const [msOpen, setMsOpen] = useState(false);
+  const [msOrder, setMsOrder] = useState(3);
+  const [msSquare, setMsSquare] = useState<number[][]>(() => generateMagicSquare(3));
+  const [msPick, setMsPick] = useState<[number, number] | null>(null); // First cell of a swap
+
+  // --- HEXAGRAM EXPLORER STATE (He Tu & Lo Shu) ---
+  const [hxOpen, setHxOpen] = useState(false);
+  const [hxPick, setHxPick] = useState<HexagramPick>(DEFAULT_HEXAGRAM_PICK);
+  const [hxSlot, setHxSlot] = useState<HexagramSlot>('upper');
+
+  const msReport = useMemo(() => verifyMagicSquare(msSquare), [msSquare]);
+  const msBrokenCells = useMemo(() => {
+    const cells = new Set<string>();
+    msReport.brokenLines.forEach(line => line.cells.forEach(([r, c]) => cells.add(`${r}-${c}`)));
+    return cells;
+  }, [msReport]);
+
+  // --- URL HASH SYNC ---
+  useEffect(() => {
+    const state: ShareState = {
+      viewMode, animState, heTuLayout, autoRotate, elementCycle, baguaArrangement, hlStage,
+      lsMorph, lsSymmetry, lsRunning, lsSphereRotating, lsLayers, lsRouteId, lsCustomRoute, camera
+    };
+    // replaceState: no history entry per click, and no hashchange event
+    window.history.replaceState(null, '', serializeShareState(state));
+  }, [viewMode, animState, heTuLayout, autoRotate, elementCycle, baguaArrangement, hlStage, lsMorph, lsSymmetry, lsRunning, lsSphereRotating, lsLayers, lsRouteId, lsCustomRoute, camera]);
+
+  // Applies whichever keys are present (shared links, recording clips)
+  const applyShareState = (next: Partial<ShareState>) => {
+    const setters: { [K in keyof ShareState]: (value: ShareState[K]) => void } = {
+      viewMode: setViewMode,
+      animState: value => setHeTu(state => ({ ...state, value })),
+      heTuLayout: layout => setHeTu(state => ({ ...state, context: { ...state.context, layout } })),
+      autoRotate: setAutoRotate,
+      elementCycle: setElementCycle,
+      baguaArrangement: setBaguaArrangement,
+      hlStage: setHlStage,
+      lsMorph: value => setLoShu(state => ({ ...state, value })),
+      lsSymmetry: setLsSymmetry,
+      lsRunning: running => setLoShu(state => ({ ...state, context: { ...state.context, running } })),
+      lsSphereRotating: rotating => setLoShu(state => ({ ...state, context: { ...state.context, rotating } })),
+      lsLayers: setLsLayers,
+      lsRouteId: setLsRouteId,
+      lsCustomRoute: setLsCustomRoute,
+      camera: setCamera
+    };
+    (Object.keys(next) as (keyof ShareState)[]).forEach(key => {
+      (setters[key] as (value: unknown) => void)(next[key]);
+    });
+  };
+
+  // A link pasted into an open tab only changes the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      applyShareState(parseShareState(window.location.hash));
+      setMsOpen(false);
+      setSelection(null);
+      setSceneKey(k => k + 1);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // --- EXPORT (PNG / WEBM / GIF) ---
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportResolutionId, setExportResolutionId] = useState(CAPTURE_RESOLUTIONS[1].id);
+  const [exportBackground, setExportBackground] = useState<CaptureBackground>(CaptureBackground.GRADIENT);
+  const [exportFormat, setExportFormat] = useState<RecordingFormat>(RecordingFormat.WEBM);
+  const [exportClipId, setExportClipId] = useState<string | null>(null);
+  const [recordingClip, setRecordingClip] = useState<CaptureClip | null>(null); // Scene runs frameloop="never" while set
+  const [exportProgress, setExportProgress] = useState(0);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const exportResolution = CAPTURE_RESOLUTIONS.find(r => r.id === exportResolutionId) ?? CAPTURE_RESOLUTIONS[0];
+  const viewClips = CAPTURE_CLIPS.filter(clip => clip.view === viewMode);
+  const exportClip = viewClips.find(clip => clip.id === exportClipId) ?? viewClips[0];
+
+  // The mounted scene's capture handle; a recording waits for the remounted scene's
+  const captureRef = useRef<SceneCaptureApi | null>(null);
+  const captureWaiter = useRef<((api: SceneCaptureApi) => void) | null>(null);
+  const handleCaptureReady = useCallback((api: SceneCaptureApi | null) => {
+    captureRef.current = api;
+    if (api && captureWaiter.current) {
+      captureWaiter.current(api);
+      captureWaiter.current = null;
+    }
+  }, []);
+
+  const handleExportStill = async () => {
+    if (!captureRef.current) return;
+    setExportError(null);
+    try {
+      const blob = await exportStill(captureRef.current, exportResolution, exportBackground);
+      downloadBlob(blob, `${viewMode.toLowerCase()}-${exportResolution.id}.png`);
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleRecord = async () => {
+    if (!exportClip || recordingClip) return;
+    const clip = exportClip;
+    setExportError(null);
+
+    const ready = new Promise<SceneCaptureApi>(resolve => { captureWaiter.current = resolve; });
+    flushSync(() => {
+      applyShareState(clip.from);
+      setMsOpen(false);
+      setTimelineOpen(false); // Clips script animState, which the timeline would override
+      setSelection(null);
+      setRecordingClip(clip);
+      setExportProgress(0);
+      setSceneKey(k => k + 1); // Fresh scene: every time / morph ref starts from zero
+    });
+
+    try {
+      const blob = await recordClip({
+        api: await ready,
+        clip,
+        format: exportFormat,
+        resolution: exportResolution,
+        applyTarget: async () => {
+          flushSync(() => applyShareState(clip.to));
+          // The scene's own reconciler commits asynchronously; two frames is plenty
+          await new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+        },
+        onProgress: setExportProgress
+      });
+      downloadBlob(blob, `${clip.id}.${exportFormat === RecordingFormat.WEBM ? 'webm' : 'gif'}`);
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : String(e));
+    } finally {
+      captureWaiter.current = null;
+      setRecordingClip(null);
+    }
+  };
+
+  const sceneFrameloop = recordingClip ? 'never' : 'always';
+  const sceneReducedMotion = reducedMotion && !recordingClip; // Clips keep their scripted timing
+
+  // --- EXPORT (GLTF / OBJ / STL MODELS) ---
+  const [modelFormId, setModelFormId] = useState<string | null>(null); // null = follow the current form
+  const [modelBusy, setModelBusy] = useState<ModelFormat | null>(null);
+
+  const currentModelForm = getCurrentModelForm({ viewMode, animState, heTuLayout, hlStage, lsMorph });
+  const modelForm = MODEL_FORMS.find(form => form.id === modelFormId) ?? currentModelForm;
+
+  const handleExportModel = async (format: ModelFormat) => {
+    if (modelBusy) return;
+    setExportError(null);
+    setModelBusy(format);
+    try {
+      const { blob, filename } = await exportModel(modelForm, format, {
+        // Bake what the Lo Shu shows: the tube only with the lines layer on
+        energySequences: lsLayers.lines ? lsEnergySequences : [],
+        magicSquare: msOpen ? msSquare : null,
+        symmetry: lsSymmetry,
+        heTuStructure,
+        loShuStructure
+      });
+      downloadBlob(blob, filename);
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setModelBusy(null);
+    }
+  };
+
+  // --- HE TU TIMELINE (scrubber & keyframe sequencer) ---
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [timelineKeyframes, setTimelineKeyframes] = useState<HeTuKeyframe[]>(createDefaultSequence);
+  const [timelinePlaying, setTimelinePlaying] = useState(false);
+  const [timelineLoop, setTimelineLoop] = useState(false);
+  const timelinePlayhead = useRef(0);
+
+  const heTuTimeline = useMemo<HeTuTimelineControl | null>(() => timelineOpen
+    ? { keyframes: timelineKeyframes, playing: timelinePlaying, loop: timelineLoop, playheadRef: timelinePlayhead }
+    : null,
+  [timelineOpen, timelineKeyframes, timelinePlaying, timelineLoop]);
+
+  const handleToggleTimeline = () => {
+    setTimelinePlaying(false);
+    setTimelineOpen(prev => !prev);
+  };
 
   // --- HE TU HANDLERS ---
   const handleAlign = useCallback(() => {
@@ -43,136 +406,352 @@ const App: React.FC = () => {
     setAutoRotate(prev => !prev);
   };
 
-  const handleGalaxyClick = () => {
-    if (
-      animState === AnimationState.HELIX_RUNNING || 
-      animState === AnimationState.HELIX_PAUSED || 
-      animState === AnimationState.HELIX_MORPHING
-    ) {
-      setLastMode('GALAXY');
-      setAnimState(AnimationState.MORPHING);
-      setTimeout(() => {
-        setAnimState(curr => curr === AnimationState.MORPHING ? AnimationState.RUNNING : curr);
-      }, 1000);
-      return;
-    }
-    setLastMode('GALAXY');
-    if (animState === AnimationState.STATIC || animState === AnimationState.RETURNING) {
-      setAnimState(AnimationState.MORPHING);
-      setTimeout(() => {
-        setAnimState(curr => curr === AnimationState.MORPHING ? AnimationState.RUNNING : curr);
-      }, 1000);
-    } else if (animState === AnimationState.RUNNING) {
-      setAnimState(AnimationState.PAUSED);
-    } else if (animState === AnimationState.PAUSED) {
-      setAnimState(AnimationState.RUNNING);
-    }
+  const handleToggleElements = () => {
+    setElementCycle(prev => prev === null ? ElementCycle.GENERATING : null);
   };
 
-  const handleHelixClick = () => {
-    if (
-      animState === AnimationState.RUNNING || 
-      animState === AnimationState.PAUSED || 
-      animState === AnimationState.MORPHING
-    ) {
-      setLastMode('HELIX');
-      setAnimState(AnimationState.HELIX_MORPHING);
-      setTimeout(() => {
-        setAnimState(curr => curr === AnimationState.HELIX_MORPHING ? AnimationState.HELIX_RUNNING : curr);
-      }, 1000);
-      return;
-    }
-    setLastMode('HELIX');
-    if (animState === AnimationState.STATIC || animState === AnimationState.RETURNING) {
-      setAnimState(AnimationState.HELIX_MORPHING);
-      setTimeout(() => {
-        setAnimState(curr => curr === AnimationState.HELIX_MORPHING ? AnimationState.HELIX_RUNNING : curr);
-      }, 1000);
-    } else if (animState === AnimationState.HELIX_RUNNING) {
-      setAnimState(AnimationState.HELIX_PAUSED);
-    } else if (animState === AnimationState.HELIX_PAUSED) {
-      setAnimState(AnimationState.HELIX_RUNNING);
-    }
+  const handleSwitchElementCycle = () => {
+    setElementCycle(prev => prev === ElementCycle.GENERATING ? ElementCycle.CONTROLLING : ElementCycle.GENERATING);
   };
 
-  const handleReset = () => {
-    if (animState !== AnimationState.STATIC) {
-      if (
-        animState === AnimationState.HELIX_RUNNING || 
-        animState === AnimationState.HELIX_MORPHING || 
-        animState === AnimationState.HELIX_PAUSED
-      ) {
-        setLastMode('HELIX');
-      } else {
-        setLastMode('GALAXY');
-      }
-      setAnimState(AnimationState.RETURNING);
-      setTimeout(() => {
-        setAnimState(curr => curr === AnimationState.RETURNING ? AnimationState.STATIC : curr);
-      }, 1000);
-    }
+  // --- BAGUA RING (He Tu & Lo Shu) ---
+  // Opens on the Later Heaven order, the one the Lo Shu palaces carry
+  const handleToggleBagua = () => {
+    setBaguaArrangement(prev => prev === null ? BaguaArrangement.LATER_HEAVEN : null);
   };
 
-  const getGalaxyButtonText = () => {
-    if (animState === AnimationState.RETURNING && lastMode === 'GALAXY') return '归位中...';
-    switch (animState) {
-      case AnimationState.MORPHING: return '演化中...';
-      case AnimationState.RUNNING: return '暂停阴阳';
-      case AnimationState.PAUSED: return '继续阴阳';
-      case AnimationState.HELIX_MORPHING:
-      case AnimationState.HELIX_RUNNING:
-      case AnimationState.HELIX_PAUSED:
-        return '阴阳';
-      default: return '阴阳';
-    }
+  const handleSwitchBagua = () => {
+    setBaguaArrangement(prev => prev === BaguaArrangement.FORMER_HEAVEN ? BaguaArrangement.LATER_HEAVEN : BaguaArrangement.FORMER_HEAVEN);
   };
 
-  const getHelixButtonText = () => {
-    if (animState === AnimationState.RETURNING && lastMode === 'HELIX') return '归位中...';
+  const getBaguaCommands = (idPrefix: string, group: string): Command[] => [
+    { id: `${idPrefix}-bagua`, group, label: '八卦环', keys: ['q'], state: baguaArrangement !== null, run: handleToggleBagua },
+    { id: `${idPrefix}-bagua-switch`, group, label: '切换先天 / 后天', keys: ['shift+q'], state: BAGUA_ARRANGEMENTS[baguaArrangement ?? BaguaArrangement.LATER_HEAVEN].label, enabled: baguaArrangement !== null, run: handleSwitchBagua }
+  ];
+
+  // Toggle plus the arrangement switch, in the toolbar's button size
+  const renderBaguaControls = (buttonClass: string) => (
+    <div className="flex bg-cyan-950/40 rounded-sm border border-cyan-500/30 backdrop-blur-md">
+      <button onClick={handleToggleBagua} aria-pressed={baguaArrangement !== null} className={`${buttonClass} transition-all duration-300 ${baguaArrangement ? 'bg-cyan-800/60 text-white' : 'text-cyan-200 hover:bg-cyan-900/40'}`} title={t('八卦环与先天 / 后天排列')}>
+        <span className="text-xs tracking-[0.15em] uppercase">{t('八卦环')}</span>
+      </button>
+      {baguaArrangement && (
+        <button onClick={handleSwitchBagua} className={`${buttonClass} border-l border-cyan-500/30 text-cyan-200 hover:text-white hover:bg-cyan-900/40 transition-all duration-300`} title={t('切换先天 / 后天')}>
+          <span className="text-xs tracking-[0.15em] uppercase">{t(BAGUA_ARRANGEMENTS[baguaArrangement].label)}</span>
+        </button>
+      )}
+    </div>
+  );
+
+  const handleLayoutClick = (layout: HeTuLayoutId) => sendHeTu({ type: 'LAYOUT', layout });
+  const handleReset = () => sendHeTu({ type: 'RESET' });
+  const heTuCanReset = canTransition(HETU_MACHINE, heTu, { type: 'RESET' });
+  const handleMorphComplete = useCallback((form: HeTuForm) => sendHeTu({ type: 'MORPH_COMPLETE', form }), [sendHeTu]);
+
+  const isLayoutShown = (layout: HeTuLayoutDefinition) =>
+    heTuLayout === layout.id && animState !== AnimationState.STATIC && animState !== AnimationState.RETURNING;
+
+  const getLayoutButtonText = (layout: HeTuLayoutDefinition) => {
+    const label = t(layout.label);
+    if (heTuLayout !== layout.id || animState === AnimationState.STATIC) return label;
     switch (animState) {
-      case AnimationState.HELIX_MORPHING: return '演化中...';
-      case AnimationState.HELIX_RUNNING: return '暂停双螺旋';
-      case AnimationState.HELIX_PAUSED: return '继续双螺旋';
-      case AnimationState.MORPHING:
-      case AnimationState.RUNNING:
-      case AnimationState.PAUSED:
-        return '双螺旋';
-      default: return '双螺旋';
+      case AnimationState.RETURNING: return t('归位中...');
+      case AnimationState.MORPHING: return t('演化中...');
+      case AnimationState.RUNNING: return t('暂停{layout}', { layout: label });
+      case AnimationState.PAUSED: return t('继续{layout}', { layout: label });
     }
   };
 
   // --- LO SHU HANDLERS ---
+  const lsCanToggleFlow = canTransition(LOSHU_MACHINE, loShu, { type: 'TOGGLE_FLOW' });
+  const lsCanToggleRotation = canTransition(LOSHU_MACHINE, loShu, { type: 'TOGGLE_ROTATION' });
+
   const toggleLayer = (key: keyof LoShuLayerState) => {
     setLsLayers(prev => ({ ...prev, [key]: !prev[key] }));
   };
 
+  const handleToggleMagicSquare = () => {
+    if (!msOpen) {
+      // The generalised square only exists on the plane
+      sendLoShu({ type: 'FLATTEN' });
+      setHxOpen(false);
+      setSyOpen(false);
+    }
+    setMsOpen(!msOpen);
+    setMsPick(null);
+  };
+
+  const handleMagicOrderChange = (order: number) => {
+    setMsOrder(order);
+    setMsSquare(generateMagicSquare(order));
+    setMsPick(null);
+  };
+
+  // Click two cells to swap them (and watch which lines break)
+  const handleMagicCellClick = (row: number, col: number) => {
+    if (!msPick) {
+      setMsPick([row, col]);
+      return;
+    }
+    const [r0, c0] = msPick;
+    setMsPick(null);
+    if (r0 === row && c0 === col) return;
+    setMsSquare(prev => {
+      const next = prev.map(r => [...r]);
+      [next[r0][c0], next[row][col]] = [next[row][col], next[r0][c0]];
+      return next;
+    });
+  };
+
+  // --- HEXAGRAM EXPLORER HANDLERS ---
+  const handleToggleHexagrams = () => {
+    if (!hxOpen) {
+      // Palaces are picked on the Lo Shu plane, which the magic square replaces
+      sendLoShu({ type: 'FLATTEN' });
+      setMsOpen(false);
+    }
+    setHxOpen(!hxOpen);
+  };
+
+  // Each pick moves on to the other trigram, so two clicks make a hexagram
+  const handlePickHexagramPalace = (palace: number | null) => {
+    if (palace === null || !isTrigramPalace(palace)) return;
+    setHxPick(prev => pickPalace(prev, hxSlot, palace));
+    setHxSlot(prev => prev === 'upper' ? 'lower' : 'upper');
+  };
+
+  const handleToggleHexagramLine = useCallback((index: number) => {
+    setHxPick(prev => ({ ...prev, changingLines: prev.changingLines ^ lineBit(index) }));
+  }, []);
+
+  // --- SYMMETRY HANDLERS ---
+  // Works in every morph state; only the magic square (a different square) has to go
+  const handleToggleSymmetry = () => {
+    if (!syOpen) setMsOpen(false);
+    setSyOpen(!syOpen);
+  };
+
+  const applySymmetryStep = (step: LoShuSymmetry) => {
+    setMsOpen(false);
+    setLsSymmetry(prev => composeSymmetry(prev, step));
+  };
+
   const handleLoShuReset = () => {
-    setLsMorph(LoShuMorphState.PLANE);
-    setLsRunning(false);
-    setLsSphereRotating(false);
+    setMsOpen(false);
+    setMsPick(null);
+    setLsSymmetry(LoShuSymmetry.IDENTITY);
+    sendLoShu({ type: 'RESET' });
+    setLsRouteId(LOSHU_ENERGY_ROUTES[0].id);
     // Reset to Dots only
-    setLsLayers({ dots: true, numbers: false, trigrams: false, directions: false, lines: false });
+    setLsLayers(DEFAULT_LOSHU_LAYERS);
+  };
+
+  // --- SCREEN READER STATUS (see accessibility.ts) ---
+  const heTuForm: HeTuForm = animState === AnimationState.STATIC || animState === AnimationState.RETURNING ? 'CUBE' : heTuLayout;
+  const sceneStatus = describeSceneStatus({
+    viewMode, animState, heTuLayout, timelineOpen, timelinePlaying,
+    lsMorph, lsRunning, lsSphereRotating, magicOrder: msOpen ? msOrder : null, hlStage
+  }, t);
+
+  // --- KEYBOARD SHORTCUTS & COMMAND PALETTE (see shortcuts.ts) ---
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
+  const [cameraNudge, setCameraNudge] = useState<CameraNudge | null>(null);
+  const closeHelp = useCallback(() => setHelpOpen(false), []);
+
+  const orbitCamera = (azimuth: number, polar: number) =>
+    setCameraNudge(prev => ({ id: (prev?.id ?? 0) + 1, azimuth, polar }));
+
+  // Space: the timeline's play button while it is open, else the running layout's pause
+  const heTuCanPause = timelineOpen || animState === AnimationState.RUNNING || animState === AnimationState.PAUSED;
+  const handleHeTuPause = () => {
+    if (!timelineOpen) {
+      sendHeTu({ type: 'LAYOUT', layout: heTuLayout });
+      return;
+    }
+    if (!timelinePlaying && timelinePlayhead.current >= getSequenceDuration(timelineKeyframes)) timelinePlayhead.current = 0;
+    setTimelinePlaying(!timelinePlaying);
   };
 
+  const commands: Command[] = [
+    { id: 'view-hetu', group: '视图', label: '河 图', keys: ['h'], state: viewMode === ViewMode.HETU, run: () => handleViewChange(ViewMode.HETU) },
+    { id: 'view-loshu', group: '视图', label: '洛 书', keys: ['l'], state: viewMode === ViewMode.LOSHU, run: () => handleViewChange(ViewMode.LOSHU) },
+    { id: 'view-heluo', group: '视图', label: '河 洛', keys: ['b'], state: viewMode === ViewMode.HELUO, run: () => handleViewChange(ViewMode.HELUO) },
+
+    ...(viewMode === ViewMode.HETU ? [
+      { id: 'hetu-reset', group: '河图', label: '重置', keys: ['r'], enabled: heTuCanReset && !timelineOpen, run: handleReset },
+      ...HETU_LAYOUTS.map(layout => ({
+        id: `hetu-layout-${layout.id}`, group: '河图', label: layout.label, keys: [layout.key],
+        state: isLayoutShown(layout), enabled: !timelineOpen, run: () => handleLayoutClick(layout.id)
+      })),
+      { id: 'hetu-pause', group: '河图', label: '暂停 / 继续', keys: ['space'], state: timelineOpen ? timelinePlaying : animState === AnimationState.RUNNING, enabled: heTuCanPause, run: handleHeTuPause },
+      { id: 'hetu-elements', group: '河图', label: '五行', keys: ['e'], state: elementCycle !== null, run: handleToggleElements },
+      { id: 'hetu-cycle', group: '河图', label: '切换相生 / 相克', keys: ['c'], state: elementCycle === ElementCycle.CONTROLLING ? '相克' : '相生', enabled: elementCycle !== null, run: handleSwitchElementCycle },
+      ...getBaguaCommands('hetu', '河图'),
+      { id: 'hetu-hexagrams', group: '河图', label: '六十四卦', keys: ['i'], state: hxOpen, run: handleToggleHexagrams },
+      { id: 'hetu-timeline', group: '河图', label: '时间轴', keys: ['shift+t'], state: timelineOpen, run: handleToggleTimeline },
+      { id: 'hetu-rotate', group: '河图', label: '自动旋转', keys: ['o'], state: sceneAutoRotate, enabled: !reducedMotion, run: handleToggleAutoRotate },
+      { id: 'hetu-align', group: '河图', label: '对齐视角', keys: ['a'], run: handleAlign }
+    ] : []),
+
+    ...(viewMode === ViewMode.LOSHU ? [
+      { id: 'loshu-reset', group: '洛书', label: '重置', keys: ['r'], run: handleLoShuReset },
+      ...LOSHU_LAYER_TOGGLES.map((layer, i) => ({
+        id: `loshu-layer-${layer.key}`, group: '洛书', label: layer.label, keys: [String(i + 1)],
+        state: lsLayers[layer.key], run: () => toggleLayer(layer.key)
+      })),
+      { id: 'loshu-magic', group: '洛书', label: '幻方', keys: ['m'], state: msOpen, run: handleToggleMagicSquare },
+      ...getBaguaCommands('loshu', '洛书'),
+      { id: 'loshu-hexagrams', group: '洛书', label: '六十四卦', keys: ['i'], state: hxOpen, run: handleToggleHexagrams },
+      { id: 'loshu-symmetry', group: '洛书', label: '对称', keys: ['d'], state: syOpen, run: handleToggleSymmetry },
+      { id: 'loshu-rotate-left', group: '洛书', label: '逆时针旋转 90°', keys: ['['], state: LOSHU_SYMMETRY_LABELS[lsSymmetry], run: () => applySymmetryStep(LoShuSymmetry.ROTATE_90) },
+      { id: 'loshu-rotate-right', group: '洛书', label: '顺时针旋转 90°', keys: [']'], run: () => applySymmetryStep(LoShuSymmetry.ROTATE_270) },
+      { id: 'loshu-flip-horizontal', group: '洛书', label: '东西翻转', keys: ['f'], run: () => applySymmetryStep(LoShuSymmetry.FLIP_HORIZONTAL) },
+      { id: 'loshu-flip-vertical', group: '洛书', label: '南北翻转', keys: ['shift+f'], run: () => applySymmetryStep(LoShuSymmetry.FLIP_VERTICAL) },
+      { id: 'loshu-sphere', group: '洛书', label: '升维 / 降维', keys: ['s'], state: lsMorph !== LoShuMorphState.PLANE, enabled: !msOpen, run: () => sendLoShu({ type: 'TOGGLE_SPHERE' }) },
+      { id: 'loshu-projection', group: '洛书', label: '投影', keys: ['p'], state: lsMorph === LoShuMorphState.PROJECTION, enabled: !msOpen, run: () => sendLoShu({ type: 'TOGGLE_PROJECTION' }) },
+      { id: 'loshu-flow', group: '洛书', label: '飞星', keys: ['space'], state: lsRunning, enabled: lsCanToggleFlow, run: () => sendLoShu({ type: 'TOGGLE_FLOW' }) },
+      { id: 'loshu-rotation', group: '洛书', label: '运行', keys: ['o'], state: lsSphereRotating, enabled: lsCanToggleRotation, run: () => sendLoShu({ type: 'TOGGLE_ROTATION' }) },
+      { id: 'loshu-flight', group: '洛书', label: '运星飞行方向', keys: [], state: lsFlight === FlightDirection.FORWARD ? '顺飞' : '逆飞', enabled: lsLayers.stars, run: () => setLsFlight(prev => prev === FlightDirection.FORWARD ? FlightDirection.REVERSE : FlightDirection.FORWARD) },
+      { id: 'loshu-month', group: '洛书', label: '显示月星', keys: [], state: lsIncludeMonth, enabled: lsLayers.stars, run: () => setLsIncludeMonth(prev => !prev) }
+    ] : []),
+
+    ...(viewMode === ViewMode.HELUO ? [
+      { id: 'heluo-stage', group: '河洛', label: hlStage === HeLuoStage.HETU ? '河图化洛书' : '洛书还河图', keys: ['space'], run: () => setHlStage(prev => prev === HeLuoStage.HETU ? HeLuoStage.LOSHU : HeLuoStage.HETU) },
+      { id: 'heluo-reset', group: '河洛', label: '重置', keys: ['r'], enabled: hlStage !== HeLuoStage.HETU, run: () => setHlStage(HeLuoStage.HETU) }
+    ] : []),
+
+    { id: 'camera-left', group: '相机', label: '向左环绕', keys: ['arrowleft'], run: () => orbitCamera(-ORBIT_STEP, 0) },
+    { id: 'camera-right', group: '相机', label: '向右环绕', keys: ['arrowright'], run: () => orbitCamera(ORBIT_STEP, 0) },
+    { id: 'camera-up', group: '相机', label: '向上环绕', keys: ['arrowup'], run: () => orbitCamera(0, -ORBIT_STEP) },
+    { id: 'camera-down', group: '相机', label: '向下环绕', keys: ['arrowdown'], run: () => orbitCamera(0, ORBIT_STEP) },
+
+    { id: 'ui-palette', group: '界面', label: '命令面板', keys: ['mod+k'], run: () => { setHelpOpen(false); setPaletteOpen(true); } },
+    { id: 'ui-help', group: '界面', label: '快捷键', keys: ['?'], state: helpOpen, run: () => setHelpOpen(prev => !prev) },
+    { id: 'ui-locale', group: '界面', label: '界面语言', keys: [], state: getLocale(locale).label, run: () => setLocale(LOCALES[(LOCALES.findIndex(option => option.id === locale) + 1) % LOCALES.length].id) },
+    { id: 'ui-pinyin', group: '界面', label: '场景标注显示拼音', keys: [], state: pinyin, run: () => setPinyin(!pinyin) },
+    { id: 'ui-motion', group: '界面', label: '减少动态', keys: [], state: reducedMotion, run: () => setReducedMotion(!reducedMotion) },
+    { id: 'ui-export', group: '界面', label: '导出图片 / 录制动画', keys: [], state: exportOpen, run: () => setExportOpen(prev => !prev) },
+    { id: 'ui-structure', group: '界面', label: '结构定义', keys: [], state: stOpen, run: () => setStOpen(prev => !prev) },
+    { id: 'ui-structure-load', group: '界面', label: '载入结构定义 (JSON)', keys: [], enabled: !recordingClip, run: () => structureInputRef.current?.click() },
+    { id: 'ui-structure-restore', group: '界面', label: '恢复内置结构', keys: [], enabled: isCustomStructure, run: handleRestoreStructure }
+  ];
+
+  // Off while recording (the scene is being stepped) and while the palette has the keys
+  useShortcuts(commands, !recordingClip && !paletteOpen);
+
   return (
-    <div className="relative w-full h-full font-sans text-cyan-50 overflow-hidden select-none">
+    <div className="relative w-full h-full font-sans text-cyan-50 overflow-hidden select-none" onDragEnter={handleDragOver} onDragOver={handleDragOver} onDrop={handleDrop}>
       
-      {/* 3D Scene Layer */}
-      <div className="absolute inset-0 z-0 transition-opacity duration-1000">
+      {/* 3D Scene Layer (described for screen readers by the status line and structure table) */}
+      <div className="absolute inset-0 z-0 transition-opacity duration-1000" role="img" aria-label={sceneStatus} aria-describedby="structure-description">
         <Suspense fallback={<LoadingScreen />}>
-          {viewMode === ViewMode.HETU ? (
-             <HeTuScene alignTrigger={alignTrigger} animState={animState} autoRotate={autoRotate} />
+          {viewMode === ViewMode.HELUO ? (
+             <HeLuoScene 
+               key={sceneKey} 
+               stage={hlStage} 
+               initialCamera={camera} 
+               onCameraChange={setCamera} 
+               cameraNudge={cameraNudge} 
+               reducedMotion={sceneReducedMotion} 
+               frameloop={sceneFrameloop} 
+               onCaptureReady={handleCaptureReady} 
+             />
+          ) : viewMode === ViewMode.HETU ? (
+             <HeTuScene 
+               key={sceneKey}
+               alignTrigger={alignTrigger} 
+               animState={animState} 
+               layout={heTuLayout}
+               autoRotate={sceneAutoRotate} 
+               selectedNumber={selectedNumber}
+               onSelectNumber={handleSelectNumber}
+               elementCycle={elementCycle}
+               baguaArrangement={baguaArrangement}
+               hexagram={hxOpen ? hxPick : null}
+               initialCamera={camera}
+               onCameraChange={setCamera}
+               cameraNudge={cameraNudge}
+               reducedMotion={sceneReducedMotion}
+               frameloop={sceneFrameloop}
+               onCaptureReady={handleCaptureReady}
+               timeline={heTuTimeline}
+               onMorphComplete={handleMorphComplete}
+               structure={heTuStructure}
+             />
           ) : (
              <LoShuScene 
+               key={sceneKey}
                morphState={lsMorph} 
                layerState={lsLayers} 
                isRunning={lsRunning} 
                isSphereRotating={lsSphereRotating}
+               energySequences={lsEnergySequences}
+               flyingStars={msOpen ? null : lsFlyingStars}
+               magicSquare={msOpen ? msSquare : null}
+               baguaArrangement={baguaArrangement}
+               hexagram={hxOpen ? hxPick : null}
+               symmetry={lsSymmetry}
+               structure={loShuStructure}
+               onToggleHexagramLine={handleToggleHexagramLine}
+               // Palace clicks pick trigrams while the explorer is open
+               selectedNumber={hxOpen ? null : selectedNumber}
+               onSelectNumber={hxOpen ? handlePickHexagramPalace : handleSelectNumber}
+               initialCamera={camera}
+               onCameraChange={setCamera}
+               cameraNudge={cameraNudge}
+               reducedMotion={sceneReducedMotion}
+               frameloop={sceneFrameloop}
+               onCaptureReady={handleCaptureReady}
              />
           )}
         </Suspense>
       </div>
 
+      <p role="status" aria-live="polite" aria-atomic="true" className="sr-only">{sceneStatus}</p>
+      <StructureTable
+        id="structure-description"
+        viewMode={viewMode}
+        heTuForm={heTuForm}
+        hlStage={hlStage}
+        magicSquare={msOpen ? msSquare : null}
+        magicConstant={msReport.magicConstant}
+        symmetry={lsSymmetry}
+        heTuStructure={heTuStructure}
+        loShuStructure={loShuStructure}
+      />
+
+      {/* Hidden picker behind the structure panel's load button and the palette command */}
+      <input
+        ref={structureInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = ''; // Picking the same file again still fires
+          if (file) handleStructureFile(file);
+        }}
+      />
+
+      {/* Drop target for structure definitions; covers the page so dragleave only fires on leaving it */}
+      {dragActive && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-cyan-950/40 border-2 border-dashed border-cyan-400/60" onDragLeave={() => setDragActive(false)}>
+          <div className="pointer-events-none px-6 py-4 bg-cyan-950/80 border border-cyan-500/40 rounded-sm text-xs tracking-[0.2em] text-cyan-100">
+            {t('松开以载入结构定义 (JSON)')}
+          </div>
+        </div>
+      )}
+
+      {/* Recording blocks the controls: the scene is being stepped frame by frame */}
+      {recordingClip && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/20 pointer-events-auto">
+          <div className="px-6 py-4 bg-cyan-950/80 border border-cyan-500/40 rounded-sm text-xs tracking-[0.2em] text-cyan-100">
+            {t('录制 {clip} · {percent}%', { clip: t(recordingClip.label), percent: Math.round(exportProgress * 100) })}
+          </div>
+        </div>
+      )}
+
       {/* Main UI Container */}
       <div className="absolute inset-0 z-10 pointer-events-none p-6 md:p-8 flex flex-col justify-between">
         
@@ -181,68 +760,432 @@ const App: React.FC = () => {
           <div>
             <div className="flex gap-6 mb-2">
               <button 
-                 onClick={() => setViewMode(ViewMode.HETU)}
+                 onClick={() => handleViewChange(ViewMode.HETU)}
+                 aria-pressed={viewMode === ViewMode.HETU}
                  className={`text-2xl md:text-3xl font-light tracking-[0.2em] uppercase transition-all duration-300
                    ${viewMode === ViewMode.HETU 
                      ? 'text-cyan-100 drop-shadow-[0_0_10px_rgba(34,211,238,0.5)] border-b border-cyan-400' 
                      : 'text-cyan-700 hover:text-cyan-400'}`}
               >
-                河 图
+                {t('河 图')}
               </button>
               <button 
-                 onClick={() => setViewMode(ViewMode.LOSHU)}
+                 onClick={() => handleViewChange(ViewMode.LOSHU)}
+                 aria-pressed={viewMode === ViewMode.LOSHU}
                  className={`text-2xl md:text-3xl font-light tracking-[0.2em] uppercase transition-all duration-300
                    ${viewMode === ViewMode.LOSHU
                      ? 'text-cyan-100 drop-shadow-[0_0_10px_rgba(34,211,238,0.5)] border-b border-cyan-400' 
                      : 'text-cyan-700 hover:text-cyan-400'}`}
               >
-                洛 书
+                {t('洛 书')}
+              </button>
+              <button 
+                 onClick={() => handleViewChange(ViewMode.HELUO)}
+                 aria-pressed={viewMode === ViewMode.HELUO}
+                 className={`text-2xl md:text-3xl font-light tracking-[0.2em] uppercase transition-all duration-300
+                   ${viewMode === ViewMode.HELUO
+                     ? 'text-cyan-100 drop-shadow-[0_0_10px_rgba(34,211,238,0.5)] border-b border-cyan-400' 
+                     : 'text-cyan-700 hover:text-cyan-400'}`}
+              >
+                {t('河 洛')}
               </button>
             </div>
             <p className="text-[10px] md:text-xs text-cyan-400 tracking-widest mt-1 uppercase">
-              {viewMode === ViewMode.HETU ? '立方生成系统' : '立体运行系统'}
+              {t(viewMode === ViewMode.HETU ? '立方生成系统' : viewMode === ViewMode.LOSHU ? '立体运行系统' : '河洛变换系统')}
             </p>
           </div>
+
+          <div className="flex flex-col items-end gap-2">
+            {/* Language & pinyin */}
+            <div className="flex items-center gap-2">
+              <div className="flex bg-cyan-950/30 border border-cyan-500/30 rounded-sm backdrop-blur-md" title={t('界面语言')}>
+                {LOCALES.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setLocale(option.id)}
+                    aria-pressed={locale === option.id}
+                    className={`px-2 py-1 text-xs tracking-[0.15em] transition-colors ${locale === option.id ? 'bg-cyan-800/60 text-white' : 'text-cyan-300 hover:text-white hover:bg-cyan-900/40'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setPinyin(!pinyin)}
+                aria-pressed={pinyin}
+                className={`px-2 py-1 text-xs tracking-[0.15em] border border-cyan-500/30 rounded-sm backdrop-blur-md transition-colors
+                  ${pinyin ? 'bg-cyan-800/60 text-white' : 'bg-cyan-950/30 text-cyan-300 hover:text-white hover:bg-cyan-900/40'}`}
+                title={t('场景标注显示拼音')}
+              >
+                {t('拼音')}
+              </button>
+              <button
+                onClick={() => setHelpOpen(prev => !prev)}
+                aria-pressed={helpOpen}
+                aria-label={t('快捷键')}
+                className={`px-2 py-1 text-xs border border-cyan-500/30 rounded-sm backdrop-blur-md transition-colors
+                  ${helpOpen ? 'bg-cyan-800/60 text-white' : 'bg-cyan-950/30 text-cyan-300 hover:text-white hover:bg-cyan-900/40'}`}
+                title={t('快捷键 (? / Ctrl K)')}
+              >
+                ?
+              </button>
+              <button
+                onClick={() => setReducedMotion(!reducedMotion)}
+                aria-pressed={reducedMotion}
+                className={`px-2 py-1 text-xs tracking-[0.15em] border border-cyan-500/30 rounded-sm backdrop-blur-md transition-colors
+                  ${reducedMotion ? 'bg-cyan-800/60 text-white' : 'bg-cyan-950/30 text-cyan-300 hover:text-white hover:bg-cyan-900/40'}`}
+                title={t('停止自动旋转并缩短形态变换')}
+              >
+                {t('减少动态')}
+              </button>
+            </div>
+
+            {/* Export Menu (PNG still / WebM & GIF recording) */}
+            <button
+              onClick={() => setExportOpen(prev => !prev)}
+              aria-expanded={exportOpen}
+              className={`px-3 py-1 text-xs tracking-[0.15em] border border-cyan-500/30 rounded-sm backdrop-blur-md transition-colors
+                ${exportOpen ? 'bg-cyan-800/60 text-white' : 'bg-cyan-950/30 text-cyan-300 hover:text-white hover:bg-cyan-900/40'}`}
+              title={t('导出图片 / 录制动画')}
+            >
+              {t('导出')}
+            </button>
+            {exportOpen && (
+              <div className="bg-cyan-950/60 border border-cyan-500/30 rounded-sm backdrop-blur-md p-3 text-xs text-cyan-200 w-[240px] animate-fadeIn">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="tracking-[0.2em] text-cyan-100">{t('分辨率')}</span>
+                  <select
+                    value={exportResolution.id}
+                    onChange={(e) => setExportResolutionId(e.target.value)}
+                    className="bg-transparent text-cyan-200 px-1 py-1 rounded border border-cyan-500/30 outline-none cursor-pointer"
+                  >
+                    {CAPTURE_RESOLUTIONS.map(r => (
+                      <option key={r.id} value={r.id} className="bg-cyan-950">{r.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setExportBackground(prev => prev === CaptureBackground.GRADIENT ? CaptureBackground.TRANSPARENT : CaptureBackground.GRADIENT)}
+                    className="flex-1 px-2 py-1 border border-cyan-500/30 rounded-sm hover:bg-cyan-900/40 transition-colors"
+                    title={t('PNG 背景')}
+                  >
+                    {t(exportBackground === CaptureBackground.GRADIENT ? '渐变背景' : '透明背景')}
+                  </button>
+                  <button
+                    onClick={handleExportStill}
+                    disabled={!!recordingClip}
+                    className="flex-1 px-2 py-1 border border-cyan-500/30 rounded-sm bg-cyan-800/40 hover:bg-cyan-700/60 text-white transition-colors disabled:opacity-30"
+                  >
+                    {t('导出 PNG')}
+                  </button>
+                </div>
+
+                <div className="border-t border-cyan-500/20 my-3"></div>
+
+                <div className="flex items-center justify-between mb-2">
+                  <span className="tracking-[0.2em] text-cyan-100">{t('录制')}</span>
+                  <select
+                    value={exportClip?.id ?? ''}
+                    onChange={(e) => setExportClipId(e.target.value)}
+                    className="bg-transparent text-cyan-200 px-1 py-1 rounded border border-cyan-500/30 outline-none cursor-pointer"
+                  >
+                    {viewClips.map(clip => (
+                      <option key={clip.id} value={clip.id} className="bg-cyan-950">{t(clip.label)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setExportFormat(prev => prev === RecordingFormat.WEBM ? RecordingFormat.GIF : RecordingFormat.WEBM)}
+                    className="flex-1 px-2 py-1 border border-cyan-500/30 rounded-sm hover:bg-cyan-900/40 transition-colors"
+                    title={t('视频格式')}
+                  >
+                    {exportFormat === RecordingFormat.WEBM ? 'WebM' : 'GIF'}
+                  </button>
+                  <button
+                    onClick={handleRecord}
+                    disabled={!exportClip || !!recordingClip}
+                    className="flex-1 px-2 py-1 border border-cyan-500/30 rounded-sm bg-amber-800/40 hover:bg-amber-700/60 text-white transition-colors disabled:opacity-30"
+                  >
+                    {recordingClip ? `${Math.round(exportProgress * 100)}%` : t('开始录制')}
+                  </button>
+                </div>
+                <p className="text-[10px] text-cyan-600 mt-1">{t('按固定帧率逐帧渲染，与屏幕刷新无关')}</p>
+
+                <div className="border-t border-cyan-500/20 my-3"></div>
+
+                <div className="flex items-center justify-between mb-2">
+                  <span className="tracking-[0.2em] text-cyan-100">{t('模型')}</span>
+                  <select
+                    value={modelFormId ?? ''}
+                    onChange={(e) => setModelFormId(e.target.value || null)}
+                    className="bg-transparent text-cyan-200 px-1 py-1 rounded border border-cyan-500/30 outline-none cursor-pointer"
+                  >
+                    <option value="" className="bg-cyan-950">{t('当前 ({form})', { form: t(currentModelForm.label) })}</option>
+                    {MODEL_FORMS.map(form => (
+                      <option key={form.id} value={form.id} className="bg-cyan-950">{t(form.label)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-4 gap-1">
+                  {Object.values(ModelFormat).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportModel(format)}
+                      disabled={!!modelBusy || !!recordingClip}
+                      className="px-1 py-1 border border-cyan-500/30 rounded-sm hover:bg-cyan-900/40 transition-colors disabled:opacity-30"
+                    >
+                      {modelBusy === format ? '…' : format}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-[10px] text-cyan-600 mt-1">{t('STL 为熔接成整体的水密实体，长边 100 mm，可直接打印')}</p>
+                {exportError && <p className="text-[10px] text-red-300 mt-1">{t(exportError)}</p>}
+              </div>
+            )}
+
+            {/* Structure Definitions (JSON presets / dropped files) */}
+            <button
+              onClick={() => setStOpen(prev => !prev)}
+              aria-expanded={stOpen}
+              className={`px-3 py-1 text-xs tracking-[0.15em] border border-cyan-500/30 rounded-sm backdrop-blur-md transition-colors
+                ${stOpen ? 'bg-cyan-800/60 text-white' : isCustomStructure ? 'bg-amber-900/40 text-amber-200 hover:bg-amber-800/50' : 'bg-cyan-950/30 text-cyan-300 hover:text-white hover:bg-cyan-900/40'}`}
+              title={t('载入或恢复河图 / 洛书的点阵定义')}
+            >
+              {t('结构')}
+            </button>
+            {stOpen && (
+              <StructurePanel
+                structure={viewStructure}
+                isCustom={isCustomStructure}
+                error={structureError}
+                onLoad={() => structureInputRef.current?.click()}
+                onRestore={handleRestoreStructure}
+              />
+            )}
+
+            {/* Magic Square Panel (Lo Shu only) */}
+            {viewMode === ViewMode.LOSHU && msOpen && (
+              <div className="bg-cyan-950/60 border border-cyan-500/30 rounded-sm backdrop-blur-md p-3 text-xs text-cyan-200 w-[240px] md:w-[300px] animate-fadeIn">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="tracking-[0.2em] text-cyan-100">{t('幻方')}</span>
+                  <select
+                    value={msOrder}
+                    onChange={(e) => handleMagicOrderChange(Number(e.target.value))}
+                    className="bg-transparent text-cyan-200 px-1 py-1 rounded border border-cyan-500/30 outline-none cursor-pointer"
+                  >
+                    {Array.from({ length: MAX_MAGIC_ORDER - MIN_MAGIC_ORDER + 1 }, (_, i) => MIN_MAGIC_ORDER + i).map(n => (
+                      <option key={n} value={n} className="bg-cyan-950">{t('{n} 阶', { n })}</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-[10px] text-cyan-400 tracking-widest mb-2">
+                  {t('{method} · 幻和 {sum}', { method: t(MAGIC_METHOD_LABELS[getMagicSquareMethod(msOrder)]), sum: msReport.magicConstant })}
+                </p>
+
+                <div className="grid gap-[2px]" style={{ gridTemplateColumns: `repeat(${msOrder}, minmax(0, 1fr))` }}>
+                  {msSquare.map((rowValues, r) => rowValues.map((value, c) => {
+                    const isPicked = msPick !== null && msPick[0] === r && msPick[1] === c;
+                    const isBroken = msBrokenCells.has(`${r}-${c}`);
+                    return (
+                      <button
+                        key={`${r}-${c}`}
+                        onClick={() => handleMagicCellClick(r, c)}
+                        aria-pressed={isPicked}
+                        className={`aspect-square flex items-center justify-center rounded-sm border transition-colors
+                          ${msOrder > 6 ? 'text-[9px]' : 'text-xs'}
+                          ${isPicked ? 'bg-amber-700/70 border-amber-400 text-white' : isBroken ? 'border-red-500/60 text-red-300 hover:bg-red-900/30' : 'border-cyan-500/20 hover:bg-cyan-800/40'}`}
+                      >
+                        {value}
+                      </button>
+                    );
+                  }))}
+                </div>
+
+                <div className="flex items-center justify-between mt-2">
+                  <span className={`text-[10px] tracking-widest ${msReport.isMagic ? 'text-cyan-400' : 'text-red-300'}`}>
+                    {msReport.isMagic
+                      ? t('{count} 线皆为 {sum}', { count: msReport.lines.length, sum: msReport.magicConstant })
+                      : t('{count} 线失衡', { count: msReport.brokenLines.length })}
+                  </span>
+                  <button
+                    onClick={() => handleMagicOrderChange(msOrder)}
+                    className="px-2 py-1 border border-cyan-500/30 rounded-sm hover:bg-cyan-900/40 transition-colors"
+                  >
+                    {t('复原')}
+                  </button>
+                </div>
+                <p className="text-[10px] text-cyan-600 mt-1">{t('点击两格交换数字')}</p>
+              </div>
+            )}
+
+            {/* Symmetry Panel (Lo Shu only) */}
+            {viewMode === ViewMode.LOSHU && syOpen && (
+              <SymmetryPanel symmetry={lsSymmetry} onChange={(next) => { setMsOpen(false); setLsSymmetry(next); }} />
+            )}
+
+            {/* Hexagram Explorer Panel (He Tu & Lo Shu) */}
+            {viewMode !== ViewMode.HELUO && hxOpen && (
+              <HexagramPanel
+                pick={hxPick}
+                slot={hxSlot}
+                onSlotChange={setHxSlot}
+                onPickPalace={handlePickHexagramPalace}
+                onToggleLine={handleToggleHexagramLine}
+              />
+            )}
+          </div>
         </header>
 
+        {/* --- INSPECTOR PANEL (picked number group) --- */}
+        {selectedInfo && !(viewMode === ViewMode.LOSHU && (msOpen || hxOpen)) && (
+          <aside className="absolute right-6 md:right-8 top-1/2 -translate-y-1/2 w-[200px] pointer-events-auto bg-cyan-950/60 border border-cyan-500/30 rounded-sm backdrop-blur-md p-4 text-xs text-cyan-200 animate-fadeIn">
+            <div className="flex items-start justify-between">
+              <span className="text-4xl font-light text-cyan-50">{selectedInfo.numberValue}</span>
+              <button onClick={() => handleSelectNumber(null)} className="text-cyan-500 hover:text-white transition-colors" title={t('关闭')}>✕</button>
+            </div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 mt-3 tracking-widest">
+              <dt className="text-cyan-500">{t('阴阳')}</dt>
+              <dd className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full inline-block ${selectedInfo.polarity === Polarity.YANG ? 'bg-white shadow-[0_0_6px_rgba(255,255,255,0.8)]' : 'bg-black border border-cyan-800'}`}></span>
+                {t(selectedInfo.polarity === Polarity.YANG ? '阳 (奇)' : '阴 (偶)')}
+              </dd>
+              <dt className="text-cyan-500">{t('方位')}</dt>
+              <dd>{term(selectedInfo.direction)}</dd>
+              <dt className="text-cyan-500">{t('五行')}</dt>
+              <dd style={{ color: ELEMENT_COLORS[selectedInfo.element] }}>{term(ELEMENT_NAMES[selectedInfo.element])}</dd>
+              {selectedInfo.trigram && (
+                <>
+                  <dt className="text-cyan-500">{t('卦')}</dt>
+                  <dd>{term(selectedInfo.trigram)}</dd>
+                </>
+              )}
+              <dt className="text-cyan-500">{t('点数')}</dt>
+              <dd>{selectedInfo.dotCount}</dd>
+              <dt className="text-cyan-500">{t('河图配')}</dt>
+              <dd>{Math.min(selectedInfo.numberValue, selectedInfo.heTuPartner)} / {Math.max(selectedInfo.numberValue, selectedInfo.heTuPartner)}</dd>
+              {selectedInfo.loShuPartner !== undefined && (
+                <>
+                  <dt className="text-cyan-500">{t('洛书对宫')}</dt>
+                  <dd>{selectedInfo.loShuPartner === selectedInfo.numberValue ? t('居中') : t('{n} (合十)', { n: selectedInfo.loShuPartner })}</dd>
+                </>
+              )}
+            </dl>
+          </aside>
+        )}
+
+        {/* --- HE TU TIMELINE --- */}
+        {viewMode === ViewMode.HETU && timelineOpen && (
+          <TimelinePanel
+            keyframes={timelineKeyframes}
+            onKeyframesChange={setTimelineKeyframes}
+            playing={timelinePlaying}
+            onPlayingChange={setTimelinePlaying}
+            loop={timelineLoop}
+            onLoopChange={setTimelineLoop}
+            playheadRef={timelinePlayhead}
+          />
+        )}
+
         {/* --- HE TU CONTROLS --- */}
         {viewMode === ViewMode.HETU && (
           <div className="flex justify-between items-end animate-fadeIn">
             <div className="hidden md:block text-[10px] text-cyan-300 tracking-widest leading-relaxed uppercase font-medium">
               <div className="flex items-center gap-2">
                 <span className="w-1.5 h-1.5 bg-white shadow-[0_0_8px_rgba(255,255,255,0.8)] rounded-full inline-block"></span>
-                天面 (-Z)
+                {t('天面 (-Z)')}
               </div>
               <div className="flex items-center gap-2">
                  <span className="w-1.5 h-1.5 bg-black border border-cyan-800 rounded-full inline-block"></span>
-                 地面 (+Z)
+                 {t('地面 (+Z)')}
               </div>
               <div className="flex items-center gap-2">
                  <span className="w-1.5 h-1.5 border border-cyan-400 rounded-full inline-block"></span>
-                 中枢 (0)
+                 {t('中枢 (0)')}
               </div>
+              {elementCycle && (
+                <div className="flex items-center gap-2 mt-2 normal-case">
+                  {ELEMENT_CYCLES[elementCycle].map((element, i) => (
+                    <React.Fragment key={element}>
+                      {i > 0 && <span className="text-cyan-700">→</span>}
+                      <span style={{ color: ELEMENT_COLORS[element] }}>{t(ELEMENT_NAMES[element])}</span>
+                    </React.Fragment>
+                  ))}
+                  <span className="text-cyan-700">→</span>
+                  <span style={{ color: ELEMENT_COLORS[ELEMENT_CYCLES[elementCycle][0]] }}>{t(ELEMENT_NAMES[ELEMENT_CYCLES[elementCycle][0]])}</span>
+                </div>
+              )}
             </div>
 
             <div className="flex flex-wrap justify-end gap-3 pointer-events-auto">
-               <button onClick={handleReset} disabled={animState === AnimationState.STATIC} className={`px-4 py-2 md:px-6 md:py-3 border border-cyan-500/30 rounded-sm transition-all duration-300 ${animState === AnimationState.STATIC ? 'opacity-30 cursor-not-allowed' : 'bg-cyan-950/30 hover:bg-red-900/40 text-cyan-200 hover:text-white'}`}>
-                <span className="text-xs tracking-[0.15em] uppercase">重置</span>
-              </button>
-              <button onClick={handleGalaxyClick} className={`group flex items-center gap-3 px-4 py-2 md:px-6 md:py-3 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out shadow-[0_0_15px_rgba(6,182,212,0.1)] min-w-[100px] md:min-w-[140px] justify-center ${(animState === AnimationState.RUNNING || animState === AnimationState.PAUSED || animState === AnimationState.MORPHING) ? 'bg-cyan-800/60 text-white shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}>
-                <span className="text-xs tracking-[0.15em] uppercase group-hover:text-white transition-colors">{getGalaxyButtonText()}</span>
+              {/* The timeline owns the morph while it is open */}
+              {!timelineOpen && (
+                <>
+                 <button onClick={handleReset} disabled={!heTuCanReset} className={`px-4 py-2 md:px-6 md:py-3 border border-cyan-500/30 rounded-sm transition-all duration-300 ${!heTuCanReset ? 'opacity-30 cursor-not-allowed' : 'bg-cyan-950/30 hover:bg-red-900/40 text-cyan-200 hover:text-white'}`}>
+                  <span className="text-xs tracking-[0.15em] uppercase">{t('重置')}</span>
+                </button>
+                {HETU_LAYOUTS.map(layout => (
+                  <button key={layout.id} onClick={() => handleLayoutClick(layout.id)} aria-pressed={isLayoutShown(layout)} className={`group flex items-center gap-3 px-4 py-2 md:px-6 md:py-3 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out shadow-[0_0_15px_rgba(6,182,212,0.1)] min-w-[100px] md:min-w-[140px] justify-center ${isLayoutShown(layout) ? 'bg-cyan-800/60 text-white shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}>
+                    <span className="text-xs tracking-[0.15em] uppercase group-hover:text-white transition-colors">{getLayoutButtonText(layout)}</span>
+                  </button>
+                ))}
+                </>
+              )}
+              <div className="flex bg-cyan-950/40 rounded-sm border border-cyan-500/30 backdrop-blur-md">
+                <button onClick={handleToggleElements} aria-pressed={elementCycle !== null} className={`px-4 py-2 md:px-5 md:py-3 transition-all duration-300 ${elementCycle ? 'bg-cyan-800/60 text-white' : 'text-cyan-200 hover:bg-cyan-900/40'}`} title={t('五行配色与生克循环')}>
+                  <span className="text-xs tracking-[0.15em] uppercase">{t('五行')}</span>
+                </button>
+                {elementCycle && (
+                  <button onClick={handleSwitchElementCycle} className="px-4 py-2 md:px-5 md:py-3 border-l border-cyan-500/30 text-cyan-200 hover:text-white hover:bg-cyan-900/40 transition-all duration-300" title={t('切换相生 / 相克')}>
+                    <span className="text-xs tracking-[0.15em] uppercase">{t(elementCycle === ElementCycle.GENERATING ? '相生' : '相克')}</span>
+                  </button>
+                )}
+              </div>
+              {renderBaguaControls('px-4 py-2 md:px-5 md:py-3')}
+              <button onClick={handleToggleHexagrams} aria-pressed={hxOpen} className={`px-4 py-2 md:px-5 md:py-3 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-300 ${hxOpen ? 'bg-cyan-800/60 text-white' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`} title={t('六十四卦：上下卦、变爻与之卦')}>
+                <span className="text-xs tracking-[0.15em] uppercase">{t('六十四卦')}</span>
               </button>
-               <button onClick={handleHelixClick} className={`group flex items-center gap-3 px-4 py-2 md:px-6 md:py-3 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out shadow-[0_0_15px_rgba(6,182,212,0.1)] min-w-[100px] md:min-w-[140px] justify-center ${(animState === AnimationState.HELIX_RUNNING || animState === AnimationState.HELIX_PAUSED || animState === AnimationState.HELIX_MORPHING) ? 'bg-cyan-800/60 text-white shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}>
-                <span className="text-xs tracking-[0.15em] uppercase group-hover:text-white transition-colors">{getHelixButtonText()}</span>
+              <button onClick={handleToggleTimeline} aria-pressed={timelineOpen} className={`px-4 py-2 md:px-5 md:py-3 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-300 ${timelineOpen ? 'bg-cyan-800/60 text-white' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`} title={t('时间轴与关键帧序列')}>
+                <span className="text-xs tracking-[0.15em] uppercase">{t('时间轴')}</span>
               </button>
-              <button onClick={handleToggleAutoRotate} className={`group flex items-center justify-center w-10 h-10 md:w-12 md:h-12 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out shadow-[0_0_15px_rgba(6,182,212,0.1)] ${autoRotate ? 'bg-cyan-800/60 text-white' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-400'}`}>
+              <button onClick={handleToggleAutoRotate} disabled={reducedMotion} aria-pressed={sceneAutoRotate} aria-label={t('自动旋转')} title={t('自动旋转')} className={`group flex items-center justify-center w-10 h-10 md:w-12 md:h-12 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out shadow-[0_0_15px_rgba(6,182,212,0.1)] disabled:opacity-30 disabled:cursor-not-allowed ${sceneAutoRotate ? 'bg-cyan-800/60 text-white' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-400'}`}>
                 <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21.5 2v6h-6M2.5 22v-6h6M2 12c0-4.97 4.03-9 9-9c4.36 0 8.04 3.06 8.8 7.23M22 12c0 4.97-4.03 9-9 9c-4.36 0-8.04-3.06-8.8-7.23"/></svg>
               </button>
-              <button onClick={handleAlign} className="group flex items-center justify-center w-10 h-10 md:w-12 md:h-12 bg-cyan-950/30 hover:bg-cyan-900/40 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out shadow-[0_0_15px_rgba(6,182,212,0.1)]">
+              <button onClick={handleAlign} aria-label={t('对齐视角')} title={t('对齐视角')} className="group flex items-center justify-center w-10 h-10 md:w-12 md:h-12 bg-cyan-950/30 hover:bg-cyan-900/40 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out shadow-[0_0_15px_rgba(6,182,212,0.1)]">
                 <svg width="12" height="12" viewBox="0 0 12 12" fill="none" className="opacity-70 group-hover:opacity-100 transition-opacity text-cyan-400 group-hover:text-cyan-200"><rect x="0.5" y="0.5" width="11" height="11" stroke="currentColor" /><circle cx="6" cy="6" r="2" fill="currentColor" /></svg>
               </button>
             </div>
           </div>
         )}
 
+        {/* --- HE TU ⇄ LO SHU CONTROLS --- */}
+        {viewMode === ViewMode.HELUO && (
+          <div className="flex justify-between items-end animate-fadeIn">
+            <div className="hidden md:block text-[10px] text-cyan-300 tracking-widest leading-relaxed uppercase font-medium">
+              <p>{t('一六居北 · 三八居东 · 五居中 (十隐)')}</p>
+              <p className="flex items-center gap-2 text-[#f59e0b]">
+                <span className="w-1.5 h-1.5 bg-[#f59e0b] shadow-[0_0_8px_rgba(245,158,11,0.8)] rounded-full inline-block"></span>
+                {t('金火易位: 二七 南 → 西 · 四九 西 → 南')}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-3 pointer-events-auto">
+              <button
+                onClick={() => setHlStage(prev => prev === HeLuoStage.HETU ? HeLuoStage.LOSHU : HeLuoStage.HETU)}
+                aria-pressed={hlStage === HeLuoStage.LOSHU}
+                className={`group flex items-center gap-3 px-4 py-2 md:px-6 md:py-3 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out shadow-[0_0_15px_rgba(6,182,212,0.1)] min-w-[100px] md:min-w-[140px] justify-center
+                  ${hlStage === HeLuoStage.LOSHU ? 'bg-cyan-800/60 text-white shadow-[0_0_20px_rgba(34,211,238,0.3)]' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}
+              >
+                <span className="text-xs tracking-[0.15em] uppercase group-hover:text-white transition-colors">
+                  {t(hlStage === HeLuoStage.HETU ? '河图化洛书' : '洛书还河图')}
+                </span>
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* --- LO SHU CONTROLS --- */}
         {viewMode === ViewMode.LOSHU && (
           <div className="flex flex-col md:flex-row justify-between items-end animate-fadeIn w-full">
@@ -251,12 +1194,21 @@ const App: React.FC = () => {
              <div className="hidden md:block text-[10px] text-cyan-300 tracking-widest leading-relaxed uppercase font-medium mb-4 md:mb-0">
                <p className="flex items-center gap-2">
                  <span className={`w-2 h-2 rounded-full ${lsRunning ? 'bg-amber-400 shadow-[0_0_5px_#fbbf24]' : 'bg-cyan-800'}`}></span>
-                 {lsRunning ? '能量: 飞星传输中' : '能量: 待命'}
+                 {t(lsRunning ? '能量: 飞星传输中' : '能量: 待命')}
                </p>
                <p className="flex items-center gap-2 mt-1">
                  <span className={`w-2 h-2 rounded-full ${lsSphereRotating ? 'bg-cyan-400 shadow-[0_0_5px_#22d3ee]' : 'bg-cyan-800'}`}></span>
-                 {lsSphereRotating ? '动态: 立体运转中' : '动态: 静态锁定'}
+                 {t(lsSphereRotating ? '动态: 立体运转中' : '动态: 静态锁定')}
                </p>
+               {lsLayers.stars && lsFlyingStars && (
+                 <p className="flex items-center gap-2 mt-1 normal-case">
+                   <span className="text-[#f59e0b]">{t('{period}运', { period: lsFlyingStars.period })}</span>
+                   <span className="text-[#a78bfa]">{t('{year}年 {star}入中', { year: lsFlyingStars.solarYear, star: t(STAR_NAMES[lsFlyingStars.annualStars[5]]) })}</span>
+                   {lsFlyingStars.monthlyStars && (
+                     <span className="text-[#f472b6]">{t('月 {star}入中', { star: t(STAR_NAMES[lsFlyingStars.monthlyStars[5]]) })}</span>
+                   )}
+                 </p>
+               )}
              </div>
 
              {/* Right: Controls Grid - REORDERED */}
@@ -264,78 +1216,212 @@ const App: React.FC = () => {
                 
                 {/* 1. Reset */}
                 <button onClick={handleLoShuReset} className="px-4 py-2 border border-cyan-500/30 rounded-sm bg-cyan-950/30 hover:bg-red-900/40 text-cyan-200 hover:text-white transition-all order-last md:order-first">
-                  <span className="text-xs tracking-[0.15em] uppercase">重置</span>
+                  <span className="text-xs tracking-[0.15em] uppercase">{t('重置')}</span>
+                </button>
+
+                {/* 1b. Magic Square (N×N generalisation) */}
+                <button 
+                  onClick={handleToggleMagicSquare}
+                  aria-pressed={msOpen}
+                  className={`px-4 py-2 border border-cyan-500/30 rounded-sm transition-all
+                    ${msOpen ? 'bg-cyan-800/80 text-white border-cyan-400/50' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}
+                  title={t('N 阶幻方生成与校验')}
+                >
+                  <span className="text-xs tracking-[0.15em] uppercase">{t('幻方')}</span>
+                </button>
+
+                {/* 1c. Bagua ring (Former / Later Heaven) */}
+                {renderBaguaControls('px-4 py-2')}
+
+                {/* 1d. Hexagram explorer */}
+                <button 
+                  onClick={handleToggleHexagrams}
+                  aria-pressed={hxOpen}
+                  className={`px-4 py-2 border border-cyan-500/30 rounded-sm transition-all
+                    ${hxOpen ? 'bg-cyan-800/80 text-white border-cyan-400/50' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}
+                  title={t('六十四卦：上下卦、变爻与之卦')}
+                >
+                  <span className="text-xs tracking-[0.15em] uppercase">{t('六十四卦')}</span>
+                </button>
+
+                {/* 1e. Symmetry explorer (D4) */}
+                <button 
+                  onClick={handleToggleSymmetry}
+                  aria-pressed={syOpen}
+                  className={`px-4 py-2 border border-cyan-500/30 rounded-sm transition-all
+                    ${syOpen ? 'bg-cyan-800/80 text-white border-cyan-400/50' : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}
+                  title={t('洛书的旋转与翻转')}
+                >
+                  <span className="text-xs tracking-[0.15em] uppercase">{t('对称')}</span>
                 </button>
 
                 {/* Layer Toggles Group */}
                 <div className="flex gap-4 bg-cyan-950/40 p-1 rounded border border-cyan-500/20 backdrop-blur-sm">
                   
                   {/* 2. Dots */}
-                  <button onClick={() => toggleLayer('dots')} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.dots ? 'bg-cyan-700 text-white shadow-sm' : 'text-cyan-500/70 hover:text-cyan-300'}`} title="原始编码层">
-                      黑白子
+                  <button onClick={() => toggleLayer('dots')} aria-pressed={lsLayers.dots} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.dots ? 'bg-cyan-700 text-white shadow-sm' : 'text-cyan-500/70 hover:text-cyan-300'}`} title={t('原始编码层')}>
+                      {t('黑白子')}
                   </button>
 
                   {/* 3. Numbers */}
-                  <button onClick={() => toggleLayer('numbers')} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.numbers ? 'bg-cyan-600 text-white shadow-sm font-bold' : 'text-cyan-500 hover:text-cyan-300'}`} title="运行解释层">
-                      数字
+                  <button onClick={() => toggleLayer('numbers')} aria-pressed={lsLayers.numbers} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.numbers ? 'bg-cyan-600 text-white shadow-sm font-bold' : 'text-cyan-500 hover:text-cyan-300'}`} title={t('运行解释层')}>
+                      {t('数字')}
                   </button>
 
                   {/* 4. Trigrams */}
-                  <button onClick={() => toggleLayer('trigrams')} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.trigrams ? 'bg-cyan-600 text-white shadow-sm font-bold' : 'text-cyan-500 hover:text-cyan-300'}`} title="语义层">
-                      八卦
+                  <button onClick={() => toggleLayer('trigrams')} aria-pressed={lsLayers.trigrams} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.trigrams ? 'bg-cyan-600 text-white shadow-sm font-bold' : 'text-cyan-500 hover:text-cyan-300'}`} title={t('语义层')}>
+                      {t('八卦')}
                   </button>
 
                   {/* 5. Directions */}
-                  <button onClick={() => toggleLayer('directions')} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.directions ? 'bg-cyan-600 text-white shadow-sm' : 'text-cyan-500 hover:text-cyan-300'}`}>
-                      方位
+                  <button onClick={() => toggleLayer('directions')} aria-pressed={lsLayers.directions} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.directions ? 'bg-cyan-600 text-white shadow-sm' : 'text-cyan-500 hover:text-cyan-300'}`}>
+                      {t('方位')}
                   </button>
 
                    {/* 6. Lines */}
-                   <button onClick={() => toggleLayer('lines')} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.lines ? 'bg-cyan-600 text-white shadow-sm' : 'text-cyan-500 hover:text-cyan-300'}`}>
-                      连线
+                   <button onClick={() => toggleLayer('lines')} aria-pressed={lsLayers.lines} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.lines ? 'bg-cyan-600 text-white shadow-sm' : 'text-cyan-500 hover:text-cyan-300'}`}>
+                      {t('连线')}
+                    </button>
+
+                   {/* 6a. 15-Sum Lines */}
+                   <button onClick={() => toggleLayer('sums')} aria-pressed={lsLayers.sums} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.sums ? 'bg-cyan-600 text-white shadow-sm' : 'text-cyan-500 hover:text-cyan-300'}`} title={t('三行三列两对角，和皆十五')}>
+                      {t('十五')}
+                    </button>
+
+                   {/* 6c. Flying Star Chart */}
+                   <button onClick={() => toggleLayer('stars')} aria-pressed={lsLayers.stars} className={`px-3 py-2 text-xs uppercase rounded transition-colors ${lsLayers.stars ? 'bg-cyan-600 text-white shadow-sm' : 'text-cyan-500 hover:text-cyan-300'}`} title={t('玄空飞星盘')}>
+                      {t('星盘')}
                     </button>
                 </div>
 
+                {/* 6b. Energy Route Picker */}
+                {lsLayers.lines && (
+                  <div className="flex items-center gap-2 bg-cyan-950/40 p-1 rounded border border-cyan-500/20 backdrop-blur-sm">
+                    <select
+                      value={lsRouteId}
+                      onChange={(e) => setLsRouteId(e.target.value)}
+                      className="bg-transparent text-xs text-cyan-200 px-2 py-2 rounded outline-none cursor-pointer"
+                      title={t('能量路线')}
+                    >
+                      {LOSHU_ENERGY_ROUTES.map(route => (
+                        <option key={route.id} value={route.id} className="bg-cyan-950">{t(route.label)}</option>
+                      ))}
+                      <option value={CUSTOM_ROUTE_ID} className="bg-cyan-950">{t('自定义')}</option>
+                    </select>
+                    {lsRouteId === CUSTOM_ROUTE_ID && (
+                      <input
+                        type="text"
+                        value={lsCustomRoute}
+                        onChange={(e) => setLsCustomRoute(e.target.value)}
+                        placeholder="1 5 9 1"
+                        className={`w-28 bg-transparent text-xs tracking-widest px-2 py-2 rounded border outline-none
+                          ${lsCustomSequence ? 'border-cyan-500/30 text-cyan-100' : 'border-red-500/60 text-red-300'}`}
+                        title={t('输入 1-9 的宫位序列，首尾相同则闭合')}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {/* 6d. Flying Star Inputs */}
+                {lsLayers.stars && (
+                  <div className="flex items-center gap-2 bg-cyan-950/40 p-1 rounded border border-cyan-500/20 backdrop-blur-sm">
+                    <select
+                      value={lsPeriod}
+                      onChange={(e) => setLsPeriod(Number(e.target.value))}
+                      className="bg-transparent text-xs text-[#f59e0b] px-2 py-2 rounded outline-none cursor-pointer"
+                      title={t('元运')}
+                    >
+                      {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(p => (
+                        <option key={p} value={p} className="bg-cyan-950">{t('{period}运', { period: p })}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setLsFlight(prev => prev === FlightDirection.FORWARD ? FlightDirection.REVERSE : FlightDirection.FORWARD)}
+                      className="px-2 py-2 text-xs text-cyan-200 hover:text-white rounded transition-colors"
+                      title={t('运星飞行方向')}
+                    >
+                      {t(lsFlight === FlightDirection.FORWARD ? '顺飞' : '逆飞')}
+                    </button>
+                    <input
+                      type="date"
+                      value={lsStarDate}
+                      onChange={(e) => setLsStarDate(e.target.value)}
+                      className="bg-transparent text-xs text-[#a78bfa] px-2 py-2 rounded border border-cyan-500/30 outline-none [color-scheme:dark]"
+                      title={t('流年 / 流月')}
+                    />
+                    <button
+                      onClick={() => setLsIncludeMonth(prev => !prev)}
+                      aria-pressed={lsIncludeMonth}
+                      className={`px-2 py-2 text-xs rounded transition-colors ${lsIncludeMonth ? 'text-[#f472b6]' : 'text-cyan-700 hover:text-cyan-400'}`}
+                      title={t('显示月星')}
+                    >
+                      {t('月星')}
+                    </button>
+                  </div>
+                )}
+
                 {/* 7. Morph Button (Plane <-> Sphere) */}
                 <button 
-                  onClick={() => setLsMorph(prev => prev === LoShuMorphState.PLANE ? LoShuMorphState.SPHERE : LoShuMorphState.PLANE)}
+                  disabled={msOpen}
+                  onClick={() => sendLoShu({ type: 'TOGGLE_SPHERE' })}
+                  aria-pressed={lsMorph !== LoShuMorphState.PLANE}
                   className={`flex items-center gap-2 px-4 py-2 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out min-w-[100px] justify-center
+                    ${msOpen ? 'opacity-30 cursor-not-allowed' : ''}
                     ${lsMorph !== LoShuMorphState.PLANE
                       ? 'bg-cyan-800/80 text-white border-cyan-400/50 shadow-[0_0_15px_rgba(34,211,238,0.2)]' 
                       : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}
                 >
                   <span className="text-xs tracking-[0.15em] uppercase">
-                    {lsMorph === LoShuMorphState.PLANE ? '升维' : '降维'}
+                    {t(lsMorph === LoShuMorphState.PLANE ? '升维' : '降维')}
+                  </span>
+                </button>
+
+                {/* 7b. Projection (Sphere <-> Disc) */}
+                <button 
+                  disabled={msOpen}
+                  onClick={() => sendLoShu({ type: 'TOGGLE_PROJECTION' })}
+                  aria-pressed={lsMorph === LoShuMorphState.PROJECTION}
+                  className={`flex items-center gap-2 px-4 py-2 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out min-w-[100px] justify-center
+                    ${msOpen ? 'opacity-30 cursor-not-allowed' : ''}
+                    ${lsMorph === LoShuMorphState.PROJECTION
+                      ? 'bg-cyan-800/80 text-white border-cyan-400/50 shadow-[0_0_15px_rgba(34,211,238,0.2)]' 
+                      : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}
+                  title={t('球面投影回平面')}
+                >
+                  <span className="text-xs tracking-[0.15em] uppercase">
+                    {t(lsMorph === LoShuMorphState.PROJECTION ? '还原球体' : '投影')}
                   </span>
                 </button>
 
                 {/* 8. Flying Star (Energy Flow) */}
                  <button 
-                  disabled={lsMorph === LoShuMorphState.PLANE}
-                  onClick={() => setLsRunning(!lsRunning)}
+                  disabled={!lsCanToggleFlow}
+                  onClick={() => sendLoShu({ type: 'TOGGLE_FLOW' })}
+                  aria-pressed={lsRunning}
                   className={`flex items-center gap-2 px-4 py-2 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out min-w-[100px] justify-center
-                    ${lsMorph === LoShuMorphState.PLANE ? 'opacity-30 cursor-not-allowed' : ''}
+                    ${!lsCanToggleFlow ? 'opacity-30 cursor-not-allowed' : ''}
                     ${lsRunning
                       ? 'bg-amber-800/60 text-white shadow-[0_0_20px_rgba(251,191,36,0.3)]' 
                       : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}
                 >
                   <span className="text-xs tracking-[0.15em] uppercase">
-                    {lsRunning ? '暂停飞星' : '飞星'}
+                    {t(lsRunning ? '暂停飞星' : '飞星')}
                   </span>
                 </button>
                 
                 {/* 9. Run (Sphere Rotation) */}
                  <button 
-                  disabled={lsMorph === LoShuMorphState.PLANE}
-                  onClick={() => setLsSphereRotating(!lsSphereRotating)}
+                  disabled={!lsCanToggleRotation}
+                  onClick={() => sendLoShu({ type: 'TOGGLE_ROTATION' })}
+                  aria-pressed={lsSphereRotating}
                   className={`flex items-center gap-2 px-4 py-2 backdrop-blur-md border border-cyan-500/30 rounded-sm transition-all duration-500 ease-out min-w-[100px] justify-center
-                    ${lsMorph === LoShuMorphState.PLANE ? 'opacity-30 cursor-not-allowed' : ''}
+                    ${!lsCanToggleRotation ? 'opacity-30 cursor-not-allowed' : ''}
                     ${lsSphereRotating
                       ? 'bg-cyan-800/80 text-white border-cyan-400/50 shadow-[0_0_15px_rgba(34,211,238,0.2)]' 
                       : 'bg-cyan-950/30 hover:bg-cyan-900/40 text-cyan-200'}`}
                 >
                   <span className="text-xs tracking-[0.15em] uppercase">
-                     {lsSphereRotating ? '停止运行' : '运行'}
+                     {t(lsSphereRotating ? '停止运行' : '运行')}
                   </span>
                 </button>
 
@@ -344,6 +1430,10 @@ const App: React.FC = () => {
         )}
 
       </div>
+
+      {/* Command palette (Ctrl/⌘ K) & shortcut overlay (?) */}
+      {paletteOpen && <CommandPalette commands={commands} onClose={() => setPaletteOpen(false)} />}
+      {helpOpen && <ShortcutHelp commands={commands} onClose={closeHelp} />}
     </div>
   );
 };
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { AnimationState, FiveElement, GalaxyPointType, HeLuoStage, HeTuForm, HeTuLayoutId, HeTuStructureDefinition, LoShuMorphState, LoShuStructureDefinition, LoShuSymmetry, Polarity, ViewMode } from './types';
+import { describeNumber, generateHeTuPoints, generateLoShuPoints, LOSHU_SUM_LINES } from './constants';
+import { orientSumLine } from './loShuSymmetry';
+import { HETU_PRESET, LOSHU_PRESET } from './structureDefinitions';
+import { getHeTuLayout } from './heTuLayouts';
+import { MessageParams } from './i18n';
+
+// ============================================================================
+// ACCESSIBILITY
+// ============================================================================
+// The canvases say nothing to assistive tech, so the app keeps a text version
+// next to them: a live status line for transitions (describeSceneStatus) and a
+// table of the number groups in the current form, built from the same point
+// generators the scenes draw (describeHeTuStructure / describeLoShuStructure).
+// Strings are Chinese source text, translated where they are rendered.
+
+type Translate = (text: string, params?: MessageParams) => string;
+
+// --- LIVE STATUS ---
+
+export interface SceneStatusInput {
+  viewMode: ViewMode;
+  animState: AnimationState;
+  heTuLayout: HeTuLayoutId;
+  timelineOpen: boolean;
+  timelinePlaying: boolean;
+  lsMorph: LoShuMorphState;
+  lsRunning: boolean;
+  lsSphereRotating: boolean;
+  magicOrder: number | null; // Open magic square
+  hlStage: HeLuoStage;
+}
+
+const HETU_STATUS: Record<AnimationState, string> = {
+  [AnimationState.STATIC]: '河图立方',
+  [AnimationState.MORPHING]: '河图演化为{layout}',
+  [AnimationState.RUNNING]: '河图{layout}运行中',
+  [AnimationState.PAUSED]: '河图{layout}已暂停',
+  [AnimationState.RETURNING]: '河图归位为立方'
+};
+
+const LOSHU_STATUS: Record<LoShuMorphState, string> = {
+  [LoShuMorphState.PLANE]: '洛书展开为平面',
+  [LoShuMorphState.SPHERE]: '洛书升维为球体',
+  [LoShuMorphState.PROJECTION]: '洛书球面投影为圆盘'
+};
+
+// One sentence for the live region; it changes with every transition, which is what gets announced
+export const describeSceneStatus = (input: SceneStatusInput, t: Translate): string => {
+  switch (input.viewMode) {
+    case ViewMode.HETU:
+      if (input.timelineOpen) return t(input.timelinePlaying ? '河图时间轴播放中' : '河图时间轴已暂停');
+      return t(HETU_STATUS[input.animState], { layout: t(getHeTuLayout(input.heTuLayout).label) });
+    case ViewMode.LOSHU: {
+      if (input.magicOrder !== null) return t('{n} 阶幻方', { n: input.magicOrder });
+      const parts = [t(LOSHU_STATUS[input.lsMorph])];
+      if (input.lsRunning) parts.push(t('飞星运行中'));
+      if (input.lsSphereRotating) parts.push(t('球体旋转中'));
+      return parts.join(' · ');
+    }
+    case ViewMode.HELUO:
+      return t(input.hlStage === HeLuoStage.LOSHU ? '河图化为洛书' : '洛书还原为河图');
+  }
+};
+
+// --- STRUCTURE TABLE ---
+
+export interface StructureRow {
+  numberValue: number;
+  polarity: Polarity;
+  dotCount: number;       // Counted from the generated points
+  direction: string;
+  element: FiveElement;
+  trigram?: string;       // Lo Shu palaces only
+  placement: string[];    // Where the group sits in the current form (joined with " · ")
+}
+
+const HETU_LAYER_LABELS = { heaven: '天面 (-Z)', earth: '地面 (+Z)', center: '中枢 (0)' };
+
+const GALAXY_PART_LABELS: Record<GalaxyPointType, string> = {
+  [GalaxyPointType.CORE]: '核心',
+  [GalaxyPointType.RING]: '外环',
+  [GalaxyPointType.ARM]: '旋臂',
+  [GalaxyPointType.EYE]: '鱼眼'
+};
+
+const unique = (values: string[]) => [...new Set(values)];
+
+// Groups points by number, in ascending order
+const groupByNumber = <P extends { numberValue: number }>(points: P[]) => {
+  const groups = new Map<number, P[]>();
+  points.forEach(point => groups.set(point.numberValue, [...(groups.get(point.numberValue) ?? []), point]));
+  return [...groups.entries()].sort(([a], [b]) => a - b);
+};
+
+// He Tu number groups in `form`: cube faces for the cube, the parts of the
+// figure (core, ring, arms, eyes) for an unfolded layout; null = no placement
+export const describeHeTuStructure = (form: HeTuForm | null, definition: HeTuStructureDefinition = HETU_PRESET): StructureRow[] => {
+  const points = generateHeTuPoints(definition);
+  const layoutMap = form && form !== 'CUBE' ? getHeTuLayout(form).generate(points) : null;
+
+  return groupByNumber(points).map(([numberValue, group]) => {
+    const info = describeNumber(ViewMode.HETU, numberValue);
+    const placement = form === null ? []
+      : layoutMap ? unique(group.map(point => GALAXY_PART_LABELS[layoutMap[point.id].type]))
+      : unique(group.map(point => HETU_LAYER_LABELS[point.z < 0 ? 'heaven' : point.z > 0 ? 'earth' : 'center']));
+    return {
+      numberValue,
+      polarity: group[0].polarity,
+      dotCount: group.length,
+      direction: info.direction,
+      element: info.element,
+      placement
+    };
+  });
+};
+
+// Lo Shu palaces with their row and column of the 3×3 square (as turned by `symmetry`)
+export const describeLoShuStructure = (symmetry: LoShuSymmetry = LoShuSymmetry.IDENTITY, definition: LoShuStructureDefinition = LOSHU_PRESET): StructureRow[] =>
+  groupByNumber(generateLoShuPoints(symmetry, definition)).map(([numberValue, group]) => {
+    const info = describeNumber(ViewMode.LOSHU, numberValue, symmetry);
+    const lines = LOSHU_SUM_LINES
+      .map(line => orientSumLine(line, symmetry))
+      .filter(line => line.kind !== 'diagonal' && line.palaces.includes(numberValue));
+    return {
+      numberValue,
+      polarity: group[0].polarity,
+      dotCount: group.length,
+      direction: info.direction,
+      element: info.element,
+      trigram: info.trigram,
+      placement: lines.map(line => line.label)
+    };
+  });
+
+// --- REDUCED MOTION ---
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// The system setting, which the app's own toggle overrides for the visit
+export const useReducedMotion = (): [boolean, (reduced: boolean) => void] => {
+  const [system, setSystem] = useState(() => window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false);
+  const [override, setOverride] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const handleChange = (e: MediaQueryListEvent) => setSystem(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  return [override ?? system, setOverride];
+};
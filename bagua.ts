@@ -0,0 +1,58 @@
+import { BaguaArrangement } from './types';
+
+// ============================================================================
+// BAGUA (EIGHT TRIGRAMS)
+// ============================================================================
+// The eight trigrams as three lines each, and the two classical ways of setting
+// them around the compass. The ring in both scenes reads its glyphs and angles
+// from here; directions use the scenes' layout (south up, east on the left).
+
+export interface TrigramDefinition {
+  name: string;                        // 乾, 兑 … (translated as a scene term)
+  lines: [boolean, boolean, boolean];  // Bottom to top, true = yang (solid)
+}
+
+// Fu Xi binary order: 乾 ☰ … 坤 ☷
+export const TRIGRAM_DEFINITIONS: TrigramDefinition[] = [
+  { name: '乾', lines: [true, true, true] },
+  { name: '兑', lines: [true, true, false] },
+  { name: '离', lines: [true, false, true] },
+  { name: '震', lines: [true, false, false] },
+  { name: '巽', lines: [false, true, true] },
+  { name: '坎', lines: [false, true, false] },
+  { name: '艮', lines: [false, false, true] },
+  { name: '坤', lines: [false, false, false] }
+];
+
+export interface BaguaArrangementDefinition {
+  label: string;                       // Toolbar switch
+  directions: Record<string, string>;  // Trigram name → direction
+}
+
+export const BAGUA_ARRANGEMENTS: Record<BaguaArrangement, BaguaArrangementDefinition> = {
+  // Opposites face each other: heaven / earth, fire / water, thunder / wind, lake / mountain
+  [BaguaArrangement.FORMER_HEAVEN]: {
+    label: '先天',
+    directions: { '乾': '南', '坤': '北', '离': '东', '坎': '西', '兑': '东南', '震': '东北', '巽': '西南', '艮': '西北' }
+  },
+  // The Lo Shu palaces' trigrams (TRIGRAMS / DIRECTIONS in constants.ts)
+  [BaguaArrangement.LATER_HEAVEN]: {
+    label: '后天',
+    directions: { '离': '南', '坎': '北', '震': '东', '兑': '西', '巽': '东南', '坤': '西南', '艮': '东北', '乾': '西北' }
+  }
+};
+
+// Angle from +X in the scene plane: south is up (+Y), east is left (-X)
+export const DIRECTION_ANGLES: Record<string, number> = {
+  '西': 0,
+  '西南': Math.PI / 4,
+  '南': Math.PI / 2,
+  '东南': (3 * Math.PI) / 4,
+  '东': Math.PI,
+  '东北': (5 * Math.PI) / 4,
+  '北': (3 * Math.PI) / 2,
+  '西北': (7 * Math.PI) / 4
+};
+
+export const getTrigramAngle = (arrangement: BaguaArrangement, name: string): number =>
+  DIRECTION_ANGLES[BAGUA_ARRANGEMENTS[arrangement].directions[name]];
@@ -0,0 +1,116 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Billboard, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { easing } from 'maath';
+import { BaguaArrangement } from '../types';
+import { TRIGRAM_DEFINITIONS, TrigramDefinition, getTrigramAngle } from '../bagua';
+import { useLocale } from '../i18n';
+
+// -----------------------------------------------------------------------------
+// Bagua ring
+// -----------------------------------------------------------------------------
+// The eight trigrams as yao glyphs (solid / broken bars) on a circle in the XY
+// plane, bottom line innermost. Switching arrangement swings every trigram
+// along the ring to its new direction instead of redrawing it there.
+
+const BAR_LENGTH = 3.2;
+const BAR_HEIGHT = 0.45;
+const BAR_DEPTH = 0.3;
+const LINE_SPACING = 0.8;    // Between line centres, outwards
+const YIN_GAP = 0.7;         // Break in a yin line
+const LABEL_OFFSET = 2.2;    // Trigram name beyond the top line
+const SWITCH_SMOOTH_TIME = 0.6;
+const REDUCED_SWITCH_SMOOTH_TIME = 0.15;
+
+const YIN_BAR = (BAR_LENGTH - YIN_GAP) / 2;
+
+interface BaguaRingProps {
+  arrangement: BaguaArrangement;
+  radius: number;              // Centre of the middle line
+  visible: boolean;            // The ring shrinks away while false
+  reducedMotion?: boolean;     // Shorter swing between arrangements
+}
+
+// One trigram; the outer group turns around the ring, the inner one stands the glyph on it
+const TrigramGlyph = ({ definition, arrangement, radius, smoothTime, geometry, material }: {
+  definition: TrigramDefinition;
+  arrangement: BaguaArrangement;
+  radius: number;
+  smoothTime: number;
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+}) => {
+  const { term } = useLocale();
+  const groupRef = useRef<THREE.Group>(null);
+  const angle = useRef(getTrigramAngle(arrangement, definition.name));
+
+  useFrame((_, delta) => {
+    easing.dampAngle(angle, 'current', getTrigramAngle(arrangement, definition.name), smoothTime, delta);
+    if (groupRef.current) groupRef.current.rotation.z = angle.current;
+  });
+
+  return (
+    <group ref={groupRef} rotation={[0, 0, angle.current]}>
+      {/* Local +Y points outwards, bars run along the ring */}
+      <group position={[radius, 0, 0]} rotation={[0, 0, -Math.PI / 2]}>
+        {definition.lines.map((yang, i) => {
+          const y = (i - 1) * LINE_SPACING;
+          return yang ? (
+            <mesh key={i} geometry={geometry} material={material} position={[0, y, 0]} scale={[BAR_LENGTH, BAR_HEIGHT, BAR_DEPTH]} />
+          ) : (
+            <React.Fragment key={i}>
+              <mesh geometry={geometry} material={material} position={[-(YIN_GAP + YIN_BAR) / 2, y, 0]} scale={[YIN_BAR, BAR_HEIGHT, BAR_DEPTH]} />
+              <mesh geometry={geometry} material={material} position={[(YIN_GAP + YIN_BAR) / 2, y, 0]} scale={[YIN_BAR, BAR_HEIGHT, BAR_DEPTH]} />
+            </React.Fragment>
+          );
+        })}
+        <Billboard position={[0, LINE_SPACING + LABEL_OFFSET, 0]}>
+          <Text fontSize={1.2} color="#a5f3fc" anchorX="center" anchorY="middle" outlineWidth={0.04} outlineColor="#000000">
+            {term(definition.name)}
+          </Text>
+        </Billboard>
+      </group>
+    </group>
+  );
+};
+
+export const BaguaRing = ({ arrangement, radius, visible, reducedMotion = false }: BaguaRingProps) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const scale = useRef(0); // Grows in on mount
+
+  // Unit box scaled per bar; every bar shares it and one material
+  const geometry = useMemo(() => new THREE.BoxGeometry(1, 1, 1), []);
+  const material = useMemo(() => new THREE.MeshStandardMaterial({ color: '#e0f2fe', emissive: '#22d3ee', emissiveIntensity: 0.35, roughness: 0.4, metalness: 0.2 }), []);
+  useEffect(() => () => { geometry.dispose(); material.dispose(); }, [geometry, material]);
+
+  useFrame((_, delta) => {
+    if (!groupRef.current) return;
+    easing.damp(scale, 'current', visible ? 1 : 0, 0.3, delta);
+    groupRef.current.scale.setScalar(Math.max(scale.current, 1e-3));
+    groupRef.current.visible = scale.current > 0.01;
+  });
+
+  const smoothTime = reducedMotion ? REDUCED_SWITCH_SMOOTH_TIME : SWITCH_SMOOTH_TIME;
+
+  return (
+    <group ref={groupRef} visible={false}>
+      {/* Guide circle just inside the bottom lines */}
+      <mesh>
+        <ringGeometry args={[radius - LINE_SPACING * 2 - 0.04, radius - LINE_SPACING * 2 + 0.04, 128]} />
+        <meshBasicMaterial color="#22d3ee" transparent opacity={0.35} side={THREE.DoubleSide} />
+      </mesh>
+      {TRIGRAM_DEFINITIONS.map(definition => (
+        <TrigramGlyph
+          key={definition.name}
+          definition={definition}
+          arrangement={arrangement}
+          radius={radius}
+          smoothTime={smoothTime}
+          geometry={geometry}
+          material={material}
+        />
+      ))}
+    </group>
+  );
+};
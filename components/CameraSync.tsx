@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import { CameraNudge, CameraPose } from '../types';
+
+interface CameraSyncProps {
+  initialCamera?: CameraPose | null; // Applied once on mount (restored from a shared link)
+  onCameraChange?: (pose: CameraPose) => void;
+  cameraNudge?: CameraNudge | null; // Arrow-key orbit steps
+}
+
+const REPORT_DELAY = 300; // ms of stillness before a camera move is reported
+
+// Restores a saved camera pose, reports where the user leaves the camera and
+// orbits it on arrow keys. Needs the scene's OrbitControls to be the default
+// controls (`makeDefault`).
+export const CameraSync = ({ initialCamera, onCameraChange, cameraNudge = null }: CameraSyncProps) => {
+  const { camera, controls } = useThree();
+  const onChangeRef = useRef(onCameraChange);
+  onChangeRef.current = onCameraChange;
+  const lastNudge = useRef(cameraNudge?.id ?? 0); // A remounted scene skips the step it was created with
+
+  useEffect(() => {
+    if (!initialCamera) return;
+    camera.position.set(...initialCamera.position);
+    camera.zoom = initialCamera.zoom;
+    camera.lookAt(0, 0, 0);
+    camera.updateProjectionMatrix();
+    // Mount only: later pose changes belong to the user and the scene
+  }, []);
+
+  useEffect(() => {
+    if (!controls) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleChange = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        onChangeRef.current?.({
+          position: [camera.position.x, camera.position.y, camera.position.z],
+          zoom: camera.zoom
+        });
+      }, REPORT_DELAY);
+    };
+    // @ts-ignore
+    controls.addEventListener('change', handleChange);
+    return () => {
+      clearTimeout(timer);
+      // @ts-ignore
+      controls.removeEventListener('change', handleChange);
+    };
+  }, [controls, camera]);
+
+  useEffect(() => {
+    if (!controls || !cameraNudge || cameraNudge.id === lastNudge.current) return;
+    lastNudge.current = cameraNudge.id;
+    // Sets the controls' target angles; with damping on they ease there
+    // @ts-ignore
+    controls.setAzimuthalAngle(controls.getAzimuthalAngle() + cameraNudge.azimuth);
+    // @ts-ignore
+    controls.setPolarAngle(controls.getPolarAngle() + cameraNudge.polar);
+  }, [controls, cameraNudge]);
+
+  return null;
+};
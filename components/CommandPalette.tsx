@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Command, filterCommands, formatBinding } from '../shortcuts';
+import { useLocale } from '../i18n';
+
+const PANEL_CLASS = "bg-cyan-950/90 border border-cyan-500/30 rounded-sm backdrop-blur-md text-xs text-cyan-200 shadow-[0_0_30px_rgba(6,182,212,0.15)] animate-fadeIn";
+
+const KeyCaps = ({ binding }: { binding: string }) => (
+  <span className="flex gap-0.5">
+    {formatBinding(binding).map(cap => (
+      <kbd key={cap} className="min-w-[1.5em] px-1 py-0.5 text-center text-[10px] text-cyan-100 border border-cyan-500/40 rounded-sm bg-cyan-900/40 font-sans">{cap}</kbd>
+    ))}
+  </span>
+);
+
+// Groups in first-seen order, so the sections follow how App lists the commands
+const groupCommands = (commands: Command[]) => {
+  const groups = new Map<string, Command[]>();
+  commands.forEach(command => groups.set(command.group, [...(groups.get(command.group) ?? []), command]));
+  return [...groups.entries()];
+};
+
+const CommandState = ({ state }: { state: Command['state'] }) => {
+  const { t } = useLocale();
+  if (state === undefined) return null;
+  if (typeof state === 'string') return <span className="text-cyan-400">{t(state)}</span>;
+  return <span className={state ? 'text-cyan-300' : 'text-cyan-700'}>{t(state ? '开' : '关')}</span>;
+};
+
+interface CommandPaletteProps {
+  commands: Command[];
+  onClose: () => void;
+}
+
+// Ctrl/⌘ K: filter by label, group or key, ↑↓ to pick, Enter to run. The input
+// holds the focus, so the global shortcuts stay quiet while it is open.
+export const CommandPalette = ({ commands, onClose }: CommandPaletteProps) => {
+  const { t } = useLocale();
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const matches = useMemo(() => filterCommands(commands, query, t), [commands, query, t]);
+  const activeIndex = Math.min(active, Math.max(matches.length - 1, 0));
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runCommand = (command: Command | undefined) => {
+    if (!command || command.enabled === false) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((activeIndex + step + matches.length) % Math.max(matches.length, 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(matches[activeIndex]);
+    } else if (e.key === 'Escape' || (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-start justify-center pt-[15vh] bg-black/30 pointer-events-auto" onClick={onClose}>
+      <div className={`${PANEL_CLASS} w-[90vw] max-w-[420px]`} onClick={(e) => e.stopPropagation()}>
+        <input
+          autoFocus
+          type="text"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setActive(0); }}
+          onKeyDown={handleKeyDown}
+          placeholder={t('输入命令…')}
+          className="w-full bg-transparent px-4 py-3 text-sm text-cyan-50 tracking-widest outline-none border-b border-cyan-500/30 placeholder:text-cyan-700"
+        />
+        <ul ref={listRef} className="max-h-[50vh] overflow-y-auto py-1">
+          {matches.length === 0 && <li className="px-4 py-3 text-cyan-600 tracking-widest">{t('无匹配命令')}</li>}
+          {matches.map((command, i) => (
+            <li
+              key={command.id}
+              data-index={i}
+              onMouseMove={() => setActive(i)}
+              onClick={() => runCommand(command)}
+              className={`flex items-center gap-3 px-4 py-2 cursor-pointer
+                ${i === activeIndex ? 'bg-cyan-800/50 text-white' : ''}
+                ${command.enabled === false ? 'opacity-40 cursor-not-allowed' : ''}`}
+            >
+              <span className="w-14 shrink-0 text-[10px] text-cyan-500 tracking-widest">{t(command.group)}</span>
+              <span className="flex-1 tracking-widest">{t(command.label)}</span>
+              <CommandState state={command.state} />
+              {command.keys.map(binding => <KeyCaps key={binding} binding={binding} />)}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+interface ShortcutHelpProps {
+  commands: Command[];
+  onClose: () => void;
+}
+
+// `?` overlay: every bound command of the current view, by group
+export const ShortcutHelp = ({ commands, onClose }: ShortcutHelpProps) => {
+  const { t } = useLocale();
+  const groups = useMemo(() => groupCommands(commands.filter(command => command.keys.length > 0)), [commands]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 pointer-events-auto" onClick={onClose}>
+      <div className={`${PANEL_CLASS} w-[90vw] max-w-[640px] max-h-[80vh] overflow-y-auto p-5`} onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between mb-3">
+          <span className="text-sm tracking-[0.2em] text-cyan-100">{t('快捷键')}</span>
+          <button onClick={onClose} className="text-cyan-500 hover:text-white transition-colors" title={t('关闭')}>✕</button>
+        </div>
+        <div className="grid md:grid-cols-2 gap-x-6 gap-y-4">
+          {groups.map(([group, groupCommands]) => (
+            <section key={group}>
+              <h3 className="text-[10px] text-cyan-500 tracking-[0.2em] mb-1">{t(group)}</h3>
+              <dl className="grid grid-cols-[1fr_auto] gap-x-3 gap-y-1 tracking-widest">
+                {groupCommands.map(command => (
+                  <React.Fragment key={command.id}>
+                    <dt className={command.enabled === false ? 'text-cyan-700' : ''}>{t(command.label)}</dt>
+                    <dd className="flex gap-1 justify-end">
+                      {command.keys.map(binding => <KeyCaps key={binding} binding={binding} />)}
+                    </dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+        <p className="text-[10px] text-cyan-600 mt-4">{t('输入框获得焦点时快捷键暂停')}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { OrbitControls, Line } from '@react-three/drei';
+import { Polarity } from '../types';
+import { InstancedDots, createDotBuffers, dampScales, setDotColor, writeLinePositions, DOT_UPDATE_PRIORITY, DotStyle } from './InstancedDots';
+import { useLocale } from '../i18n';
+import * as THREE from 'three';
+
+// -----------------------------------------------------------------------------
+// Dot benchmark (open with ?bench or ?bench=<count>)
+// -----------------------------------------------------------------------------
+// A spinning field of instanced dots plus a long line rewritten every frame, the
+// same paths the He Tu and Lo Shu scenes use. The overlay reports frame times
+// over a rolling window; with nothing allocated per frame they should hold flat.
+
+export const DEFAULT_BENCH_DOTS = 10000;
+const MAX_BENCH_DOTS = 200000;
+const LINE_VERTICES = 2000;
+const WINDOW_FRAMES = 240;          // Rolling window for the frame time stats
+const STATS_INTERVAL = 500;         // ms between overlay refreshes
+
+const BENCH_DOT_STYLES: Record<Polarity, DotStyle> = {
+  [Polarity.YANG]: { color: "#ffffff", roughness: 0.2, metalness: 0.5 },
+  [Polarity.YIN]: { color: "#101010", roughness: 0.2, metalness: 0.5 }
+};
+const COLOR_YANG_GLOW = new THREE.Color("#ffffff");
+const COLOR_PULSE = new THREE.Color("#22d3ee");
+
+// ?bench → default count, ?bench=N → N dots (clamped); null when the param is absent
+export const parseBenchCount = (search: string): number | null => {
+  const raw = new URLSearchParams(search).get('bench');
+  if (raw === null) return null;
+  const count = Math.floor(Number(raw));
+  return Number.isFinite(count) && count > 0 ? Math.min(count, MAX_BENCH_DOTS) : DEFAULT_BENCH_DOTS;
+};
+
+interface FrameStats {
+  fps: number;
+  avg: number;
+  p95: number;
+  max: number;
+}
+
+const BenchField = ({ count, onStats }: { count: number, onStats: (stats: FrameStats) => void }) => {
+  const buffers = useMemo(() => createDotBuffers(count), [count]);
+  const polarities = useMemo(() => Array.from({ length: count }, (_, i) => i % 2 === 0 ? Polarity.YANG : Polarity.YIN), [count]);
+
+  // Fixed per-dot orbit: radius, phase, height and speed on a golden-angle spiral
+  const orbits = useMemo(() => {
+    const data = new Float32Array(count * 4);
+    const spread = Math.sqrt(count) * 0.35;
+    for (let i = 0; i < count; i++) {
+      data[i * 4] = spread * Math.sqrt((i + 0.5) / count);
+      data[i * 4 + 1] = i * 2.39996;
+      data[i * 4 + 2] = (((i * 7919) % 1000) / 1000 - 0.5) * spread * 0.2;
+      data[i * 4 + 3] = 0.2 + 0.4 / (1 + data[i * 4] * 0.1);
+    }
+    return data;
+  }, [count]);
+
+  const glow = useMemo(() => new THREE.Color(), []);
+
+  const lineRef = useRef<any>(null);
+  const linePositions = useMemo(() => new Float32Array(LINE_VERTICES * 3), []);
+  const initialLine = useMemo(() => new Array(LINE_VERTICES).fill([0, 0, 0]), []);
+
+  const frameTimes = useMemo(() => new Float32Array(WINDOW_FRAMES), []);
+  const sorted = useMemo(() => new Float32Array(WINDOW_FRAMES), []);
+  const frameRef = useRef({ last: 0, written: 0, lastReport: 0 });
+
+  useFrame((state, delta) => {
+    const time = state.clock.elapsedTime;
+    const { positions, emissive } = buffers;
+
+    for (let i = 0; i < count; i++) {
+      const r = orbits[i * 4];
+      const theta = orbits[i * 4 + 1] - orbits[i * 4 + 3] * time;
+      positions[i * 3] = r * Math.cos(theta);
+      positions[i * 3 + 1] = r * Math.sin(theta);
+      positions[i * 3 + 2] = orbits[i * 4 + 2] + Math.sin(theta * 3) * 0.5;
+
+      // A pulse runs outwards through the field
+      const pulse = Math.max(0, Math.sin(r * 0.4 - time * 2));
+      if (i % 2 === 0) setDotColor(emissive, i, glow.copy(COLOR_YANG_GLOW).lerp(COLOR_PULSE, pulse), 0.6);
+      else setDotColor(emissive, i, COLOR_PULSE, pulse);
+    }
+    dampScales(buffers.scales, i => 1 + Math.max(0, Math.sin(orbits[i * 4] * 0.4 - time * 2)) * 0.5, 0.15, delta);
+
+    // Line: a rotating rose curve through the field
+    const outer = Math.sqrt(count) * 0.35;
+    for (let k = 0; k < LINE_VERTICES; k++) {
+      const a = (k / (LINE_VERTICES - 1)) * Math.PI * 2;
+      const rr = outer * Math.cos(5 * a + time * 0.3);
+      linePositions[k * 3] = rr * Math.cos(a + time * 0.1);
+      linePositions[k * 3 + 1] = rr * Math.sin(a + time * 0.1);
+      linePositions[k * 3 + 2] = 0;
+    }
+    if (lineRef.current) writeLinePositions(lineRef.current, linePositions);
+  }, DOT_UPDATE_PRIORITY);
+
+  // Frame time between successive frames, sampled after everything else ran
+  useFrame(() => {
+    const now = performance.now();
+    const frame = frameRef.current;
+    if (frame.last > 0) {
+      frameTimes[frame.written % WINDOW_FRAMES] = now - frame.last;
+      frame.written++;
+    }
+    frame.last = now;
+
+    if (now - frame.lastReport < STATS_INTERVAL || frame.written < WINDOW_FRAMES) return;
+    frame.lastReport = now;
+    sorted.set(frameTimes);
+    sorted.sort();
+    let sum = 0;
+    for (let i = 0; i < WINDOW_FRAMES; i++) sum += sorted[i];
+    const avg = sum / WINDOW_FRAMES;
+    onStats({ fps: 1000 / avg, avg, p95: sorted[Math.floor(WINDOW_FRAMES * 0.95)], max: sorted[WINDOW_FRAMES - 1] });
+  });
+
+  return (
+    <group>
+      <InstancedDots polarities={polarities} buffers={buffers} radius={0.3} segments={12} styles={BENCH_DOT_STYLES} />
+      <Line ref={lineRef} points={initialLine} color="#22d3ee" lineWidth={1.5} transparent opacity={0.6} frustumCulled={false} />
+    </group>
+  );
+};
+
+export const DotBenchmark = ({ count }: { count: number }) => {
+  const { t } = useLocale();
+  const [stats, setStats] = useState<FrameStats | null>(null);
+
+  useEffect(() => {
+    document.title = `Dot benchmark · ${count}`;
+  }, [count]);
+
+  return (
+    <div className="w-full h-screen bg-black relative">
+      <Canvas camera={{ position: [0, -Math.sqrt(count) * 0.6, Math.sqrt(count) * 0.6], fov: 50 }} dpr={[1, 2]}>
+        <ambientLight intensity={0.4} />
+        <pointLight position={[0, 0, 40]} intensity={2} distance={0} decay={0} />
+        <BenchField count={count} onStats={setStats} />
+        <OrbitControls makeDefault />
+      </Canvas>
+
+      <div className="absolute top-4 left-4 px-3 py-2 bg-cyan-950/70 border border-cyan-500/30 rounded-sm text-xs text-cyan-100 tracking-widest tabular-nums pointer-events-none">
+        <p>{t('{count} 点 · {vertices} 线顶点', { count: count.toLocaleString(), vertices: LINE_VERTICES })}</p>
+        {stats ? (
+          <>
+            <p>{t('{fps} fps · 平均 {avg} ms', { fps: stats.fps.toFixed(0), avg: stats.avg.toFixed(2) })}</p>
+            <p>{t('p95 {p95} ms · 最大 {max} ms', { p95: stats.p95.toFixed(2), max: stats.max.toFixed(2) })}</p>
+          </>
+        ) : (
+          <p className="text-cyan-400">{t('采样中…')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useMemo, useRef, useEffect } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls, Line, Text, Billboard } from '@react-three/drei';
+import { generateHeLuoTransform, HELUO_SWAP_NUMBERS } from '../constants';
+import { Polarity, HeLuoStage, HeLuoPointPair, CameraPose, CameraNudge } from '../types';
+import { CameraSync } from './CameraSync';
+import { SceneCapture, SceneCaptureApi } from './SceneCapture';
+import { InstancedDots, createDotBuffers, setDotColor, DOT_UPDATE_PRIORITY, DotStyle } from './InstancedDots';
+import * as THREE from 'three';
+
+interface HeLuoSceneProps {
+  stage: HeLuoStage; // Form the dots travel towards
+  initialCamera?: CameraPose | null;
+  onCameraChange?: (pose: CameraPose) => void;
+  cameraNudge?: CameraNudge | null; // Arrow-key orbit steps
+  reducedMotion?: boolean;          // Shorter transformation
+  frameloop?: 'always' | 'never'; // 'never' while a recording steps the scene
+  onCaptureReady?: (api: SceneCaptureApi | null) => void;
+}
+
+const TRANSFORM_DURATION = 3.5; // Seconds for a full He Tu -> Lo Shu pass
+const REDUCED_TRANSFORM_DURATION = 1;
+const SWAP_LIFT = 8;            // How far the exchanged groups arc towards the viewer
+const COLOR_SWAP = "#f59e0b";   // Fire ⇄ Metal highlight
+
+// Camera poses at either end (He Tu matches HeTuScene's default view)
+const HETU_CAMERA = { position: new THREE.Vector3(25, -25, 30), zoom: 15 };
+const LOSHU_CAMERA = { position: new THREE.Vector3(0, 0, 60), zoom: 10 };
+
+// -----------------------------------------------------------------------------
+// Timing
+// -----------------------------------------------------------------------------
+// One shared progress value (0 = He Tu, 1 = Lo Shu) drives everything. The
+// staying groups move in the first 70%, the exchanged groups start later so the
+// swap reads as its own beat, and the 10 dissolves into the centre early.
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+const easeInOut = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+const getPairProgress = (pair: HeLuoPointPair, p: number) => {
+  if (pair.vanishes) return easeInOut(clamp01(p / 0.5));
+  if (pair.swapped) return easeInOut(clamp01((p - 0.3) / 0.7));
+  return easeInOut(clamp01(p / 0.7));
+};
+
+// Position of a pair at local progress u (exchanged groups bow out towards +Z)
+const getPairPosition = (pair: HeLuoPointPair, u: number, target: THREE.Vector3) => {
+  const [ax, ay, az] = pair.heTuPos;
+  const [bx, by, bz] = pair.loShuPos;
+  const lift = pair.swapped ? Math.sin(Math.PI * u) * SWAP_LIFT : 0;
+  return target.set(ax + (bx - ax) * u, ay + (by - ay) * u, az + (bz - az) * u + lift);
+};
+
+const getGroupCenter = (pairs: HeLuoPointPair[], key: 'heTuPos' | 'loShuPos') => {
+  const c = new THREE.Vector3();
+  pairs.forEach(pair => c.add(new THREE.Vector3(...pair[key])));
+  return c.divideScalar(pairs.length);
+};
+
+// -----------------------------------------------------------------------------
+// Components
+// -----------------------------------------------------------------------------
+
+const HELUO_DOT_STYLES: Record<Polarity, DotStyle> = {
+  [Polarity.YANG]: { color: "#ffffff", roughness: 0.2, metalness: 0.5 },
+  [Polarity.YIN]: { color: "#101010", roughness: 0.2, metalness: 0.5 }
+};
+
+const TransformPoints = ({ pairs, progress }: { pairs: HeLuoPointPair[], progress: React.MutableRefObject<number> }) => {
+  const buffers = useMemo(() => createDotBuffers(pairs.length), [pairs]);
+  const polarities = useMemo(() => pairs.map(pair => pair.polarity), [pairs]);
+  const swapColor = useMemo(() => new THREE.Color(COLOR_SWAP), []);
+  const glowColor = useMemo(() => new THREE.Color(), []);
+  const tmp = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame(() => {
+    const p = progress.current;
+    pairs.forEach((pair, i) => {
+      const u = getPairProgress(pair, p);
+      getPairPosition(pair, u, tmp).toArray(buffers.positions, i * 3);
+
+      if (pair.vanishes) buffers.scales[i] = 1 - u;
+
+      // Exchanged dots glow while they are in flight
+      const glow = pair.swapped ? Math.sin(Math.PI * u) : 0;
+      glowColor.set(pair.polarity === Polarity.YANG ? "#ffffff" : "#000000").lerp(swapColor, glow);
+      setDotColor(buffers.emissive, i, glowColor, 0.6 + glow * 0.8);
+    });
+  }, DOT_UPDATE_PRIORITY);
+
+  return <InstancedDots polarities={polarities} buffers={buffers} radius={0.45} styles={HELUO_DOT_STYLES} />;
+};
+
+// Dashed arc from each exchanged group's He Tu centroid to its Lo Shu palace
+const SwapTrails = ({ pairs, progress }: { pairs: HeLuoPointPair[], progress: React.MutableRefObject<number> }) => {
+  const trails = useMemo(() => HELUO_SWAP_NUMBERS.map(num => {
+    const group = pairs.filter(pair => pair.numberValue === num);
+    const from = getGroupCenter(group, 'heTuPos');
+    const to = getGroupCenter(group, 'loShuPos');
+    const mid = from.clone().lerp(to, 0.5);
+    mid.z += SWAP_LIFT * 1.3; // Quadratic control point; the curve peaks near SWAP_LIFT
+    const points = new THREE.QuadraticBezierCurve3(from, mid, to).getPoints(40);
+    return { num, points };
+  }), [pairs]);
+
+  const lineRefs = useRef<any[]>([]);
+
+  useFrame((_, delta) => {
+    // Brighter while the exchange is under way
+    const glow = Math.sin(Math.PI * clamp01((progress.current - 0.3) / 0.7));
+    lineRefs.current.forEach(line => {
+      if (!line) return;
+      line.material.opacity = 0.25 + glow * 0.6;
+      line.material.dashOffset -= delta * 2;
+    });
+  });
+
+  return (
+    <group>
+      {trails.map((trail, i) => (
+        <Line
+          key={trail.num}
+          ref={el => { lineRefs.current[i] = el; }}
+          points={trail.points}
+          color={COLOR_SWAP}
+          lineWidth={1.5}
+          dashed
+          dashSize={0.8}
+          gapSize={0.5}
+          transparent
+          opacity={0.25}
+        />
+      ))}
+    </group>
+  );
+};
+
+// Number labels follow their group and fade in as the Lo Shu settles
+const NumberLabels = ({ pairs, progress }: { pairs: HeLuoPointPair[], progress: React.MutableRefObject<number> }) => {
+  const groups = useMemo(() => [1, 2, 3, 4, 5, 6, 7, 8, 9].map(num => ({
+    num,
+    members: pairs.filter(pair => pair.numberValue === num)
+  })), [pairs]);
+
+  const groupRefs = useRef<Record<number, THREE.Group>>({});
+  const textRefs = useRef<Record<number, any>>({});
+  const tmp = useMemo(() => new THREE.Vector3(), []);
+  const center = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame(() => {
+    const p = progress.current;
+    const opacity = clamp01((p - 0.75) / 0.25);
+    groups.forEach(({ num, members }) => {
+      const group = groupRefs.current[num];
+      if (!group) return;
+      center.set(0, 0, 0);
+      members.forEach(pair => center.add(getPairPosition(pair, getPairProgress(pair, p), tmp)));
+      center.divideScalar(members.length);
+      group.position.set(center.x, center.y - 4.5, center.z + 1);
+      group.visible = opacity > 0.01;
+      const text = textRefs.current[num];
+      if (text) text.fillOpacity = opacity;
+    });
+  });
+
+  return (
+    <group>
+      {groups.map(({ num }) => (
+        <group key={num} ref={el => { if (el) groupRefs.current[num] = el; }}>
+          <Billboard>
+            <Text
+              ref={el => { textRefs.current[num] = el; }}
+              fontSize={2}
+              color={HELUO_SWAP_NUMBERS.includes(num) ? COLOR_SWAP : "#a5f3fc"}
+              anchorX="center"
+              anchorY="middle"
+              fillOpacity={0}
+            >
+              {num}
+            </Text>
+          </Billboard>
+        </group>
+      ))}
+    </group>
+  );
+};
+
+// Glides the camera from wherever the user left it to the destination view while
+// the dots are moving
+const TransformCameraRig = ({ progress, stage }: { progress: React.MutableRefObject<number>, stage: HeLuoStage }) => {
+  const { camera, controls } = useThree();
+  const start = useRef<{ position: THREE.Vector3, zoom: number, progress: number } | null>(null);
+  const mounted = useRef(false);
+
+  useEffect(() => {
+    // The Canvas already opens on the stage's pose (or a restored one)
+    if (!mounted.current) {
+      mounted.current = true;
+      return;
+    }
+    start.current = { position: camera.position.clone(), zoom: camera.zoom, progress: progress.current };
+  }, [stage, camera, progress]);
+
+  useFrame(() => {
+    const from = start.current;
+    if (!from) return;
+    const target = stage === HeLuoStage.LOSHU ? 1 : 0;
+    const span = Math.abs(target - from.progress);
+    const t = span < 1e-4 ? 1 : easeInOut(clamp01(Math.abs(progress.current - from.progress) / span));
+    const to = stage === HeLuoStage.LOSHU ? LOSHU_CAMERA : HETU_CAMERA;
+
+    camera.position.lerpVectors(from.position, to.position, t);
+    camera.zoom = from.zoom + (to.zoom - from.zoom) * t;
+    camera.lookAt(0, 0, 0);
+    camera.updateProjectionMatrix();
+    if (controls) {
+      // @ts-ignore
+      controls.target.set(0, 0, 0);
+      // @ts-ignore
+      controls.update();
+    }
+    if (t >= 1) start.current = null; // Hand the camera back to OrbitControls
+  });
+
+  return null;
+};
+
+const SceneContent = ({ stage, reducedMotion }: { stage: HeLuoStage, reducedMotion: boolean }) => {
+  const pairs = useMemo(() => generateHeLuoTransform(), []);
+  const progress = useRef(stage === HeLuoStage.LOSHU ? 1 : 0);
+
+  useFrame((_, delta) => {
+    // Linear in time; each element applies its own easing on top
+    const target = stage === HeLuoStage.LOSHU ? 1 : 0;
+    const step = delta / (reducedMotion ? REDUCED_TRANSFORM_DURATION : TRANSFORM_DURATION);
+    progress.current = target > progress.current
+      ? Math.min(target, progress.current + step)
+      : Math.max(target, progress.current - step);
+  });
+
+  return (
+    <>
+      <TransformPoints pairs={pairs} progress={progress} />
+      <SwapTrails pairs={pairs} progress={progress} />
+      <NumberLabels pairs={pairs} progress={progress} />
+      <TransformCameraRig progress={progress} stage={stage} />
+      <OrbitControls makeDefault enableDamping dampingFactor={0.05} rotateSpeed={0.5} enablePan={false} minZoom={5} maxZoom={50} />
+    </>
+  );
+};
+
+// -----------------------------------------------------------------------------
+// Scene Composition
+// -----------------------------------------------------------------------------
+
+export const HeLuoScene: React.FC<HeLuoSceneProps> = ({ stage, initialCamera, onCameraChange, cameraNudge = null, reducedMotion = false, frameloop = 'always', onCaptureReady }) => {
+  const stagePose = stage === HeLuoStage.LOSHU ? LOSHU_CAMERA : HETU_CAMERA;
+
+  return (
+    <Canvas
+      shadows
+      dpr={[1, 2]}
+      orthographic
+      camera={{ position: stagePose.position.toArray(), zoom: stagePose.zoom }}
+      gl={{ antialias: true, toneMapping: THREE.ACESFilmicToneMapping }}
+      frameloop={frameloop}
+    >
+      <fog attach="fog" args={['#172554', 40, 150]} />
+      <ambientLight intensity={0.5} color="#ffffff" />
+      <directionalLight position={[20, 30, 40]} intensity={2.2} color="#ffffff" />
+      <pointLight position={[0, -30, 0]} intensity={1.0} color="#3b82f6" />
+
+      <SceneContent stage={stage} reducedMotion={reducedMotion} />
+      <CameraSync initialCamera={initialCamera} onCameraChange={onCameraChange} cameraNudge={cameraNudge} />
+      <SceneCapture onReady={onCaptureReady} />
+    </Canvas>
+  );
+};
@@ -1,54 +1,71 @@
 import React, { useMemo, useRef, useEffect, useState } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, Line } from '@react-three/drei';
-import { generateHeTuPoints, generateGalaxyMap, generateHelixMap, sortHeTuPoints, CUBE_SIZE } from '../constants';
-import { Polarity, AnimationState, GalaxyPointType, HeTuPoint, GalaxyPointConfig } from '../types';
+import { OrbitControls, Line, Text, Billboard } from '@react-three/drei';
+import { generateHeTuPoints, sortHeTuPoints, getHeTuGroupCenters, CUBE_SIZE, HETU_GROUP_ELEMENTS, HETU_GROUP_NAMES, ELEMENT_NAMES, ELEMENT_COLORS, ELEMENT_CYCLES } from '../constants';
+import { Polarity, AnimationState, HeTuPoint, GalaxyPointConfig, ElementCycle, BaguaArrangement, FiveElement, CameraPose, CameraNudge, HeTuKeyframe, HeTuForm, HeTuLayoutId, HexagramPick, HeTuStructureDefinition } from '../types';
+import { HETU_LAYOUTS, getHeTuLayout, getHeTuLinkPosition, HeTuLayoutDefinition } from '../heTuLayouts';
+import { getSequenceDuration, sampleHeTuSequence } from '../heTuTimeline';
+import { CameraSync } from './CameraSync';
+import { SceneCapture, SceneCaptureApi } from './SceneCapture';
+import { BaguaRing } from './BaguaRing';
+import { HexagramLattice } from './HexagramView';
+import { InstancedDots, createDotBuffers, dampScales, setDotColor, writeLinePositions, DOT_UPDATE_PRIORITY, DotStyle } from './InstancedDots';
+import { HETU_PRESET } from '../structureDefinitions';
+import { useLocale } from '../i18n';
 import * as THREE from 'three';
 import { easing } from 'maath';
 
 interface HeTuSceneProps {
   alignTrigger: number;
   animState: AnimationState;
+  layout: HeTuLayoutId;                           // Shape the dots unfold into (HETU_LAYOUTS)
   autoRotate: boolean;
+  selectedNumber: number | null;                  // Highlighted number group (inspector)
+  onSelectNumber: (numberValue: number | null) => void;
+  elementCycle: ElementCycle | null;              // Five Elements overlay (null = off)
+  baguaArrangement?: BaguaArrangement | null;     // Trigram ring around the cube (null = off)
+  hexagram?: HexagramPick | null;                 // Hexagram explorer: six-line value as a cube lattice point
+  initialCamera?: CameraPose | null;              // Restored from a shared link
+  onCameraChange?: (pose: CameraPose) => void;
+  cameraNudge?: CameraNudge | null;               // Arrow-key orbit steps
+  frameloop?: 'always' | 'never';                 // 'never' while a recording steps the scene
+  onCaptureReady?: (api: SceneCaptureApi | null) => void;
+  timeline?: HeTuTimelineControl | null;          // Keyframe sequence in charge of the morph (null = animState)
+  onMorphComplete?: (form: HeTuForm) => void;     // The dots have settled into a form (drives MORPHING → RUNNING etc.)
+  reducedMotion?: boolean;                        // Shorter morphs
+  structure?: HeTuStructureDefinition;            // Dots of the cube (a dropped JSON file, or the built-in preset)
 }
 
-const SPIN_SIGN = -1; 
-const GLOBAL_SPEED = 1.0; 
+// The timeline panel and the scene share the playhead through a ref: the scene
+// advances it while playing, the panel moves it when scrubbing.
+export interface HeTuTimelineControl {
+  keyframes: HeTuKeyframe[];
+  playing: boolean;
+  loop: boolean;
+  playheadRef: React.MutableRefObject<number>; // Seconds into the sequence
+}
 
-// -----------------------------------------------------------------------------
-// Shared Logic
-// -----------------------------------------------------------------------------
+const GLOBAL_SPEED = 1.0; 
+const MORPH_SETTLE_EPSILON = 0.01; // Morph counts as finished within 1% of its target
+const LAYOUT_SNAP_EPSILON = 0.001; // Layout blends this close to the end drop the old layout
+const MORPH_SMOOTH_TIME = 0.8;     // Damping of the fold / unfold and of layout changes
+const REDUCED_MORPH_SMOOTH_TIME = 0.2;
+const BAGUA_RADIUS = CUBE_SIZE * 0.9; // Clear of the cube's corners (half diagonal ≈ 0.71)
+
+// Point configs of every layout, keyed by layout id then point id
+type LayoutMaps = Record<HeTuLayoutId, Record<string, GalaxyPointConfig>>;
+
+// Which layout the unfolded dots sit on: `from`, `to`, or a mix while travelling between them
+interface LayoutBlend {
+  from: HeTuLayoutId;
+  to: HeTuLayoutId;
+  blend: number; // 0 = from, 1 = to
+}
 
-// Calculate target position based on Config Type
-const getTargetPosition = (
-  gConfig: GalaxyPointConfig,
-  time: number
-): THREE.Vector3 => {
-  // Common rotation logic
-  const thetaNow = gConfig.thetaStart + (SPIN_SIGN * gConfig.speedFactor * time);
-  
-  if (gConfig.yOffset !== undefined) {
-    // Helix Mode (Y-axis aligned)
-    // x = r * cos, z = r * sin, y = fixed Y offset
-    const x = gConfig.r * Math.cos(thetaNow);
-    const z = gConfig.r * Math.sin(thetaNow);
-    const y = gConfig.yOffset;
-    return new THREE.Vector3(x, y, z);
-  } else {
-    // Galaxy Mode (Z-axis wobble, Flat-ish)
-    if (gConfig.type === GalaxyPointType.CORE || gConfig.type === GalaxyPointType.RING) {
-      // Static-ish ring/core
-      const tx = gConfig.r * Math.cos(gConfig.thetaStart); // Core/Ring doesn't spin in Galaxy mode
-      const ty = gConfig.r * Math.sin(gConfig.thetaStart);
-      return new THREE.Vector3(tx, ty, 0);
-    } else {
-      // Arms spin
-      const x = gConfig.r * Math.cos(thetaNow);
-      const y = gConfig.r * Math.sin(thetaNow);
-      const z = Math.sin(thetaNow * gConfig.zFreq) * gConfig.zAmp;
-      return new THREE.Vector3(x, y, z);
-    }
-  }
+const blendLayouts = (state: LayoutBlend, getTarget: (layout: HeTuLayoutDefinition) => THREE.Vector3): THREE.Vector3 => {
+  if (state.blend >= 1 || state.from === state.to) return getTarget(getHeTuLayout(state.to));
+  if (state.blend <= 0) return getTarget(getHeTuLayout(state.from));
+  return getTarget(getHeTuLayout(state.from)).lerp(getTarget(getHeTuLayout(state.to)), state.blend);
 };
 
 // -----------------------------------------------------------------------------
@@ -57,23 +74,20 @@ const getTargetPosition = (
 
 const PointLine = ({ 
   points, 
-  galaxyMap,
-  helixMap,
+  layoutMaps,
   sequence, 
   color, 
   timeRef, 
   morphRef, 
-  modeRef
+  layoutRef
 }: { 
   points: HeTuPoint[], 
-  galaxyMap: Record<string, GalaxyPointConfig>,
-  helixMap: Record<string, GalaxyPointConfig>,
+  layoutMaps: LayoutMaps,
   sequence: number[],
   color: string,
   timeRef: React.MutableRefObject<number>,
   morphRef: React.MutableRefObject<number>,
-  helixMorphRef?: React.MutableRefObject<number>, // Optional/Unused
-  modeRef: React.MutableRefObject<'GALAXY' | 'HELIX' | 'NONE'>
+  layoutRef: React.MutableRefObject<LayoutBlend>
 }) => {
   const lineRef = useRef<any>(null);
 
@@ -100,13 +114,15 @@ const PointLine = ({
     return map;
   }, [sortedPoints]);
 
+  // Rewritten in place every frame
+  const positions = useMemo(() => new Float32Array(totalVertices * 3), [totalVertices]);
+  const initialPoints = useMemo(() => new Array(totalVertices).fill([0, 0, 0]), [totalVertices]);
+
   useFrame(() => {
     if (lineRef.current && lineRef.current.geometry) {
       const time = timeRef.current;
       const morph = morphRef.current; // 0 -> 1 (Cube -> Target)
-      const isHelix = modeRef.current === 'HELIX';
-
-      const flatPositions: number[] = [];
+      const layoutBlend = layoutRef.current;
 
       for (let i = 0; i < vertexMap.length; i++) {
         const { pA, pB, t } = vertexMap[i];
@@ -116,49 +132,19 @@ const PointLine = ({
         const cy = pA.y + (pB.y - pA.y) * t;
         const cz = pA.z + (pB.z - pA.z) * t;
 
-        // Target Pos
-        let tx, ty, tz;
-        if (isHelix) {
-          // POLAR INTERPOLATION FOR HELIX
-          const confA = helixMap[pA.id];
-          const confB = helixMap[pB.id];
-
-          // Interpolate parameters
-          const r = confA.r + (confB.r - confA.r) * t;
-          const yA = confA.yOffset ?? 0;
-          const yB = confB.yOffset ?? 0;
-          const y = yA + (yB - yA) * t;
-
-          const thetaA = confA.thetaStart;
-          const thetaB = confB.thetaStart;
-          const theta = thetaA + (thetaB - thetaA) * t;
-
-          // Apply rotation (assuming consistent speed)
-          const thetaNow = theta + (SPIN_SIGN * confA.speedFactor * time);
-          
-          tx = r * Math.cos(thetaNow);
-          ty = y;
-          tz = r * Math.sin(thetaNow);
-        } else {
-          // GALAXY / DEFAULT (Cartesian Lerp)
-          const confA = galaxyMap[pA.id];
-          const confB = galaxyMap[pB.id];
-          const vA = getTargetPosition(confA, time);
-          const vB = getTargetPosition(confB, time);
-          tx = vA.x + (vB.x - vA.x) * t;
-          ty = vA.y + (vB.y - vA.y) * t;
-          tz = vA.z + (vB.z - vA.z) * t;
-        }
+        // Target Pos (each layout draws its links its own way)
+        const v = blendLayouts(layoutBlend, layout =>
+          getHeTuLinkPosition(layout, layoutMaps[layout.id][pA.id], layoutMaps[layout.id][pB.id], t, time)
+        );
+        const tx = v.x; const ty = v.y; const tz = v.z;
 
         // Mix
-        flatPositions.push(
-          cx + (tx - cx) * morph,
-          cy + (ty - cy) * morph,
-          cz + (tz - cz) * morph
-        );
+        positions[i * 3] = cx + (tx - cx) * morph;
+        positions[i * 3 + 1] = cy + (ty - cy) * morph;
+        positions[i * 3 + 2] = cz + (tz - cz) * morph;
       }
 
-      lineRef.current.geometry.setPositions(flatPositions);
+      writeLinePositions(lineRef.current, positions);
       
       if (lineRef.current.material) {
         lineRef.current.material.opacity = morph * 0.8;
@@ -170,8 +156,9 @@ const PointLine = ({
   return (
     <Line 
       ref={lineRef}
-      points={new Array(totalVertices).fill([0,0,0])} 
+      points={initialPoints} 
       color={color} 
+      frustumCulled={false} // Vertices move every frame; the mount-time bounds go stale
       lineWidth={2} 
       transparent 
       opacity={0} 
@@ -179,126 +166,309 @@ const PointLine = ({
   );
 };
 
-const AnimatedPoints = ({ animState }: { animState: AnimationState }) => {
-  const points = useMemo(() => generateHeTuPoints(), []);
-  const galaxyMap = useMemo(() => generateGalaxyMap(points), [points]);
-  const helixMap = useMemo(() => generateHelixMap(points), [points]);
+const HETU_DOT_STYLES: Record<Polarity, DotStyle> = {
+  [Polarity.YANG]: { color: '#ffffff', roughness: 0.2, metalness: 0.5 },
+  [Polarity.YIN]: { color: '#101010', roughness: 0.2, metalness: 0.5 }
+};
+const COLOR_YANG_GLOW = new THREE.Color('#ffffff');
+const COLOR_YIN_GLOW = new THREE.Color('#000000');
+const COLOR_SELECTED_GLOW = new THREE.Color('#22d3ee');
+
+const DOT_TOOLTIP_CLASS = "px-2 py-1 text-[10px] tracking-widest whitespace-nowrap text-cyan-50 bg-cyan-950/80 border border-cyan-500/40 rounded-sm pointer-events-none select-none";
+
+const AnimatedPoints = ({ 
+  animState, 
+  layout,
+  selectedNumber, 
+  onSelectNumber,
+  showElements,
+  timeline,
+  onMorphComplete,
+  reducedMotion,
+  structure
+}: { 
+  animState: AnimationState, 
+  layout: HeTuLayoutId,
+  selectedNumber: number | null, 
+  onSelectNumber: (numberValue: number | null) => void,
+  showElements: boolean,
+  timeline: HeTuTimelineControl | null,
+  onMorphComplete?: (form: HeTuForm) => void,
+  reducedMotion: boolean,
+  structure: HeTuStructureDefinition
+}) => {
+  const { term } = useLocale();
+  const points = useMemo(() => generateHeTuPoints(structure), [structure]);
+  const layoutMaps = useMemo<LayoutMaps>(
+    () => Object.fromEntries(HETU_LAYOUTS.map(def => [def.id, def.generate(points)])),
+    [points]
+  );
   
-  const meshRefs = useRef<Record<string, THREE.Mesh>>({});
+  // Dot positions, scales and colours, rewritten every frame
+  const buffers = useMemo(() => createDotBuffers(points.length), [points]);
+  const polarities = useMemo(() => points.map(pt => pt.polarity), [points]);
+  const haloColors = useMemo(() => {
+    const colors = new Float32Array(points.length * 3);
+    points.forEach((pt, i) => setDotColor(colors, i, new THREE.Color(ELEMENT_COLORS[HETU_GROUP_ELEMENTS[pt.group]])));
+    return colors;
+  }, [points]);
 
   const timeRef = useRef(0);
   const morphRef = useRef(0); // General Morph: 0 (Cube) -> 1 (Any Target)
   
-  // Track which mode we are targeting for interpolation
-  const modeRef = useRef<'GALAXY' | 'HELIX' | 'NONE'>('NONE');
+  // Which layout we are targeting
+  const layoutRef = useRef<LayoutBlend>({ from: layout, to: layout, blend: 1 });
+
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  // Last settled form reported; cleared on every state change so the new state hears it too
+  const reportedFormRef = useRef<HeTuForm | null>(null);
+  useEffect(() => { reportedFormRef.current = null; }, [animState, layout]);
 
   useFrame((state, delta) => {
-    // 1. Determine Target Mode & Morph Level
-    let targetMorph = 0;
-    
-    if (animState === AnimationState.STATIC) {
-      targetMorph = 0;
-    } else if (animState === AnimationState.RETURNING) {
-      targetMorph = 0;
-    } else if (
-      animState === AnimationState.HELIX_MORPHING || 
-      animState === AnimationState.HELIX_RUNNING || 
-      animState === AnimationState.HELIX_PAUSED
-    ) {
-      modeRef.current = 'HELIX';
-      targetMorph = 1;
+    // 1. Determine Target Layout & Morph Level
+    const targetMorph = animState === AnimationState.STATIC || animState === AnimationState.RETURNING ? 0 : 1;
+    const smoothTime = reducedMotion ? REDUCED_MORPH_SMOOTH_TIME : MORPH_SMOOTH_TIME;
+
+    if (timeline) {
+      // The sequence owns the pose; animState is ignored until the timeline closes
+      const duration = getSequenceDuration(timeline.keyframes);
+      if (timeline.playing) {
+        const next = timeline.playheadRef.current + delta;
+        timeline.playheadRef.current = timeline.loop && duration > 0 ? next % duration : Math.min(next, duration);
+      }
+      const pose = sampleHeTuSequence(timeline.keyframes, timeline.playheadRef.current);
+      morphRef.current = pose.morph;
+      layoutRef.current = { from: pose.from, to: pose.to, blend: pose.blend };
+      timeRef.current = pose.time * GLOBAL_SPEED;
     } else {
-      // RUNNING, MORPHING, PAUSED (Galaxy)
-      modeRef.current = 'GALAXY';
-      targetMorph = 1;
-    }
+      // A new layout travels from the old one (the cube keeps the layout it folds from)
+      const current = layoutRef.current;
+      if (current.to !== layout) {
+        if (morphRef.current < MORPH_SETTLE_EPSILON) {
+          layoutRef.current = { from: layout, to: layout, blend: 1 }; // Folded: nothing to travel
+        } else if (current.from === layout) {
+          layoutRef.current = { from: current.to, to: layout, blend: 1 - current.blend }; // Turning back mid-way
+        } else {
+          // A third layout mid-way sets off from whichever of the two is nearer
+          layoutRef.current = { from: current.blend < 0.5 ? current.from : current.to, to: layout, blend: 0 };
+        }
+      }
+      const blend = layoutRef.current;
+      if (blend.blend < 1) {
+        easing.damp(blend, 'blend', 1, smoothTime, delta);
+        if (blend.blend > 1 - LAYOUT_SNAP_EPSILON) layoutRef.current = { from: layout, to: layout, blend: 1 };
+      }
+      easing.damp(morphRef, 'current', targetMorph, smoothTime, delta);
 
-    easing.damp(morphRef, 'current', targetMorph, 0.8, delta);
+      // 2. Advance Time (only if Running)
+      if (animState === AnimationState.RUNNING) {
+        timeRef.current += delta * GLOBAL_SPEED;
+      }
 
-    // 2. Advance Time (only if Running)
-    const isRunning = animState === AnimationState.RUNNING || animState === AnimationState.HELIX_RUNNING;
-    if (isRunning) {
-      timeRef.current += delta * GLOBAL_SPEED;
+      const m = morphRef.current;
+      const settled: HeTuForm | null = m < MORPH_SETTLE_EPSILON ? 'CUBE'
+        : m > 1 - MORPH_SETTLE_EPSILON && layoutRef.current.blend > 1 - MORPH_SETTLE_EPSILON ? layoutRef.current.to
+        : null;
+      if (settled !== reportedFormRef.current) {
+        reportedFormRef.current = settled;
+        if (settled) onMorphComplete?.(settled);
+      }
     }
 
     // 3. Update Points
-    points.forEach((pt) => {
-      const mesh = meshRefs.current[pt.id];
-      if (!mesh) return;
-
+    const { positions, emissive } = buffers;
+    points.forEach((pt, i) => {
       // Calculate Cube Position
       const cx = pt.x;
       const cy = pt.y;
       const cz = pt.z;
 
       // Calculate Target Position based on Mode
-      let tx, ty, tz;
-      if (modeRef.current === 'HELIX') {
-        const v = getTargetPosition(helixMap[pt.id], timeRef.current);
-        tx = v.x; ty = v.y; tz = v.z;
-      } else {
-        const v = getTargetPosition(galaxyMap[pt.id], timeRef.current);
-        tx = v.x; ty = v.y; tz = v.z;
-      }
+      const v = blendLayouts(layoutRef.current, def => def.getPosition(layoutMaps[def.id][pt.id], timeRef.current));
+      const tx = v.x; const ty = v.y; const tz = v.z;
 
       // Lerp
-      mesh.position.set(
-        cx + (tx - cx) * morphRef.current,
-        cy + (ty - cy) * morphRef.current,
-        cz + (tz - cz) * morphRef.current
-      );
+      positions[i * 3] = cx + (tx - cx) * morphRef.current;
+      positions[i * 3 + 1] = cy + (ty - cy) * morphRef.current;
+      positions[i * 3 + 2] = cz + (tz - cz) * morphRef.current;
+
+      // Selected group glows cyan
+      if (pt.numberValue === selectedNumber) setDotColor(emissive, i, COLOR_SELECTED_GLOW, 1.2);
+      else setDotColor(emissive, i, pt.polarity === Polarity.YANG ? COLOR_YANG_GLOW : COLOR_YIN_GLOW, 0.6);
     });
-  });
+
+    // Selected group swells slightly
+    dampScales(buffers.scales, i => points[i].numberValue === selectedNumber ? 1.5 : 1, 0.15, delta);
+  }, DOT_UPDATE_PRIORITY);
 
   // Colors
   const COLOR_YANG = "#ffffff";
   const COLOR_YIN = "#101010"; 
 
+  // Hover tooltip for picked dots
+  const hovered = hoveredIndex !== null ? points[hoveredIndex] : null;
+
   return (
     <group>
-      {points.map((point) => (
-        <mesh 
-          key={point.id} 
-          ref={(el) => { if (el) meshRefs.current[point.id] = el; }}
-        >
-          <sphereGeometry args={[0.4, 32, 32]} />
-          <meshStandardMaterial
-            color={point.polarity === Polarity.YANG ? COLOR_YANG : COLOR_YIN}
-            emissive={point.polarity === Polarity.YANG ? COLOR_YANG : "#000000"}
-            emissiveIntensity={0.6}
-            roughness={0.2}
-            metalness={0.5}
-          />
-        </mesh>
-      ))}
+      <InstancedDots
+        polarities={polarities}
+        buffers={buffers}
+        radius={0.4}
+        styles={HETU_DOT_STYLES}
+        halo={showElements ? { radius: 0.7, colors: haloColors, opacity: 0.35 } : null}
+        hoveredIndex={hoveredIndex}
+        tooltipOffset={1.2}
+        tooltip={hovered && (
+          <div className={DOT_TOOLTIP_CLASS}>
+            {hovered.numberValue} · {term(hovered.polarity === Polarity.YANG ? '阳' : '阴')} · {term(HETU_GROUP_NAMES[hovered.group])} · {term(ELEMENT_NAMES[HETU_GROUP_ELEMENTS[hovered.group]])}
+          </div>
+        )}
+        onPointerOver={(i) => { setHoveredIndex(i); document.body.style.cursor = 'pointer'; }}
+        onPointerOut={(i) => { setHoveredIndex(prev => prev === i ? null : prev); document.body.style.cursor = 'auto'; }}
+        onClick={(i, e) => {
+          e.stopPropagation();
+          if (e.delta > 4) return; // Ignore orbit drags
+          const value = points[i].numberValue;
+          onSelectNumber(value === selectedNumber ? null : value);
+        }}
+      />
 
       {/* Yang Tail: 1 (Bottom) -> 9 (Top) */}
       <PointLine 
         points={points} 
-        galaxyMap={galaxyMap} 
-        helixMap={helixMap}
+        layoutMaps={layoutMaps}
         sequence={[1, 3, 7, 9]} 
         color={COLOR_YANG}
         timeRef={timeRef} 
         morphRef={morphRef}
-        modeRef={modeRef}
+        layoutRef={layoutRef}
       />
       
       {/* Yin Tail: 2 (Bottom) -> 8 (Top) */}
       <PointLine 
         points={points} 
-        galaxyMap={galaxyMap} 
-        helixMap={helixMap}
+        layoutMaps={layoutMaps}
         sequence={[2, 4, 6, 8]} 
         color={COLOR_YIN} 
         timeRef={timeRef} 
         morphRef={morphRef}
-        modeRef={modeRef}
+        layoutRef={layoutRef}
       />
     </group>
   );
 };
 
+// -----------------------------------------------------------------------------
+// Five Elements (五行) Cycle Overlay
+// -----------------------------------------------------------------------------
+// Directed arcs between the cube-form group centroids. The dots themselves get
+// element halos in AnimatedPoints.
+
+const ARC_BULGE = 5;
+const ARC_SEGMENTS = 48;
+
+const ElementArc = ({ from, to, fromColor, toColor }: { from: THREE.Vector3, to: THREE.Vector3, fromColor: string, toColor: string }) => {
+  const lineRef = useRef<any>(null);
+
+  const { points, colors, arrowPos, arrowQuat } = useMemo(() => {
+    const mid = from.clone().add(to).multiplyScalar(0.5);
+    // Bend away from the centre; opposite groups (mid ≈ centre) bend sideways instead
+    const out = new THREE.Vector3(mid.x, mid.y, 0);
+    if (out.lengthSq() < 1) {
+      const d = to.clone().sub(from);
+      out.set(-d.y, d.x, 0);
+    }
+    const control = mid.clone().add(out.normalize().multiplyScalar(ARC_BULGE));
+    const curve = new THREE.QuadraticBezierCurve3(from, control, to);
+
+    // Stop short of both groups so the arrow doesn't sink into the dots
+    const cFrom = new THREE.Color(fromColor);
+    const cTo = new THREE.Color(toColor);
+    const pts: THREE.Vector3[] = [];
+    const cols: [number, number, number][] = [];
+    for (let i = 0; i <= ARC_SEGMENTS; i++) {
+      const k = i / ARC_SEGMENTS;
+      pts.push(curve.getPoint(0.12 + 0.72 * k));
+      const c = cFrom.clone().lerp(cTo, k);
+      cols.push([c.r, c.g, c.b]);
+    }
+
+    const tangent = curve.getTangent(0.86);
+    return {
+      points: pts,
+      colors: cols,
+      arrowPos: curve.getPoint(0.86),
+      arrowQuat: new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), tangent)
+    };
+  }, [from, to, fromColor, toColor]);
+
+  useFrame((_, delta) => {
+    // Dashes flow from the acting element to the one it acts on
+    if (lineRef.current && lineRef.current.material) {
+      lineRef.current.material.dashOffset -= delta * 1.5;
+    }
+  });
+
+  return (
+    <group>
+      <Line ref={lineRef} points={points} vertexColors={colors} lineWidth={3} dashed dashSize={1} gapSize={0.6} transparent opacity={0.9} />
+      <mesh position={arrowPos} quaternion={arrowQuat}>
+        <coneGeometry args={[0.6, 1.6, 16]} />
+        <meshBasicMaterial color={toColor} />
+      </mesh>
+    </group>
+  );
+};
+
+const FiveElementOverlay = ({ cycle, animState, structure }: { cycle: ElementCycle | null, animState: AnimationState, structure: HeTuStructureDefinition }) => {
+  const { term } = useLocale();
+  const groupCenters = useMemo(() => getHeTuGroupCenters(generateHeTuPoints(structure)), [structure]);
+
+  const elementCenters = useMemo(() => {
+    const map = {} as Record<FiveElement, THREE.Vector3>;
+    (Object.keys(HETU_GROUP_ELEMENTS) as HeTuPoint['group'][]).forEach(g => {
+      map[HETU_GROUP_ELEMENTS[g]] = groupCenters[g];
+    });
+    return map;
+  }, [groupCenters]);
+
+  // Arcs only make sense while the dots sit in their cube groups
+  if (!cycle || animState !== AnimationState.STATIC) return null;
+
+  const order = ELEMENT_CYCLES[cycle];
+
+  return (
+    <group>
+      {order.map((element, i) => {
+        const next = order[(i + 1) % order.length];
+        return (
+          <ElementArc 
+            key={`${cycle}-${element}`} 
+            from={elementCenters[element]} 
+            to={elementCenters[next]} 
+            fromColor={ELEMENT_COLORS[element]} 
+            toColor={ELEMENT_COLORS[next]} 
+          />
+        );
+      })}
+
+      {order.map(element => {
+        const c = elementCenters[element];
+        // Push labels outward; the centre (Earth) label sits to the side of the 5 cross
+        const labelPos = c.lengthSq() < 1 ? new THREE.Vector3(4.5, 0, 0) : c.clone().add(new THREE.Vector3(c.x, c.y, 0).normalize().multiplyScalar(3));
+        return (
+          <Billboard key={element} position={labelPos}>
+            <Text fontSize={1.6} color={ELEMENT_COLORS[element]} anchorX="center" anchorY="middle" outlineWidth={0.05} outlineColor="#000000">
+              {term(ELEMENT_NAMES[element])}
+            </Text>
+          </Billboard>
+        );
+      })}
+    </group>
+  );
+};
+
 const CubeBoundary = ({ animState }: { animState: AnimationState }) => {
   const meshRef = useRef<THREE.Mesh>(null);
 
@@ -352,6 +522,7 @@ const CameraRig = ({ alignTrigger, animState }: { alignTrigger: number, animStat
   return (
     <OrbitControls
       ref={controlsRef}
+      makeDefault
       enableDamping
       dampingFactor={0.05}
       rotateSpeed={0.5}
@@ -393,7 +564,7 @@ const SceneRotator = ({ children, autoRotate, alignTrigger }: SceneRotatorProps)
 // Scene Composition
 // -----------------------------------------------------------------------------
 
-export const HeTuScene: React.FC<HeTuSceneProps> = ({ alignTrigger, animState, autoRotate }) => {
+export const HeTuScene: React.FC<HeTuSceneProps> = ({ alignTrigger, animState, layout, autoRotate, selectedNumber, onSelectNumber, elementCycle, baguaArrangement = null, hexagram = null, initialCamera, onCameraChange, cameraNudge = null, frameloop = 'always', onCaptureReady, timeline = null, onMorphComplete, reducedMotion = false, structure = HETU_PRESET }) => {
   return (
     <Canvas
       shadows
@@ -401,6 +572,7 @@ export const HeTuScene: React.FC<HeTuSceneProps> = ({ alignTrigger, animState, a
       orthographic
       camera={{ position: [25, -25, 30], zoom: 15 }} 
       gl={{ antialias: true, toneMapping: THREE.ACESFilmicToneMapping }}
+      frameloop={frameloop}
     >
       {/* Fog matched to lighter Midnight Blue edge (#172554) */}
       <fog attach="fog" args={['#172554', 40, 150]} />
@@ -411,10 +583,17 @@ export const HeTuScene: React.FC<HeTuSceneProps> = ({ alignTrigger, animState, a
 
       <SceneRotator autoRotate={autoRotate} alignTrigger={alignTrigger}>
         <CubeBoundary animState={animState} />
-        <AnimatedPoints animState={animState} />
+        <AnimatedPoints animState={animState} layout={layout} selectedNumber={selectedNumber} onSelectNumber={onSelectNumber} showElements={elementCycle !== null} timeline={timeline} onMorphComplete={onMorphComplete} reducedMotion={reducedMotion} structure={structure} />
+        <FiveElementOverlay cycle={elementCycle} animState={animState} structure={structure} />
+        {baguaArrangement && (
+          <BaguaRing arrangement={baguaArrangement} radius={BAGUA_RADIUS} visible={animState === AnimationState.STATIC} reducedMotion={reducedMotion} />
+        )}
+        {hexagram && <HexagramLattice pick={hexagram} visible={animState === AnimationState.STATIC} />}
       </SceneRotator>
       
       <CameraRig alignTrigger={alignTrigger} animState={animState} />
+      <CameraSync initialCamera={initialCamera} onCameraChange={onCameraChange} cameraNudge={cameraNudge} />
+      <SceneCapture onReady={onCaptureReady} />
     </Canvas>
   );
 };
\ No newline at end of file
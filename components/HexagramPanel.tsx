@@ -0,0 +1,114 @@
+import React from 'react';
+import { HexagramPick, HexagramSlot } from '../types';
+import { TRIGRAMS } from '../constants';
+import { LINE_NAMES, LOSHU_PALACE_GRID, applyChangingLines, getHexagramLatticeCoords, getPickedHexagram, isTrigramPalace, lineBit, HexagramDefinition } from '../hexagrams';
+import { useLocale } from '../i18n';
+
+interface HexagramPanelProps {
+  pick: HexagramPick;
+  slot: HexagramSlot;
+  onSlotChange: (slot: HexagramSlot) => void;
+  onPickPalace: (palace: number) => void;  // Sets the trigram of `slot`
+  onToggleLine: (index: number) => void;
+}
+
+const SLOT_LABELS: Record<HexagramSlot, string> = { upper: '上卦', lower: '下卦' };
+
+const formatBinary = (binary: number) => binary.toString(2).padStart(6, '0');
+
+const HexagramSummary = ({ hexagram, label }: { hexagram: HexagramDefinition, label: string }) => {
+  const { t, term } = useLocale();
+  return (
+    <div className="flex items-baseline justify-between gap-2">
+      <span className="text-[10px] text-cyan-500 tracking-widest">{t(label)}</span>
+      <span className="flex-1 text-cyan-50 tracking-widest">{t('第 {n} 卦', { n: hexagram.number })} {term(hexagram.name)}</span>
+      <span className="font-mono text-[10px] text-cyan-400" title={t('二进制 (自下而上)')}>{formatBinary(hexagram.binary)} = {hexagram.binary}</span>
+    </div>
+  );
+};
+
+// Hexagram explorer: pick the upper and lower trigram on a Lo Shu grid (the 3D
+// palaces pick the same way), mark changing lines, read the resulting hexagram.
+export const HexagramPanel = ({ pick, slot, onSlotChange, onPickPalace, onToggleLine }: HexagramPanelProps) => {
+  const { t, term } = useLocale();
+  const hexagram = getPickedHexagram(pick);
+  const result = applyChangingLines(hexagram, pick.changingLines);
+  const [x, y, z] = getHexagramLatticeCoords(hexagram.binary);
+  const slotPalace = (s: HexagramSlot) => s === 'upper' ? pick.upperPalace : pick.lowerPalace;
+
+  return (
+    <div className="bg-cyan-950/60 border border-cyan-500/30 rounded-sm backdrop-blur-md p-3 text-xs text-cyan-200 w-[240px] md:w-[300px] animate-fadeIn">
+      <span className="tracking-[0.2em] text-cyan-100">{t('六十四卦')}</span>
+
+      {/* Which trigram the next palace sets */}
+      <div className="grid grid-cols-2 gap-1 mt-2" role="group" aria-label={t('选择上卦或下卦')}>
+        {(['upper', 'lower'] as HexagramSlot[]).map(s => (
+          <button
+            key={s}
+            onClick={() => onSlotChange(s)}
+            aria-pressed={slot === s}
+            className={`px-2 py-1 border rounded-sm transition-colors tracking-widest
+              ${slot === s ? 'bg-cyan-800/60 border-cyan-400/50 text-white' : 'border-cyan-500/30 hover:bg-cyan-900/40'}`}
+          >
+            {t(SLOT_LABELS[s])} · {term(TRIGRAMS[slotPalace(s)])}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-[2px] mt-2">
+        {LOSHU_PALACE_GRID.flat().map(palace => {
+          const isUpper = palace === pick.upperPalace;
+          const isLower = palace === pick.lowerPalace;
+          return (
+            <button
+              key={palace}
+              onClick={() => onPickPalace(palace)}
+              disabled={!isTrigramPalace(palace)}
+              aria-label={isTrigramPalace(palace) ? `${palace} ${term(TRIGRAMS[palace])}` : String(palace)}
+              className={`py-1.5 flex flex-col items-center rounded-sm border transition-colors disabled:opacity-30 disabled:cursor-not-allowed
+                ${isUpper || isLower ? 'bg-cyan-800/50 border-cyan-400/60 text-white' : 'border-cyan-500/20 hover:bg-cyan-800/40'}`}
+            >
+              <span>{palace}{isTrigramPalace(palace) && ` ${term(TRIGRAMS[palace])}`}</span>
+              <span className="text-[9px] text-cyan-400 h-3">
+                {[isUpper && t('上'), isLower && t('下')].filter(Boolean).join(' · ')}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Lines top to bottom, as a hexagram is drawn */}
+      <div className="flex flex-col gap-1 mt-3">
+        {[5, 4, 3, 2, 1, 0].map(i => {
+          const changing = (pick.changingLines & lineBit(i)) !== 0;
+          const yang = hexagram.lines[i];
+          return (
+            <button
+              key={i}
+              onClick={() => onToggleLine(i)}
+              aria-pressed={changing}
+              aria-label={`${t(LINE_NAMES[i])} · ${t(yang ? '阳' : '阴')}`}
+              className="flex items-center gap-2 group"
+              title={t('设为变爻')}
+            >
+              <span className="w-10 text-left text-[10px] text-cyan-500 tracking-widest">{t(LINE_NAMES[i])}</span>
+              <span className="flex-1 flex gap-3 h-2">
+                {(yang ? [0] : [0, 1]).map(part => (
+                  <span key={part} className={`flex-1 rounded-[1px] transition-colors ${changing ? 'bg-amber-500' : 'bg-cyan-100/80 group-hover:bg-white'}`}></span>
+                ))}
+              </span>
+              <span className={`w-3 text-[10px] ${changing ? 'text-amber-400' : 'text-transparent'}`}>{yang ? '○' : '×'}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col gap-1 mt-3">
+        <HexagramSummary hexagram={hexagram} label="本卦" />
+        {pick.changingLines !== 0 && <HexagramSummary hexagram={result} label="之卦" />}
+      </div>
+      <p className="text-[10px] text-cyan-600 mt-2">{t('立方坐标 ({x}, {y}, {z})：人爻 x · 地爻 y · 天爻 z', { x, y, z })}</p>
+      <p className="text-[10px] text-cyan-600 mt-1">{t('点击宫位选卦，点击爻设为变爻')}</p>
+    </div>
+  );
+};
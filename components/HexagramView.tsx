@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Billboard, Line, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { easing } from 'maath';
+import { HexagramPick } from '../types';
+import { CUBE_SIZE } from '../constants';
+import { HexagramDefinition, HexagramLines, applyChangingLines, getHexagramLatticeCoords, getPickedHexagram, lineBit } from '../hexagrams';
+import { useLocale } from '../i18n';
+
+// -----------------------------------------------------------------------------
+// Hexagram stacks (Lo Shu) & cube lattice point (He Tu)
+// -----------------------------------------------------------------------------
+
+const BAR_LENGTH = 8;
+const BAR_HEIGHT = 1;
+const BAR_DEPTH = 0.8;
+const LINE_SPACING = 1.8;
+const YIN_GAP = 1.6;
+const STACK_GAP = 13;        // Between the picked and the resulting stack
+const FLIP_SMOOTH_TIME = 0.25;
+const REDUCED_FLIP_SMOOTH_TIME = 0.05;
+
+const COLOR_LINE = '#e0f2fe';
+const COLOR_CHANGING = '#f59e0b';
+
+// One yao as two halves that meet (yang) or part (yin), so a flip opens or closes the gap
+const YaoLine = ({ yang, initialYang, changing, y, smoothTime, geometry, onClick }: {
+  yang: boolean;
+  initialYang?: boolean;  // Drawn first, then flipped to `yang`
+  changing: boolean;
+  y: number;
+  smoothTime: number;
+  geometry: THREE.BufferGeometry;
+  onClick?: () => void;
+}) => {
+  const leftRef = useRef<THREE.Mesh>(null);
+  const rightRef = useRef<THREE.Mesh>(null);
+  const split = useRef((initialYang ?? yang) ? 0 : 1);
+
+  useFrame((_, delta) => {
+    easing.damp(split, 'current', yang ? 0 : 1, smoothTime, delta);
+    const half = BAR_LENGTH / 2 - (split.current * YIN_GAP) / 2;
+    [leftRef.current, rightRef.current].forEach((mesh, side) => {
+      if (!mesh) return;
+      mesh.scale.x = half;
+      mesh.position.x = (side === 0 ? -1 : 1) * (BAR_LENGTH - half) / 2;
+    });
+  });
+
+  const handleClick = onClick && ((e: any) => {
+    e.stopPropagation();
+    if (e.delta > 4) return; // Ignore orbit drags
+    onClick();
+  });
+  const hovered = useRef(false);
+  const setCursor = (cursor: string) => onClick && (() => {
+    hovered.current = cursor === 'pointer';
+    document.body.style.cursor = cursor;
+  });
+  // Hiding the stack drops the handlers (and unmounting sends no pointer-out) while hovering
+  const clickable = !!onClick;
+  useEffect(() => () => {
+    if (!clickable || !hovered.current) return;
+    hovered.current = false;
+    document.body.style.cursor = 'auto';
+  }, [clickable]);
+
+  return (
+    <group position={[0, y, 0]}>
+      {[leftRef, rightRef].map((ref, side) => (
+        <mesh
+          key={side}
+          ref={ref}
+          geometry={geometry}
+          scale={[BAR_LENGTH / 2, BAR_HEIGHT, BAR_DEPTH]}
+          onClick={handleClick}
+          onPointerOver={setCursor('pointer')}
+          onPointerOut={setCursor('auto')}
+        >
+          <meshStandardMaterial
+            color={changing ? COLOR_CHANGING : COLOR_LINE}
+            emissive={changing ? COLOR_CHANGING : '#22d3ee'}
+            emissiveIntensity={changing ? 0.6 : 0.3}
+            roughness={0.4}
+            metalness={0.2}
+          />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+const HexagramBars = ({ hexagram, initialLines, changingLines, caption, smoothTime, geometry, onToggleLine }: {
+  hexagram: HexagramDefinition;
+  initialLines?: HexagramLines;
+  changingLines: number;
+  caption: string;
+  smoothTime: number;
+  geometry: THREE.BufferGeometry;
+  onToggleLine?: (index: number) => void;
+}) => {
+  const { t, term } = useLocale();
+  const top = 2.5 * LINE_SPACING;
+
+  return (
+    <group>
+      <Text position={[0, top + 2.2, 0]} fontSize={1.1} color="#67e8f9" anchorX="center" anchorY="middle">
+        {t(caption)}
+      </Text>
+      {hexagram.lines.map((yang, i) => (
+        <YaoLine
+          key={i}
+          yang={yang}
+          initialYang={initialLines?.[i]}
+          changing={(changingLines & lineBit(i)) !== 0}
+          y={(i - 2.5) * LINE_SPACING}
+          smoothTime={smoothTime}
+          geometry={geometry}
+          onClick={onToggleLine && (() => onToggleLine(i))}
+        />
+      ))}
+      <Text position={[0, -top - 2.4, 0]} fontSize={1.5} color="#e2e8f0" anchorX="center" anchorY="middle" outlineWidth={0.04} outlineColor="#000000">
+        {`${hexagram.number} ${term(hexagram.name)}`}
+      </Text>
+    </group>
+  );
+};
+
+interface HexagramStackProps {
+  pick: HexagramPick;
+  position: [number, number, number];
+  visible: boolean;
+  reducedMotion?: boolean;
+  onToggleLine?: (index: number) => void; // Click a line of the picked hexagram to mark it changing
+}
+
+// The picked hexagram as six bars, and beside it the one its changing lines turn it into
+export const HexagramStack = ({ pick, position, visible, reducedMotion = false, onToggleLine }: HexagramStackProps) => {
+  const hexagram = getPickedHexagram(pick);
+  const result = applyChangingLines(hexagram, pick.changingLines);
+  const smoothTime = reducedMotion ? REDUCED_FLIP_SMOOTH_TIME : FLIP_SMOOTH_TIME;
+
+  const geometry = useMemo(() => new THREE.BoxGeometry(1, 1, 1), []);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <group position={position} visible={visible}>
+      <group position={[pick.changingLines ? -STACK_GAP / 2 : 0, 0, 0]}>
+        <HexagramBars
+          hexagram={hexagram}
+          changingLines={pick.changingLines}
+          caption="本卦"
+          smoothTime={smoothTime}
+          geometry={geometry}
+          onToggleLine={visible ? onToggleLine : undefined}
+        />
+      </group>
+      {pick.changingLines !== 0 && (
+        <>
+          <Text fontSize={2} color={COLOR_CHANGING} anchorX="center" anchorY="middle">→</Text>
+          <group position={[STACK_GAP / 2, 0, 0]}>
+            {/* Starts from the picked lines, so the changing ones visibly flip */}
+            <HexagramBars
+              hexagram={result}
+              initialLines={hexagram.lines}
+              changingLines={pick.changingLines}
+              caption="之卦"
+              smoothTime={smoothTime}
+              geometry={geometry}
+            />
+          </group>
+        </>
+      )}
+    </group>
+  );
+};
+
+// --- HE TU CUBE LATTICE ---
+
+const LATTICE_STEP = CUBE_SIZE / 5; // 4×4×4 points inside the dot faces
+
+// Lattice coordinates to scene space: more yang runs towards +X, south (+Y) and the heaven face (-Z)
+const getLatticePosition = (binary: number): [number, number, number] => {
+  const [x, y, z] = getHexagramLatticeCoords(binary);
+  return [(x - 1.5) * LATTICE_STEP, (y - 1.5) * LATTICE_STEP, -(z - 1.5) * LATTICE_STEP];
+};
+
+const LatticeMarker = ({ hexagram, color }: { hexagram: HexagramDefinition; color: string }) => {
+  const { term } = useLocale();
+  return (
+    <group position={getLatticePosition(hexagram.binary)}>
+      <mesh>
+        <sphereGeometry args={[0.6, 24, 24]} />
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.8} />
+      </mesh>
+      <Billboard position={[0, 1.6, 0]}>
+        <Text fontSize={1} color={color} anchorX="center" anchorY="middle" outlineWidth={0.04} outlineColor="#000000">
+          {`${hexagram.number} ${term(hexagram.name)} · ${hexagram.binary.toString(2).padStart(6, '0')}`}
+        </Text>
+      </Billboard>
+    </group>
+  );
+};
+
+interface HexagramLatticeProps {
+  pick: HexagramPick;
+  visible: boolean;
+}
+
+// All 64 six-line values as a faint lattice in the cube, the picked one (and
+// its resulting hexagram) lit up
+export const HexagramLattice = ({ pick, visible }: HexagramLatticeProps) => {
+  const hexagram = getPickedHexagram(pick);
+  const result = applyChangingLines(hexagram, pick.changingLines);
+
+  const positions = useMemo(() => new Float32Array(Array.from({ length: 64 }, (_, binary) => getLatticePosition(binary)).flat()), []);
+
+  return (
+    <group visible={visible}>
+      <points>
+        <bufferGeometry>
+          <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+        </bufferGeometry>
+        <pointsMaterial color="#22d3ee" size={0.35} transparent opacity={0.45} depthWrite={false} />
+      </points>
+      <LatticeMarker hexagram={hexagram} color="#67e8f9" />
+      {result !== hexagram && (
+        <>
+          <LatticeMarker hexagram={result} color={COLOR_CHANGING} />
+          <Line points={[getLatticePosition(hexagram.binary), getLatticePosition(result.binary)]} color={COLOR_CHANGING} lineWidth={2} dashed dashSize={0.6} gapSize={0.4} transparent opacity={0.8} />
+        </>
+      )}
+    </group>
+  );
+};
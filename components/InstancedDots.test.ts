@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { Line2 } from 'three/examples/jsm/lines/Line2.js';
+import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry.js';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial.js';
+import { writeLinePositions } from './InstancedDots';
+
+// In-place line updates: the vertices drei's <Line> draws and picks with.
+
+// A line as drei mounts it: every vertex (and so its bounds) at the origin until the first frame
+const mountLine = (vertexCount: number) => {
+  const geometry = new LineGeometry();
+  geometry.setPositions(new Float32Array(vertexCount * 3));
+  const line = new Line2(geometry, new LineMaterial({ linewidth: 0.5, worldUnits: true }));
+  line.computeLineDistances();
+  return line;
+};
+
+const castAt = (line: Line2, x: number, y: number) => {
+  const camera = new THREE.PerspectiveCamera(50, 1, 0.1, 100);
+  camera.position.set(x, y, 10);
+  camera.lookAt(x, y, 0);
+  camera.updateMatrixWorld();
+  const raycaster = new THREE.Raycaster(camera.position.clone(), new THREE.Vector3(0, 0, -1));
+  raycaster.camera = camera;
+  return raycaster.intersectObject(line);
+};
+
+describe('writeLinePositions', () => {
+  it('writes the segments into the buffer from mount', () => {
+    const line = mountLine(3);
+    const segments = () => (line.geometry.getAttribute('instanceStart') as THREE.InterleavedBufferAttribute).data.array;
+    const buffer = segments();
+    writeLinePositions(line, new Float32Array([0, 0, 0, 4, 0, 0, 4, 4, 0]));
+    expect(segments()).toBe(buffer);
+    expect(Array.from(buffer)).toEqual([0, 0, 0, 4, 0, 0, 4, 0, 0, 4, 4, 0]);
+  });
+
+  it('keeps the moved line pickable', () => {
+    const line = mountLine(2);
+    writeLinePositions(line, new Float32Array([-5, 3, 0, 5, 3, 0]));
+    expect(castAt(line, 0, 3)).toHaveLength(1);
+    expect(castAt(line, 0, -3)).toHaveLength(0);
+  });
+
+  it('falls back to setPositions when the vertex count changes', () => {
+    const line = mountLine(2);
+    writeLinePositions(line, new Float32Array([-5, 3, 0, 0, 3, 0, 5, 3, 0]));
+    expect(line.geometry.getAttribute('instanceStart').count).toBe(2);
+    expect(castAt(line, 2, 3)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { Polarity } from '../types';
+
+// -----------------------------------------------------------------------------
+// Instanced dots & in-place line buffers
+// -----------------------------------------------------------------------------
+// One InstancedMesh per polarity instead of a mesh (and material) per dot. The
+// owner keeps flat typed arrays of positions, scales, colours and glow, rewrites
+// them in its own useFrame and the meshes copy them into their instance buffers.
+// Owners register that useFrame with DOT_UPDATE_PRIORITY so it runs first.
+
+export const DOT_UPDATE_PRIORITY = -1; // Negative: runs before the default 0 without taking over rendering
+
+export interface DotStyle {
+  color: string; // Multiplied by the per-instance colour
+  roughness?: number;
+  metalness?: number;
+}
+
+// Flat per-dot buffers: xyz positions, uniform scales, rgb instance colours and
+// rgb emissive (already scaled by its intensity; it replaces the material's)
+export interface DotBuffers {
+  positions: Float32Array;
+  scales: Float32Array;
+  colors: Float32Array;
+  emissive: Float32Array;
+}
+
+export const createDotBuffers = (count: number): DotBuffers => ({
+  positions: new Float32Array(count * 3),
+  scales: new Float32Array(count).fill(1),
+  colors: new Float32Array(count * 3).fill(1),
+  emissive: new Float32Array(count * 3)
+});
+
+// Flat, unlit shell around every dot (e.g. Five Elements colours)
+export interface DotHalo {
+  radius: number;
+  colors: Float32Array; // rgb per dot
+  opacity: number;
+}
+
+interface InstancedDotsProps {
+  polarities: Polarity[];            // One per dot, in buffer order
+  buffers: DotBuffers;
+  radius: number;
+  styles: Record<Polarity, DotStyle>;
+  segments?: number;
+  visible?: boolean;
+  halo?: DotHalo | null;
+  hoveredIndex?: number | null;      // Dot the tooltip follows
+  tooltip?: React.ReactNode;
+  tooltipOffset?: number;            // Height of the tooltip above the dot centre
+  // Picking (by dot index); without handlers the dots ignore the pointer
+  onPointerOver?: (index: number) => void;
+  onPointerOut?: (index: number) => void;
+  onClick?: (index: number, e: ThreeEvent<MouseEvent>) => void;
+}
+
+const POLARITIES = [Polarity.YANG, Polarity.YIN];
+
+// Standard material whose emissive comes from the instanceEmissive attribute
+const patchInstanceEmissive = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', '#include <common>\nattribute vec3 instanceEmissive;\nvarying vec3 vInstanceEmissive;')
+    .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceEmissive = instanceEmissive;');
+  shader.fragmentShader = shader.fragmentShader
+    .replace('#include <common>', '#include <common>\nvarying vec3 vInstanceEmissive;')
+    .replace('#include <emissivemap_fragment>', '#include <emissivemap_fragment>\ntotalEmissiveRadiance = vInstanceEmissive;');
+};
+const INSTANCE_EMISSIVE_CACHE_KEY = () => 'instance-emissive';
+
+const DotInstances = ({ indices, buffers, radius, segments, style, visible, onPointerOver, onPointerOut, onClick }: {
+  indices: number[];
+  buffers: DotBuffers;
+  radius: number;
+  segments: number;
+  style: DotStyle;
+  visible: boolean;
+  onPointerOver?: (index: number) => void;
+  onPointerOut?: (index: number) => void;
+  onClick?: (index: number, e: ThreeEvent<MouseEvent>) => void;
+}) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const instanceColors = useMemo(() => new Float32Array(indices.length * 3).fill(1), [indices]);
+
+  // Instance attributes live on the geometry, so every polarity gets its own
+  const geometry = useMemo(() => {
+    const sphere = new THREE.SphereGeometry(radius, segments, segments);
+    sphere.setAttribute('instanceEmissive', new THREE.InstancedBufferAttribute(new Float32Array(indices.length * 3), 3));
+    return sphere;
+  }, [radius, segments, indices]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame(() => {
+    if (!meshRef.current) return;
+    copyInstances(meshRef.current, indices, buffers, buffers.colors);
+    const emissive = geometry.getAttribute('instanceEmissive') as THREE.InstancedBufferAttribute;
+    copyRgb(emissive.array as Float32Array, indices, buffers.emissive);
+    emissive.needsUpdate = true;
+  });
+
+  const picking = onPointerOver || onPointerOut || onClick;
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[geometry, undefined, indices.length]}
+      visible={visible}
+      frustumCulled={false}
+      onPointerOver={picking && ((e) => { e.stopPropagation(); if (e.instanceId !== undefined) onPointerOver?.(indices[e.instanceId]); })}
+      onPointerOut={picking && ((e) => { if (e.instanceId !== undefined) onPointerOut?.(indices[e.instanceId]); })}
+      onClick={picking && ((e) => { e.stopPropagation(); if (e.instanceId !== undefined) onClick?.(indices[e.instanceId], e); })}
+    >
+      <instancedBufferAttribute attach="instanceColor" args={[instanceColors, 3]} />
+      <meshStandardMaterial
+        color={style.color}
+        roughness={style.roughness ?? 1}
+        metalness={style.metalness ?? 0}
+        onBeforeCompile={patchInstanceEmissive}
+        customProgramCacheKey={INSTANCE_EMISSIVE_CACHE_KEY}
+      />
+    </instancedMesh>
+  );
+};
+
+const HaloInstances = ({ count, buffers, halo }: { count: number, buffers: DotBuffers, halo: DotHalo }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const indices = useMemo(() => Array.from({ length: count }, (_, i) => i), [count]);
+  const instanceColors = useMemo(() => new Float32Array(count * 3), [count]);
+  const geometry = useMemo(() => new THREE.SphereGeometry(halo.radius, 16, 16), [halo.radius]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame(() => {
+    if (meshRef.current) copyInstances(meshRef.current, indices, buffers, halo.colors);
+  });
+
+  return (
+    <instancedMesh ref={meshRef} args={[geometry, undefined, count]} frustumCulled={false} raycast={() => null}>
+      <instancedBufferAttribute attach="instanceColor" args={[instanceColors, 3]} />
+      <meshBasicMaterial transparent opacity={halo.opacity} depthWrite={false} />
+    </instancedMesh>
+  );
+};
+
+// Writes the matrices (translate + uniform scale) and colours of `indices` into the mesh
+const copyInstances = (mesh: THREE.InstancedMesh, indices: number[], buffers: DotBuffers, colors: Float32Array) => {
+  const { positions, scales } = buffers;
+  const matrices = mesh.instanceMatrix.array as Float32Array;
+  const instanceColors = mesh.instanceColor?.array as Float32Array | undefined;
+
+  for (let k = 0; k < indices.length; k++) {
+    const i = indices[k];
+    const s = scales[i];
+    const m = k * 16;
+    matrices[m] = s; matrices[m + 1] = 0; matrices[m + 2] = 0; matrices[m + 3] = 0;
+    matrices[m + 4] = 0; matrices[m + 5] = s; matrices[m + 6] = 0; matrices[m + 7] = 0;
+    matrices[m + 8] = 0; matrices[m + 9] = 0; matrices[m + 10] = s; matrices[m + 11] = 0;
+    matrices[m + 12] = positions[i * 3]; matrices[m + 13] = positions[i * 3 + 1]; matrices[m + 14] = positions[i * 3 + 2]; matrices[m + 15] = 1;
+  }
+  mesh.instanceMatrix.needsUpdate = true;
+  if (instanceColors && mesh.instanceColor) {
+    copyRgb(instanceColors, indices, colors);
+    mesh.instanceColor.needsUpdate = true;
+  }
+  mesh.boundingSphere = null; // The dots move; picking recomputes it on demand
+};
+
+// Gathers the rgb triplets of `indices` from a per-dot buffer
+const copyRgb = (target: Float32Array, indices: number[], source: Float32Array) => {
+  for (let k = 0; k < indices.length; k++) {
+    const i = indices[k] * 3;
+    target[k * 3] = source[i];
+    target[k * 3 + 1] = source[i + 1];
+    target[k * 3 + 2] = source[i + 2];
+  }
+};
+
+export const InstancedDots = ({
+  polarities, buffers, radius, styles, segments = 32, visible = true, halo = null,
+  hoveredIndex = null, tooltip, tooltipOffset = 1, onPointerOver, onPointerOut, onClick
+}: InstancedDotsProps) => {
+  const groups = useMemo(() => POLARITIES.map(polarity => ({
+    polarity,
+    indices: polarities.flatMap((p, i) => p === polarity ? [i] : [])
+  })).filter(group => group.indices.length > 0), [polarities]);
+
+  // The tooltip rides on the hovered dot
+  const tooltipRef = useRef<THREE.Group>(null);
+  useFrame(() => {
+    if (!tooltipRef.current || hoveredIndex === null) return;
+    const p = buffers.positions;
+    tooltipRef.current.position.set(p[hoveredIndex * 3], p[hoveredIndex * 3 + 1] + tooltipOffset, p[hoveredIndex * 3 + 2]);
+  });
+
+  return (
+    <group>
+      {groups.map(({ polarity, indices }) => (
+        <DotInstances
+          key={`${polarity}-${indices.length}`} // Instance count is fixed at creation
+          indices={indices}
+          buffers={buffers}
+          radius={radius}
+          segments={segments}
+          style={styles[polarity]}
+          visible={visible}
+          onPointerOver={onPointerOver}
+          onPointerOut={onPointerOut}
+          onClick={onClick}
+        />
+      ))}
+      {halo && visible && <HaloInstances count={polarities.length} buffers={buffers} halo={halo} />}
+      {hoveredIndex !== null && tooltip && visible && (
+        <group ref={tooltipRef}>
+          <Html center zIndexRange={[20, 0]}>{tooltip}</Html>
+        </group>
+      )}
+    </group>
+  );
+};
+
+// Eases each scale toward its target (the exponential part of maath's damp)
+export const dampScales = (scales: Float32Array, getTarget: (index: number) => number, smoothTime: number, delta: number) => {
+  const k = 1 - Math.exp((-2 * delta) / smoothTime);
+  for (let i = 0; i < scales.length; i++) scales[i] += (getTarget(i) - scales[i]) * k;
+};
+
+// Writes a colour (times `intensity`) into an rgb buffer at dot `index`
+export const setDotColor = (colors: Float32Array, index: number, color: THREE.Color, intensity = 1) => {
+  colors[index * 3] = color.r * intensity;
+  colors[index * 3 + 1] = color.g * intensity;
+  colors[index * 3 + 2] = color.b * intensity;
+};
+
+// --- LINE BUFFERS ---
+
+// The part of drei's <Line> object (Line2 / LineSegments2) touched here
+interface LineObject {
+  geometry: THREE.BufferGeometry & { setPositions: (array: Float32Array) => unknown };
+}
+
+// Rewrites a drei <Line>'s vertices (xyz per vertex) in place. setPositions()
+// allocates a new segment buffer on every call; this reuses the one from mount.
+export const writeLinePositions = (line: LineObject, positions: Float32Array) => {
+  const start = line.geometry.getAttribute('instanceStart') as THREE.InterleavedBufferAttribute | undefined;
+  const segments = start?.data.array as Float32Array | undefined;
+  if (!start || !segments || segments.length !== (positions.length - 3) * 2) {
+    line.geometry.setPositions(positions);
+    return;
+  }
+  for (let i = 0, j = 0; i < positions.length - 3; i += 3, j += 6) {
+    segments[j] = positions[i];
+    segments[j + 1] = positions[i + 1];
+    segments[j + 2] = positions[i + 2];
+    segments[j + 3] = positions[i + 3];
+    segments[j + 4] = positions[i + 4];
+    segments[j + 5] = positions[i + 5];
+  }
+  start.data.needsUpdate = true;
+  line.geometry.boundingBox = null;    // Stale bounds from mount would make picking skip the line;
+  line.geometry.boundingSphere = null; // raycast() recomputes them on demand
+};
@@ -1,8 +1,17 @@
-import React, { useMemo, useRef, useEffect } from 'react';
+import React, { useMemo, useRef, useEffect, useState } from 'react';
 import { Canvas, useFrame, useThree, extend } from '@react-three/fiber';
-import { OrbitControls, Text, Billboard, Html, shaderMaterial } from '@react-three/drei';
-import { generateLoShuPoints, SPHERE_RADIUS, LOSHU_GRID_SIZE } from '../constants';
-import { Polarity, LoShuMorphState, LoShuLayerState, LoShuPointData } from '../types';
+import { OrbitControls, Text, Billboard, Html, Line, shaderMaterial } from '@react-three/drei';
+import { generateLoShuPoints, generateLoShuEnergyPath, describeNumber, SPHERE_RADIUS, LOSHU_GRID_SIZE, PROJECTION_RADIUS, LOSHU_SUM_LINES, ELEMENT_NAMES, NUMERALS } from '../constants';
+import { generateMagicSquarePoints, verifyMagicSquare, getMagicSquareLayout, getMagicCellCenter } from '../magicSquare';
+import { orientSumLine } from '../loShuSymmetry';
+import { Polarity, LoShuMorphState, LoShuLayerState, LoShuPointData, FlyingStarChart, MagicSquareReport, LoShuSumLine, ViewMode, CameraPose, CameraNudge, BaguaArrangement, HexagramPick, LoShuSymmetry, LoShuStructureDefinition } from '../types';
+import { CameraSync } from './CameraSync';
+import { SceneCapture, SceneCaptureApi } from './SceneCapture';
+import { BaguaRing } from './BaguaRing';
+import { HexagramStack } from './HexagramView';
+import { InstancedDots, createDotBuffers, dampScales, setDotColor, writeLinePositions, DOT_UPDATE_PRIORITY, DotStyle } from './InstancedDots';
+import { LOSHU_PRESET } from '../structureDefinitions';
+import { useLocale } from '../i18n';
 import * as THREE from 'three';
 import { easing } from 'maath';
 
@@ -11,6 +20,22 @@ interface LoShuSceneProps {
   layerState: LoShuLayerState;
   isRunning: boolean;       // Controls "Flying Star" (Energy Flow)
   isSphereRotating: boolean; // Controls "Run" (Sphere Rotation)
+  energySequences: number[][]; // Routes drawn by the Energy Tube layer
+  flyingStars: FlyingStarChart | null; // Period / annual / monthly stars per palace
+  magicSquare: number[][] | null; // Generalised N×N square shown on the plane instead of the Lo Shu
+  baguaArrangement?: BaguaArrangement | null; // Trigram ring around the plane (null = off)
+  hexagram?: HexagramPick | null; // Hexagram explorer: picked palaces and the six-line stacks
+  symmetry?: LoShuSymmetry; // Orientation of the Lo Shu (rotations / reflections); dots glide between palaces
+  structure?: LoShuStructureDefinition; // Palace anchors and dot patterns (a dropped JSON file, or the built-in preset)
+  onToggleHexagramLine?: (index: number) => void;
+  selectedNumber: number | null;  // Highlighted number group (inspector)
+  onSelectNumber: (numberValue: number | null) => void;
+  initialCamera?: CameraPose | null; // Restored from a shared link
+  onCameraChange?: (pose: CameraPose) => void;
+  cameraNudge?: CameraNudge | null; // Arrow-key orbit steps
+  reducedMotion?: boolean;  // Shorter morphs
+  frameloop?: 'always' | 'never'; // 'never' while a recording steps the scene
+  onCaptureReady?: (api: SceneCaptureApi | null) => void;
 }
 
 // -----------------------------------------------------------------------------
@@ -121,7 +146,7 @@ extend({ EnergyFlowMaterial });
 // -----------------------------------------------------------------------------
 const useGroupCenters = (points: LoShuPointData[]) => {
   return useMemo(() => {
-    const centers: Record<number, { plane: THREE.Vector3, sphere: THREE.Vector3, trigram?: string, direction?: string }> = {};
+    const centers: Record<number, { plane: THREE.Vector3, sphere: THREE.Vector3, projection: THREE.Vector3, trigram?: string, direction?: string }> = {};
     const counts: Record<number, number> = {};
 
     points.forEach(pt => {
@@ -129,6 +154,7 @@ const useGroupCenters = (points: LoShuPointData[]) => {
         centers[pt.numberValue] = { 
             plane: new THREE.Vector3(), 
             sphere: new THREE.Vector3(), 
+            projection: new THREE.Vector3(),
             trigram: pt.trigram,
             direction: pt.direction 
         };
@@ -137,6 +163,7 @@ const useGroupCenters = (points: LoShuPointData[]) => {
       
       centers[pt.numberValue].plane.add(new THREE.Vector3(...pt.planePos));
       centers[pt.numberValue].sphere.add(new THREE.Vector3(...pt.spherePos));
+      centers[pt.numberValue].projection.add(new THREE.Vector3(...pt.projectionPos));
       counts[pt.numberValue]++;
     });
 
@@ -144,32 +171,141 @@ const useGroupCenters = (points: LoShuPointData[]) => {
       const k = parseInt(key);
       centers[k].plane.divideScalar(counts[k]);
       centers[k].sphere.divideScalar(counts[k]);
+      centers[k].projection.divideScalar(counts[k]);
     });
     
     return centers;
   }, [points]);
 };
 
+// -----------------------------------------------------------------------------
+// HELPER: LAYOUT GLIDE
+// -----------------------------------------------------------------------------
+// A new symmetry moves every dot to another palace. Rather than jump, the hook
+// hands out live copies of the points and centers that start where the old
+// layout was drawn and are eased to the new one, in all three states at once,
+// before the dots and labels read them each frame. A null key (the magic square)
+// or a change in dot count never glides.
+const GLIDE_UPDATE_PRIORITY = DOT_UPDATE_PRIORITY - 1;
+
+type Vec3 = [number, number, number];
+type GroupCenters = ReturnType<typeof useGroupCenters>;
+type CenterKey = 'plane' | 'sphere' | 'projection';
+
+interface LiveLayout {
+  key: string | null;
+  points: LoShuPointData[];
+  centers: GroupCenters;
+}
+
+const copyPoint = (pt: LoShuPointData): LoShuPointData => ({
+  ...pt,
+  planePos: [...pt.planePos] as Vec3,
+  spherePos: [...pt.spherePos] as Vec3,
+  projectionPos: [...pt.projectionPos] as Vec3
+});
+
+// Straight lerp, except on the sphere where the length is eased separately so dots
+// sweep over the surface instead of cutting through it
+const glideVector = (from: THREE.Vector3, to: THREE.Vector3, t: number, spherical: boolean, out: THREE.Vector3) => {
+  out.lerpVectors(from, to, t);
+  const length = THREE.MathUtils.lerp(from.length(), to.length(), t);
+  if (spherical && out.lengthSq() > 1e-6) out.setLength(length);
+  return out;
+};
+
+const useLayoutGlide = (points: LoShuPointData[], centers: GroupCenters, glideKey: string | null, smoothTime: number) => {
+  const drawn = useRef<LiveLayout | null>(null);
+  const progress = useRef(1);
+
+  const glide = useMemo(() => {
+    const previous = drawn.current;
+    const live: LiveLayout = {
+      key: glideKey,
+      points: points.map(copyPoint),
+      centers: Object.fromEntries(Object.entries(centers).map(([key, c]) => [key, { ...c, plane: c.plane.clone(), sphere: c.sphere.clone(), projection: c.projection.clone() }]))
+    };
+    const glides = !!previous && previous.key !== null && glideKey !== null && previous.key !== glideKey && previous.points.length === points.length;
+    if (glides) {
+      live.points.forEach((pt, i) => {
+        const from = previous!.points[i];
+        pt.planePos = [...from.planePos] as Vec3;
+        pt.spherePos = [...from.spherePos] as Vec3;
+        pt.projectionPos = [...from.projectionPos] as Vec3;
+      });
+      Object.entries(live.centers).forEach(([key, c]) => {
+        const from = previous!.centers[Number(key)];
+        if (!from) return;
+        c.plane.copy(from.plane);
+        c.sphere.copy(from.sphere);
+        c.projection.copy(from.projection);
+      });
+    }
+    // Start of the glide, frozen (the live copies are overwritten every frame)
+    const start = {
+      points: live.points.map(copyPoint),
+      centers: Object.fromEntries(Object.entries(live.centers).map(([key, c]) => [key, { plane: c.plane.clone(), sphere: c.sphere.clone(), projection: c.projection.clone() }]))
+    };
+    return { live, start, glides };
+  }, [points, centers, glideKey]);
+
+  useEffect(() => {
+    drawn.current = glide.live;
+    progress.current = glide.glides ? 0 : 1;
+  }, [glide]);
+
+  const from = useMemo(() => new THREE.Vector3(), []);
+  const to = useMemo(() => new THREE.Vector3(), []);
+  const out = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((_, delta) => {
+    if (progress.current >= 1) return;
+    easing.damp(progress, 'current', 1.001, smoothTime, delta);
+    const t = Math.min(progress.current, 1);
+    if (t >= 1) progress.current = 1;
+
+    const { live, start } = glide;
+    live.points.forEach((pt, i) => {
+      const target = points[i];
+      const origin = start.points[i];
+      (['planePos', 'spherePos', 'projectionPos'] as const).forEach(field => {
+        glideVector(from.fromArray(origin[field]), to.fromArray(target[field]), t, field === 'spherePos', out);
+        out.toArray(pt[field]);
+      });
+    });
+    Object.entries(live.centers).forEach(([key, c]) => {
+      const origin = start.centers[key];
+      const target = centers[Number(key)];
+      if (!origin || !target) return;
+      (['plane', 'sphere', 'projection'] as CenterKey[]).forEach(field => {
+        glideVector(origin[field], target[field], t, field === 'sphere', c[field]);
+      });
+    });
+  }, GLIDE_UPDATE_PRIORITY);
+
+  return glide.live;
+};
+
 // -----------------------------------------------------------------------------
 // SUB-COMPONENTS
 // -----------------------------------------------------------------------------
 
 // 1. Planar Direction Labels
-const PlanarDirectionLabels = ({ visible }: { visible: boolean }) => {
+const PlanarDirectionLabels = ({ visible, offset = LOSHU_GRID_SIZE * 2.2 }: { visible: boolean, offset?: number }) => {
+  const { term } = useLocale();
   if (!visible) return null;
-  const offset = LOSHU_GRID_SIZE * 2.2;
   const labelClass = "text-cyan-500/80 font-bold text-sm md:text-base tracking-widest uppercase font-serif drop-shadow-md select-none whitespace-nowrap";
   const subLabelClass = "text-cyan-800/60 font-bold text-xs tracking-widest uppercase font-serif drop-shadow-sm select-none whitespace-nowrap";
   return (
     <group>
-      <Html position={[0, offset, 0]} center zIndexRange={[0, 0]}><div className={labelClass}>南 (South)</div></Html>
-      <Html position={[0, -offset, 0]} center zIndexRange={[0, 0]}><div className={labelClass}>北 (North)</div></Html>
-      <Html position={[-offset, 0, 0]} center zIndexRange={[0, 0]}><div className={labelClass}>东 (East)</div></Html>
-      <Html position={[offset, 0, 0]} center zIndexRange={[0, 0]}><div className={labelClass}>西 (West)</div></Html>
-      <Html position={[offset, offset, 0]} center zIndexRange={[0, 0]}><div className={subLabelClass}>西南</div></Html>
-      <Html position={[-offset, offset, 0]} center zIndexRange={[0, 0]}><div className={subLabelClass}>东南</div></Html>
-      <Html position={[offset, -offset, 0]} center zIndexRange={[0, 0]}><div className={subLabelClass}>西北</div></Html>
-      <Html position={[-offset, -offset, 0]} center zIndexRange={[0, 0]}><div className={subLabelClass}>东北</div></Html>
+      <Html position={[0, offset, 0]} center zIndexRange={[0, 0]}><div className={labelClass}>{term('南')}</div></Html>
+      <Html position={[0, -offset, 0]} center zIndexRange={[0, 0]}><div className={labelClass}>{term('北')}</div></Html>
+      <Html position={[-offset, 0, 0]} center zIndexRange={[0, 0]}><div className={labelClass}>{term('东')}</div></Html>
+      <Html position={[offset, 0, 0]} center zIndexRange={[0, 0]}><div className={labelClass}>{term('西')}</div></Html>
+      <Html position={[offset, offset, 0]} center zIndexRange={[0, 0]}><div className={subLabelClass}>{term('西南')}</div></Html>
+      <Html position={[-offset, offset, 0]} center zIndexRange={[0, 0]}><div className={subLabelClass}>{term('东南')}</div></Html>
+      <Html position={[offset, -offset, 0]} center zIndexRange={[0, 0]}><div className={subLabelClass}>{term('西北')}</div></Html>
+      <Html position={[-offset, -offset, 0]} center zIndexRange={[0, 0]}><div className={subLabelClass}>{term('东北')}</div></Html>
     </group>
   );
 };
@@ -234,14 +370,39 @@ const GlassSphere = ({ visible }: { visible: boolean }) => {
   );
 };
 
+// 3b. Projection Disc (Rim of the flattened sphere)
+const ProjectionDiscGuide = ({ visible }: { visible: boolean }) => {
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useFrame((_, delta) => {
+    if (materialRef.current) {
+        const targetOpacity = visible ? 0.35 : 0;
+        materialRef.current.opacity = THREE.MathUtils.lerp(materialRef.current.opacity, targetOpacity, delta * 2);
+        if (meshRef.current) {
+            meshRef.current.visible = materialRef.current.opacity > 0.01;
+        }
+    }
+  });
+
+  return (
+     <mesh ref={meshRef} position={[0, 0, -0.6]}>
+        <ringGeometry args={[PROJECTION_RADIUS + 0.8, PROJECTION_RADIUS + 1.0, 128]} />
+        <meshBasicMaterial ref={materialRef} color="#22d3ee" transparent opacity={0} depthWrite={false} />
+     </mesh>
+  );
+};
+
 // 4. Energy Tube (The Holographic Conduit)
 const EnergyTube = ({ 
     points, 
+    closed,
     visible, 
     morphState,
     isRunning 
 }: { 
     points: THREE.Vector3[], 
+    closed: boolean,
     visible: boolean, 
     morphState: LoShuMorphState,
     isRunning: boolean 
@@ -252,14 +413,16 @@ const EnergyTube = ({
 
   const curve = useMemo(() => {
       if (points.length < 2) return null;
-      return new THREE.CatmullRomCurve3(points, true, 'centripetal', 0.2);
-  }, [points]);
+      return new THREE.CatmullRomCurve3(points, closed, 'centripetal', 0.2);
+  }, [points, closed]);
 
   const geometry = useMemo(() => {
       if (!curve) return null;
+      // Scale with path length so short legs are as smooth as the full 9-palace loop
+      const tubularSegments = Math.min(400, Math.max(64, Math.round(points.length / 1.3)));
       // Radius 0.45 - Thick enough to see, thin enough to look high-tech
-      return new THREE.TubeGeometry(curve, 400, 0.45, 12, true);
-  }, [curve]);
+      return new THREE.TubeGeometry(curve, tubularSegments, 0.45, 12, closed);
+  }, [curve, points, closed]);
 
   useFrame((state, delta) => {
      const isSphere = morphState === LoShuMorphState.SPHERE;
@@ -296,116 +459,323 @@ const EnergyTube = ({
 
 
 // 5. Energy Path Logic
-const EnergySystem = ({ centers, visible, morphState, isRunning }: { centers: any, visible: boolean, morphState: LoShuMorphState, isRunning: boolean }) => {
-  const pathPoints = useMemo(() => {
-    if (!centers[1] || !centers[9]) return [];
-
-    const R = SPHERE_RADIUS;
-    const segments = 12;
-
-    const createArc = (start: THREE.Vector3, end: THREE.Vector3, control: THREE.Vector3) => {
-        const pts: THREE.Vector3[] = [];
-        for (let i = 0; i <= segments; i++) {
-            const t = i / segments;
-            const p = new THREE.Vector3()
-                .addScaledVector(start, (1 - t) * (1 - t))
-                .addScaledVector(control, 2 * (1 - t) * t)
-                .addScaledVector(end, t * t);
-            p.normalize().multiplyScalar(R * 1.05); 
-            pts.push(p);
-        }
-        return pts;
-    };
+// Each route sequence is paved over the sphere by generateLoShuEnergyPath (SLERP legs,
+// straight dives through the core 5) and rendered as its own tube.
+const EnergySystem = ({ sequences, symmetry, structure, visible, morphState, isRunning }: { sequences: number[][], symmetry: LoShuSymmetry, structure: LoShuStructureDefinition, visible: boolean, morphState: LoShuMorphState, isRunning: boolean }) => {
+  const paths = useMemo(() => {
+    return sequences
+      .filter(seq => seq.length >= 2)
+      .map((seq, i) => {
+        const closed = seq.length > 2 && seq[0] === seq[seq.length - 1];
+        const points = generateLoShuEnergyPath(seq, symmetry, structure);
+        // Closed curves wrap around themselves; drop the duplicated end point
+        if (closed) points.pop();
+        // A new orientation remounts the tube, so it fades in along the moved palaces
+        return { key: `${i}-${seq.join('')}-${symmetry}`, points, closed };
+      });
+  }, [sequences, symmetry, structure]);
 
-    const getShortestPathControl = (s: THREE.Vector3, e: THREE.Vector3, scale = 1.1) => {
-        return new THREE.Vector3().addVectors(s, e).normalize().multiplyScalar(R * scale);
-    };
+  return (
+    <group>
+      {paths.map(path => (
+        <EnergyTube 
+          key={path.key} 
+          points={path.points} 
+          closed={path.closed} 
+          visible={visible} 
+          morphState={morphState} 
+          isRunning={isRunning} 
+        />
+      ))}
+    </group>
+  );
+};
 
-    const fullPath: THREE.Vector3[] = [];
-    const addPoints = (pts: THREE.Vector3[]) => {
-         if (fullPath.length > 0) fullPath.push(...pts.slice(1));
-         else fullPath.push(...pts);
-    };
+// 5b. 15-Sum Lines (rows, columns, diagonals through the group centers)
+const SUM_LINE_COLORS: Record<LoShuSumLine['kind'], string> = {
+  row: '#fbbf24',
+  column: '#22d3ee',
+  diagonal: '#f472b6'
+};
 
-    // 1 -> 2
-    addPoints(createArc(centers[1].sphere, centers[2].sphere, new THREE.Vector3(0, 0, R * 1.8)));
-    // 2 -> 3
-    addPoints(createArc(centers[2].sphere, centers[3].sphere, new THREE.Vector3(R * 1.5, R * 0.6, -R * 1.5)));
-    // 3 -> 4
-    addPoints(createArc(centers[3].sphere, centers[4].sphere, getShortestPathControl(centers[3].sphere, centers[4].sphere, 1.2)));
-    // 4 -> 5 -> 6 (Internal Dive)
-    {
-        const p4 = centers[4].sphere.clone();
-        const p5 = centers[5].sphere.clone();
-        const p6 = centers[6].sphere.clone();
-        
-        const pts45 = [];
-        for(let i=0; i<=segments; i++) pts45.push(new THREE.Vector3().lerpVectors(p4, p5, i/segments));
-        addPoints(pts45);
+// Center of a number group at the current Plane -> Sphere -> Projection blend
+const getBlendedCenter = (data: any, m: number, q: number, target: THREE.Vector3) => {
+  return target.copy(data.plane).lerp(data.sphere, m).lerp(data.projection, q);
+};
 
-        const pts56 = [];
-        for(let i=0; i<=segments; i++) pts56.push(new THREE.Vector3().lerpVectors(p5, p6, i/segments));
-        addPoints(pts56);
+const SumLine = ({ 
+  line, 
+  centers, 
+  morphVal, 
+  projectVal, 
+  isolated, 
+  onSelect 
+}: { 
+  line: LoShuSumLine, 
+  centers: any, 
+  morphVal: React.MutableRefObject<number>, 
+  projectVal: React.MutableRefObject<number>, 
+  isolated: boolean, 
+  onSelect: (id: string) => void 
+}) => {
+  const { t } = useLocale();
+  const lineRef = useRef<any>(null);
+  const badgeRef = useRef<THREE.Group>(null);
+  const runningRefs = useRef<(THREE.Group | null)[]>([]);
+  const vertices = useMemo(() => line.palaces.map(() => new THREE.Vector3()), [line]);
+  const positions = useMemo(() => new Float32Array(line.palaces.length * 3), [line]);
+  const initialPoints = useMemo(() => line.palaces.map(() => [0, 0, 0] as [number, number, number]), [line]);
+  const dir = useMemo(() => new THREE.Vector3(), []);
+
+  // Running sum at each palace along the line: e.g. 4, 13, 15
+  const runningSums = useMemo(() => {
+    let total = 0;
+    return line.palaces.map(p => (total += p));
+  }, [line]);
+
+  useFrame(() => {
+    const m = morphVal.current;
+    const q = projectVal.current;
+    line.palaces.forEach((p, i) => getBlendedCenter(centers[p], m, q, vertices[i]).toArray(positions, i * 3));
+
+    if (lineRef.current && lineRef.current.geometry) {
+      writeLinePositions(lineRef.current, positions);
     }
-    // 6 -> 7
-    addPoints(createArc(centers[6].sphere, centers[7].sphere, getShortestPathControl(centers[6].sphere, centers[7].sphere, 1.2)));
-    // 7 -> 8
-    addPoints(createArc(centers[7].sphere, centers[8].sphere, new THREE.Vector3(R * 1.5, -R * 1.2, -R * 1.5)));
-    // 8 -> 9
-    addPoints(createArc(centers[8].sphere, centers[9].sphere, new THREE.Vector3(-R * 1.8, 0, -R * 0.5)));
-    // 9 -> 1
-    addPoints(createArc(centers[9].sphere, centers[1].sphere, new THREE.Vector3(R * 1.6, 0, -R * 1.2)));
 
-    return fullPath;
+    // Total badge sits just past the last palace, continuing the line
+    const last = vertices[vertices.length - 1];
+    dir.subVectors(last, vertices[vertices.length - 2]).normalize();
+    if (badgeRef.current) badgeRef.current.position.copy(last).addScaledVector(dir, 4);
+
+    runningRefs.current.forEach((g, i) => {
+      if (g) g.position.copy(vertices[i]);
+    });
+  });
+
+  const color = SUM_LINE_COLORS[line.kind];
+  const handleClick = (e: any) => {
+    e.stopPropagation();
+    onSelect(line.id);
+  };
+  const hovered = useRef(false);
+  const setCursor = (cursor: string) => () => {
+    hovered.current = cursor === 'pointer';
+    document.body.style.cursor = cursor;
+  };
+  // Hiding the layer or leaving the view while hovering sends no pointer-out
+  useEffect(() => () => {
+    if (hovered.current) document.body.style.cursor = 'auto';
+  }, []);
+
+  return (
+    <group>
+      <Line 
+        ref={lineRef}
+        points={initialPoints}
+        frustumCulled={false} 
+        color={color} 
+        lineWidth={isolated ? 5 : 2.5} 
+        transparent 
+        opacity={isolated ? 1 : 0.7} 
+        depthWrite={false}
+        onClick={handleClick}
+        onPointerOver={setCursor('pointer')}
+        onPointerOut={setCursor('auto')}
+      />
+
+      <group ref={badgeRef}>
+        <Billboard>
+          <mesh onClick={handleClick} onPointerOver={setCursor('pointer')} onPointerOut={setCursor('auto')}>
+            <circleGeometry args={[1.4, 32]} />
+            <meshBasicMaterial color="#000000" transparent opacity={0.6} depthWrite={false} />
+          </mesh>
+          <Text position={[0, 0, 0.1]} fontSize={1.3} color={color} anchorX="center" anchorY="middle">
+            {String(runningSums[runningSums.length - 1])}
+          </Text>
+          {isolated && (
+            <Text position={[0, -2.2, 0.1]} fontSize={0.8} color="#e2e8f0" anchorX="center" anchorY="middle">
+              {t(line.label)}
+            </Text>
+          )}
+        </Billboard>
+      </group>
+
+      {isolated && runningSums.map((sum, i) => (
+        <group key={i} ref={el => { runningRefs.current[i] = el; }}>
+          <Billboard>
+            <Text position={[2.6, 2.6, 1]} fontSize={1.1} color={color} anchorX="center" anchorY="middle" outlineWidth={0.06} outlineColor="#000000">
+              {i === 0 ? String(sum) : `+${line.palaces[i]}=${sum}`}
+            </Text>
+          </Billboard>
+        </group>
+      ))}
+    </group>
+  );
+};
+
+// Click a line (or its total) to isolate it; click again to show all eight
+// Lines keep their numbers under a symmetry but are named and coloured by where they now run
+const SumLineOverlay = ({ 
+  centers, 
+  symmetry, 
+  morphVal, 
+  projectVal, 
+  visible 
+}: { 
+  centers: any, 
+  symmetry: LoShuSymmetry, 
+  morphVal: React.MutableRefObject<number>, 
+  projectVal: React.MutableRefObject<number>, 
+  visible: boolean 
+}) => {
+  const [isolatedId, setIsolatedId] = useState<string | null>(null);
+  const lines = useMemo(() => LOSHU_SUM_LINES.map(line => orientSumLine(line, symmetry)), [symmetry]);
 
-  }, [centers]);
+  if (!visible) return null;
 
   return (
-    <EnergyTube points={pathPoints} visible={visible} morphState={morphState} isRunning={isRunning} />
+    <group>
+      {lines
+        .filter(line => !isolatedId || line.id === isolatedId)
+        .map(line => (
+          <SumLine 
+            key={line.id} 
+            line={line} 
+            centers={centers} 
+            morphVal={morphVal} 
+            projectVal={projectVal} 
+            isolated={line.id === isolatedId}
+            onSelect={(id) => setIsolatedId(prev => prev === id ? null : id)}
+          />
+        ))}
+    </group>
   );
 };
 
 // 6. The Dots
-const DotGroup = ({ points, morphVal, layerState }: { points: LoShuPointData[], morphVal: React.MutableRefObject<number>, layerState: LoShuLayerState }) => {
-    const meshRefs = useRef<Record<string, THREE.Mesh>>({});
+// Hover tooltip for picked dots
+const DOT_TOOLTIP_CLASS = "px-2 py-1 text-[10px] tracking-widest whitespace-nowrap text-cyan-50 bg-cyan-950/80 border border-cyan-500/40 rounded-sm pointer-events-none select-none";
 
-    useFrame(() => {
+const describeLoShuDot = (num: number, symmetry: LoShuSymmetry, term: (text: string) => string) => {
+    const info = describeNumber(ViewMode.LOSHU, num, symmetry);
+    return [num, term(info.polarity === Polarity.YANG ? '阳' : '阴'), term(info.direction), info.trigram && term(info.trigram), term(ELEMENT_NAMES[info.element])].join(' · ');
+};
+
+const LOSHU_DOT_STYLES: Record<Polarity, DotStyle> = {
+    [Polarity.YANG]: { color: "#ffffff" },
+    [Polarity.YIN]: { color: "#101010" }
+};
+const COLOR_YANG_GLOW = new THREE.Color("#ffffff");
+const COLOR_SELECTED_GLOW = new THREE.Color("#22d3ee");
+
+// Picking is optional: without `onSelectNumber` the dots ignore the pointer
+const DotGroup = ({ 
+    points, 
+    morphVal, 
+    projectVal, 
+    layerState, 
+    dotRadius = 0.5, 
+    selectedNumber = null, 
+    symmetry = LoShuSymmetry.IDENTITY, 
+    onSelectNumber 
+}: { 
+    points: LoShuPointData[], 
+    morphVal: React.MutableRefObject<number>, 
+    projectVal: React.MutableRefObject<number>, 
+    layerState: LoShuLayerState, 
+    dotRadius?: number, 
+    selectedNumber?: number | null, 
+    symmetry?: LoShuSymmetry, 
+    onSelectNumber?: (numberValue: number | null) => void 
+}) => {
+    const { term } = useLocale();
+    const buffers = useMemo(() => createDotBuffers(points.length), [points]);
+    const polarities = useMemo(() => points.map(pt => pt.polarity), [points]);
+    const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+    useFrame((_, delta) => {
         const m = morphVal.current;
-        points.forEach(pt => {
-            const mesh = meshRefs.current[pt.id];
-            if (mesh) {
-                const cx = pt.planePos[0]; const cy = pt.planePos[1]; const cz = pt.planePos[2];
-                const tx = pt.spherePos[0]; const ty = pt.spherePos[1]; const tz = pt.spherePos[2];
-                
-                mesh.position.set(cx + (tx - cx) * m, cy + (ty - cy) * m, cz + (tz - cz) * m);
-                
-                if (mesh.material && !Array.isArray(mesh.material)) {
-                    (mesh.material as THREE.Material).opacity = layerState.dots ? 1 : 0;
-                }
-                mesh.visible = layerState.dots;
-            }
+        const q = projectVal.current;
+        const { positions, emissive } = buffers;
+        points.forEach((pt, i) => {
+            const cx = pt.planePos[0]; const cy = pt.planePos[1]; const cz = pt.planePos[2];
+            const tx = pt.spherePos[0]; const ty = pt.spherePos[1]; const tz = pt.spherePos[2];
+            const px = pt.projectionPos[0]; const py = pt.projectionPos[1]; const pz = pt.projectionPos[2];
+
+            // Plane -> Sphere, then Sphere -> Projection
+            const sx = cx + (tx - cx) * m; const sy = cy + (ty - cy) * m; const sz = cz + (tz - cz) * m;
+            positions[i * 3] = sx + (px - sx) * q;
+            positions[i * 3 + 1] = sy + (py - sy) * q;
+            positions[i * 3 + 2] = sz + (pz - sz) * q;
+
+            if (pt.numberValue === selectedNumber) setDotColor(emissive, i, COLOR_SELECTED_GLOW, 1.2);
+            else setDotColor(emissive, i, COLOR_YANG_GLOW, pt.polarity === Polarity.YANG ? 0.5 : 0);
         });
-    });
+
+        // Selected group swells slightly
+        dampScales(buffers.scales, i => points[i].numberValue === selectedNumber ? 1.5 : 1, 0.15, delta);
+    }, DOT_UPDATE_PRIORITY);
 
     return (
-        <group>
-            {points.map(pt => (
-                <mesh key={pt.id} ref={el => { if(el) meshRefs.current[pt.id] = el; }}>
-                    <sphereGeometry args={[0.5, 32, 32]} />
-                    <meshStandardMaterial 
-                        color={pt.polarity === Polarity.YANG ? "#ffffff" : "#101010"}
-                        emissive={pt.polarity === Polarity.YANG ? "#ffffff" : "#000000"}
-                        emissiveIntensity={pt.polarity === Polarity.YANG ? 0.5 : 0}
-                        transparent
-                    />
-                </mesh>
-            ))}
+        <InstancedDots
+            polarities={polarities}
+            buffers={buffers}
+            radius={dotRadius}
+            styles={LOSHU_DOT_STYLES}
+            visible={layerState.dots}
+            hoveredIndex={hoveredIndex !== null && hoveredIndex < points.length ? hoveredIndex : null} // Stale after the square changes size
+            tooltipOffset={dotRadius + 1}
+            tooltip={hoveredIndex !== null && points[hoveredIndex] && (
+                <div className={DOT_TOOLTIP_CLASS}>{describeLoShuDot(points[hoveredIndex].numberValue, symmetry, term)}</div>
+            )}
+            onPointerOver={onSelectNumber && ((i) => { setHoveredIndex(i); document.body.style.cursor = 'pointer'; })}
+            onPointerOut={onSelectNumber && ((i) => { setHoveredIndex(prev => prev === i ? null : prev); document.body.style.cursor = 'auto'; })}
+            onClick={onSelectNumber && ((i, e) => {
+                e.stopPropagation();
+                if (e.delta > 4) return; // Ignore orbit drags
+                const value = points[i].numberValue;
+                onSelectNumber(value === selectedNumber ? null : value);
+            })}
+        />
+    );
+};
+
+// 6b. Magic Square Line Check (lines whose sum breaks the magic constant)
+const MagicLineOverlay = ({ report }: { report: MagicSquareReport }) => {
+    const n = report.order;
+    const { cellSize } = getMagicSquareLayout(n);
+
+    return (
+        <group position={[0, 0, 0.8]}>
+            {report.brokenLines.map(line => {
+                const first = new THREE.Vector3(...getMagicCellCenter(n, ...line.cells[0]), 0);
+                const last = new THREE.Vector3(...getMagicCellCenter(n, ...line.cells[line.cells.length - 1]), 0);
+                const dir = last.clone().sub(first).normalize();
+                const start = first.clone().addScaledVector(dir, -cellSize * 0.45);
+                const end = last.clone().addScaledVector(dir, cellSize * 0.45);
+                const labelPos = first.clone().addScaledVector(dir, -cellSize * 0.75);
+
+                return (
+                    <group key={`${line.kind}-${line.index}`}>
+                        <Line points={[start, end]} color="#f87171" lineWidth={3} transparent opacity={0.85} />
+                        <Text
+                            position={labelPos}
+                            fontSize={Math.max(1, cellSize * 0.15)}
+                            color="#f87171"
+                            anchorX="center"
+                            anchorY="middle"
+                        >
+                            {`Σ${line.sum}`}
+                        </Text>
+                    </group>
+                );
+            })}
         </group>
     );
 };
 
 // 7. The Labels
-const LabelGroup = ({ centers, morphVal, layerState, morphState }: { centers: any, morphVal: React.MutableRefObject<number>, layerState: LoShuLayerState, morphState: LoShuMorphState }) => {
+const LabelGroup = ({ centers, morphVal, projectVal, layerState, morphState, flyingStars }: { centers: any, morphVal: React.MutableRefObject<number>, projectVal: React.MutableRefObject<number>, layerState: LoShuLayerState, morphState: LoShuMorphState, flyingStars: FlyingStarChart | null }) => {
     return (
         <group>
             {Object.entries(centers).map(([key, data]: [string, any]) => (
@@ -414,34 +784,51 @@ const LabelGroup = ({ centers, morphVal, layerState, morphState }: { centers: an
                     num={parseInt(key)} 
                     data={data} 
                     morphVal={morphVal} 
+                    projectVal={projectVal}
                     layerState={layerState} 
                     morphState={morphState} 
+                    stars={flyingStars ? getPalaceStars(flyingStars, parseInt(key)) : null}
                 />
             ))}
         </group>
     );
 };
 
-const SingleLabel = ({ num, data, morphVal, layerState, morphState }: any) => {
+// Period / Annual / Monthly star colours (matched by the legend in App.tsx)
+const STAR_COLORS = ['#f59e0b', '#a78bfa', '#f472b6'];
+
+const getPalaceStars = (chart: FlyingStarChart, palace: number): number[] => {
+    const stars = [chart.periodStars[palace], chart.annualStars[palace]];
+    if (chart.monthlyStars) stars.push(chart.monthlyStars[palace]);
+    return stars;
+};
+
+const SingleLabel = ({ num, data, morphVal, projectVal, layerState, morphState, stars }: any) => {
+    const { pinyin, term } = useLocale();
     const groupRef = useRef<THREE.Group>(null);
 
     useFrame(() => {
         if (groupRef.current) {
             const m = morphVal.current;
+            const q = projectVal.current;
             const p = data.plane;
             const s = data.sphere;
             const dir = s.clone().normalize();
             const spherePos = dir.multiplyScalar(23);
+            // Sit just in front of the projected dots
+            const projPos = data.projection.clone().setZ(1);
 
-            groupRef.current.position.set(
+            const mid = new THREE.Vector3(
                 p.x + (spherePos.x - p.x) * m,
                 p.y + (spherePos.y - p.y) * m,
                 p.z + (spherePos.z - p.z) * m
             );
+            groupRef.current.position.copy(mid.lerp(projPos, q));
         }
     });
 
-    const showAny = layerState.numbers || layerState.trigrams || (layerState.directions && morphState !== LoShuMorphState.PLANE);
+    const showStars = layerState.stars && stars;
+    const showAny = layerState.numbers || layerState.trigrams || showStars || (layerState.directions && morphState !== LoShuMorphState.PLANE);
     if (!showAny) return null;
 
     return (
@@ -473,6 +860,19 @@ const SingleLabel = ({ num, data, morphVal, layerState, morphState }: any) => {
                     </Text>
                 )}
 
+                {/* Numeral with its reading, beside the digit */}
+                {layerState.numbers && pinyin && NUMERALS[num] && (
+                    <Text
+                        position={[2.2, -0.6, 0]}
+                        fontSize={0.8}
+                        color="#fcd34d"
+                        anchorX="left"
+                        anchorY="middle"
+                    >
+                        {term(NUMERALS[num])}
+                    </Text>
+                )}
+
                 {layerState.trigrams && data.trigram && (
                     <>
                         {layerState.numbers && (
@@ -488,7 +888,7 @@ const SingleLabel = ({ num, data, morphVal, layerState, morphState }: any) => {
                             anchorX="center"
                             anchorY="middle"
                         >
-                            {data.trigram}
+                            {term(data.trigram)}
                         </Text>
                     </>
                 )}
@@ -501,31 +901,67 @@ const SingleLabel = ({ num, data, morphVal, layerState, morphState }: any) => {
                         anchorX="center"
                         anchorY="top"
                     >
-                        {data.direction}
+                        {term(data.direction)}
                     </Text>
                 )}
+
+                {/* Flying Star row: Period · Annual · (Monthly) */}
+                {showStars && (
+                    <group position={[0, 3.8, 0]}>
+                        <mesh position={[0, 0, -0.5]}>
+                            <planeGeometry args={[stars.length * 1.6 + 0.8, 1.9]} />
+                            <meshBasicMaterial color="#000000" transparent opacity={0.55} depthWrite={false} />
+                        </mesh>
+                        {stars.map((star: number, i: number) => (
+                            <Text
+                                key={i}
+                                position={[(i - (stars.length - 1) / 2) * 1.6, 0, 0]}
+                                fontSize={1.4}
+                                color={STAR_COLORS[i]}
+                                anchorX="center"
+                                anchorY="middle"
+                            >
+                                {star}
+                            </Text>
+                        ))}
+                    </group>
+                )}
             </Billboard>
         </group>
     );
 };
 
 // 8. Scene Rotator - MODIFIED: Rotates when `isSphereRotating` is true
-const LoShuRotator = ({ isSphereRotating, children }: { isSphereRotating: boolean, children?: React.ReactNode }) => {
+// `settle` eases the sphere back to its front-facing orientation (used by the flat
+// Plane and Projection views, which are always read from the viewer's side).
+const LoShuRotator = ({ isSphereRotating, settle = false, children }: { isSphereRotating: boolean, settle?: boolean, children?: React.ReactNode }) => {
     const groupRef = useRef<THREE.Group>(null);
     useFrame((_, delta) => {
-        if (groupRef.current && isSphereRotating) {
+        if (!groupRef.current) return;
+        if (isSphereRotating) {
             // Increased speed from 0.1 to 0.3 based on user request
             groupRef.current.rotation.y -= delta * 0.3; 
+        } else if (settle) {
+            // Take the shortest way back to 0
+            const y = THREE.MathUtils.euclideanModulo(groupRef.current.rotation.y + Math.PI, Math.PI * 2) - Math.PI;
+            groupRef.current.rotation.y = y;
+            easing.damp(groupRef.current.rotation, 'y', 0, 0.6, delta);
         }
     });
     return <group ref={groupRef}>{children}</group>;
 };
 
 // 9. Camera Controller
-const LoShuCameraController = ({ morphState }: { morphState: LoShuMorphState }) => {
+// Jumps to the preset view of each morph state; with `keepInitial` the first
+// state keeps the camera it opened with (a pose restored from a shared link).
+const LoShuCameraController = ({ morphState, keepInitial = false }: { morphState: LoShuMorphState, keepInitial?: boolean }) => {
     const { camera, controls } = useThree();
+    const appliedState = useRef<LoShuMorphState | null>(keepInitial ? morphState : null);
     
     useEffect(() => {
+        if (appliedState.current === morphState) return;
+        appliedState.current = morphState;
+
         let targetPos = new THREE.Vector3(0, 0, 50);
         let targetZoom = 10;
         
@@ -556,51 +992,159 @@ const LoShuCameraController = ({ morphState }: { morphState: LoShuMorphState })
     return null;
 };
 
+// -----------------------------------------------------------------------------
+// HEXAGRAM EXPLORER: PICKED PALACES
+// -----------------------------------------------------------------------------
+const HexagramPalaceMarkers = ({ pick, centers, visible }: { pick: HexagramPick, centers: any, visible: boolean }) => {
+    const { t } = useLocale();
+    // Upper label above its palace, lower below, so one palace picked twice still reads
+    const marks = [
+        { palace: pick.upperPalace, label: '上卦', radius: 5.2, labelY: 6.2 },
+        { palace: pick.lowerPalace, label: '下卦', radius: 4.6, labelY: -6.2 }
+    ];
+
+    return (
+        <group visible={visible}>
+            {marks.map(({ palace, label, radius, labelY }) => centers[palace] && (
+                <group key={label} position={centers[palace].plane}>
+                    <mesh>
+                        <ringGeometry args={[radius - 0.15, radius + 0.15, 64]} />
+                        <meshBasicMaterial color="#67e8f9" transparent opacity={0.7} side={THREE.DoubleSide} depthWrite={false} />
+                    </mesh>
+                    <Text position={[0, labelY, 0.1]} fontSize={1.1} color="#67e8f9" anchorX="center" anchorY="middle" outlineWidth={0.04} outlineColor="#000000">
+                        {t(label)}
+                    </Text>
+                </group>
+            ))}
+        </group>
+    );
+};
+
 // -----------------------------------------------------------------------------
 // INTERNAL SCENE CONTENT COMPONENT
 // -----------------------------------------------------------------------------
+const MORPH_SMOOTH_TIME = 1.2; // Plane ⇄ sphere ⇄ projection damping
+const REDUCED_MORPH_SMOOTH_TIME = 0.3;
+const GLIDE_SMOOTH_TIME = 0.5; // Dots moving between palaces on a symmetry change
+const REDUCED_GLIDE_SMOOTH_TIME = 0.1;
+const BAGUA_RADIUS = LOSHU_GRID_SIZE * 2.6; // Outside the direction labels
+const HEXAGRAM_POSITION: [number, number, number] = [-LOSHU_GRID_SIZE * 4.6, 0, 0]; // East of the ring
+
 const SceneContent = ({ 
   morphState, 
   layerState, 
   isRunning, 
   isSphereRotating,
+  energySequences,
+  flyingStars,
+  magicReport,
+  baguaArrangement,
+  hexagram,
+  onToggleHexagramLine,
+  symmetry,
+  structure,
+  glideKey,
+  dotRadius,
+  selectedNumber,
+  onSelectNumber,
   points, 
-  centers 
+  centers,
+  initialCamera,
+  onCameraChange,
+  cameraNudge,
+  reducedMotion
 }: { 
   morphState: LoShuMorphState, 
   layerState: LoShuLayerState, 
   isRunning: boolean, 
   isSphereRotating: boolean,
+  energySequences: number[][],
+  flyingStars: FlyingStarChart | null,
+  magicReport: MagicSquareReport | null,
+  baguaArrangement: BaguaArrangement | null,
+  hexagram: HexagramPick | null,
+  onToggleHexagramLine?: (index: number) => void,
+  symmetry: LoShuSymmetry,
+  structure: LoShuStructureDefinition,
+  glideKey: string | null,
+  dotRadius: number,
+  selectedNumber: number | null,
+  onSelectNumber: (numberValue: number | null) => void,
   points: LoShuPointData[], 
-  centers: any 
+  centers: any,
+  initialCamera?: CameraPose | null,
+  onCameraChange?: (pose: CameraPose) => void,
+  cameraNudge?: CameraNudge | null,
+  reducedMotion: boolean
 }) => {
-  const morphVal = useRef(0);
+  const morphVal = useRef(0);   // 0 (Plane) -> 1 (Sphere)
+  const projectVal = useRef(0); // 0 (Sphere) -> 1 (Projection)
   useFrame((_, delta) => {
      const target = (morphState === LoShuMorphState.SPHERE || morphState === LoShuMorphState.PROJECTION) ? 1 : 0;
-     easing.damp(morphVal, 'current', target, 1.2, delta);
+     const smoothTime = reducedMotion ? REDUCED_MORPH_SMOOTH_TIME : MORPH_SMOOTH_TIME;
+     easing.damp(morphVal, 'current', target, smoothTime, delta);
+     easing.damp(projectVal, 'current', morphState === LoShuMorphState.PROJECTION ? 1 : 0, smoothTime, delta);
   });
+  const layout = useLayoutGlide(points, centers, glideKey, reducedMotion ? REDUCED_GLIDE_SMOOTH_TIME : GLIDE_SMOOTH_TIME);
 
   return (
     <>
-      <PlanarDirectionLabels visible={morphState === LoShuMorphState.PLANE && layerState.directions} />
+      <PlanarDirectionLabels 
+        visible={morphState === LoShuMorphState.PLANE && layerState.directions} 
+        offset={magicReport ? (magicReport.order / 2 + 0.5) * getMagicSquareLayout(magicReport.order).cellSize : undefined}
+      />
+
+      {/* Around the 3×3 plane only; the sphere and the larger squares have no compass ring */}
+      {baguaArrangement && (
+        <BaguaRing arrangement={baguaArrangement} radius={BAGUA_RADIUS} visible={morphState === LoShuMorphState.PLANE && !magicReport} reducedMotion={reducedMotion} />
+      )}
 
-      <LoShuRotator isSphereRotating={isSphereRotating && morphState !== LoShuMorphState.PLANE}>
+      {/* Palaces are picked on the plane, so the stacks stand beside it */}
+      {hexagram && (
+        <HexagramStack pick={hexagram} position={HEXAGRAM_POSITION} visible={morphState === LoShuMorphState.PLANE && !magicReport} reducedMotion={reducedMotion} onToggleLine={onToggleHexagramLine} />
+      )}
+
+      <LoShuRotator 
+        isSphereRotating={isSphereRotating && morphState === LoShuMorphState.SPHERE}
+        settle={morphState !== LoShuMorphState.SPHERE}
+      >
           {/* Main wireframe guide */}
           <SphereReferenceGuides visible={morphState !== LoShuMorphState.PLANE} />
           
           {/* Glass Energy Sphere - Allows seeing internal tubes (4-5-6) */}
           <GlassSphere visible={morphState === LoShuMorphState.SPHERE || morphState === LoShuMorphState.PROJECTION} />
+
+          {/* Rim of the projected disc */}
+          <ProjectionDiscGuide visible={morphState === LoShuMorphState.PROJECTION} />
           
-          <DotGroup points={points} morphVal={morphVal} layerState={layerState} />
+          <DotGroup 
+            points={layout.points} 
+            morphVal={morphVal} 
+            projectVal={projectVal} 
+            layerState={layerState} 
+            dotRadius={dotRadius} 
+            selectedNumber={selectedNumber}
+            symmetry={symmetry}
+            // Inspector describes Lo Shu palaces only, not generalised squares
+            onSelectNumber={magicReport ? undefined : onSelectNumber}
+          />
+
+          {magicReport && <MagicLineOverlay report={magicReport} />}
+
+          {hexagram && <HexagramPalaceMarkers pick={hexagram} centers={centers} visible={morphState === LoShuMorphState.PLANE && !magicReport} />}
+
+          {/* 15-Sum Lines (Lo Shu only; the magic square has its own check) */}
+          <SumLineOverlay centers={layout.centers} symmetry={symmetry} morphVal={morphVal} projectVal={projectVal} visible={layerState.sums && !magicReport} />
           
           {/* Volumetric Energy Tube (Electric Cyan Beam) */}
-          <EnergySystem centers={centers} visible={layerState.lines} morphState={morphState} isRunning={isRunning} />
+          <EnergySystem sequences={energySequences} symmetry={symmetry} structure={structure} visible={layerState.lines} morphState={morphState} isRunning={isRunning} />
           
-          <LabelGroup centers={centers} morphVal={morphVal} layerState={layerState} morphState={morphState} />
+          <LabelGroup centers={layout.centers} morphVal={morphVal} projectVal={projectVal} layerState={layerState} morphState={morphState} flyingStars={flyingStars} />
       </LoShuRotator>
 
-      <LoShuCameraController morphState={morphState} />
+      <LoShuCameraController morphState={morphState} keepInitial={!!initialCamera} />
       <OrbitControls makeDefault enableDamping dampingFactor={0.05} enableZoom={true} enablePan={false} />
+      <CameraSync initialCamera={initialCamera} onCameraChange={onCameraChange} cameraNudge={cameraNudge} />
     </>
   );
 };
@@ -609,9 +1153,11 @@ const SceneContent = ({
 // MAIN COMPONENT
 // -----------------------------------------------------------------------------
 
-export const LoShuScene: React.FC<LoShuSceneProps> = ({ morphState, layerState, isRunning, isSphereRotating }) => {
-  const points = useMemo(() => generateLoShuPoints(), []);
+export const LoShuScene: React.FC<LoShuSceneProps> = ({ morphState, layerState, isRunning, isSphereRotating, energySequences, flyingStars, magicSquare, baguaArrangement = null, hexagram = null, onToggleHexagramLine, symmetry = LoShuSymmetry.IDENTITY, structure = LOSHU_PRESET, selectedNumber, onSelectNumber, initialCamera, onCameraChange, cameraNudge = null, reducedMotion = false, frameloop = 'always', onCaptureReady }) => {
+  const points = useMemo(() => magicSquare ? generateMagicSquarePoints(magicSquare) : generateLoShuPoints(symmetry, structure), [magicSquare, symmetry, structure]);
   const centers = useGroupCenters(points);
+  const magicReport = useMemo(() => magicSquare ? verifyMagicSquare(magicSquare) : null, [magicSquare]);
+  const dotRadius = magicSquare ? getMagicSquareLayout(magicSquare.length).dotRadius : 0.5;
 
   return (
     <Canvas
@@ -620,6 +1166,7 @@ export const LoShuScene: React.FC<LoShuSceneProps> = ({ morphState, layerState,
       orthographic
       camera={{ position: [0, 0, 50], zoom: 10 }}
       gl={{ antialias: true, toneMapping: THREE.ACESFilmicToneMapping }}
+      frameloop={frameloop}
     >
       <fog attach="fog" args={['#0f172a', 40, 150]} />
       <ambientLight intensity={0.6} color="#ffffff" />
@@ -630,9 +1177,26 @@ export const LoShuScene: React.FC<LoShuSceneProps> = ({ morphState, layerState,
         layerState={layerState} 
         isRunning={isRunning} 
         isSphereRotating={isSphereRotating}
+        energySequences={energySequences}
+        flyingStars={flyingStars}
+        magicReport={magicReport}
+        baguaArrangement={baguaArrangement}
+        hexagram={hexagram}
+        onToggleHexagramLine={onToggleHexagramLine}
+        symmetry={symmetry}
+        structure={structure}
+        glideKey={magicSquare ? null : symmetry}
+        dotRadius={dotRadius}
+        selectedNumber={magicSquare ? null : selectedNumber}
+        onSelectNumber={onSelectNumber}
         points={points} 
         centers={centers} 
+        initialCamera={initialCamera}
+        onCameraChange={onCameraChange}
+        cameraNudge={cameraNudge}
+        reducedMotion={reducedMotion}
       />
+      <SceneCapture onReady={onCaptureReady} />
     </Canvas>
   );
 };
\ No newline at end of file
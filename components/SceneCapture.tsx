@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+// Handle a scene hands to App.tsx for stills and recordings (see sceneExport.ts)
+export interface SceneCaptureApi {
+  canvas: HTMLCanvasElement;
+  // Resize the drawing buffer to width × height pixels, keeping the framing the user sees
+  beginCapture: (width: number, height: number) => void;
+  endCapture: () => void;
+  // Render the scene as it stands (no useFrame callbacks)
+  render: () => void;
+  // Run every useFrame callback up to `time` seconds and render. Only meaningful with
+  // frameloop="never", where it is the sole clock: deltas come from the timestamps.
+  advance: (time: number) => void;
+}
+
+interface SceneCaptureProps {
+  onReady?: (api: SceneCaptureApi | null) => void;
+}
+
+// Mount last inside a <Canvas> so every other effect (camera restore etc.) has run
+export const SceneCapture = ({ onReady }: SceneCaptureProps) => {
+  const get = useThree(state => state.get);
+  const saved = useRef<{ frustum: [number, number, number, number], aspect: number, dpr: number } | null>(null);
+
+  useEffect(() => {
+    if (!onReady) return;
+    const api: SceneCaptureApi = {
+      canvas: get().gl.domElement,
+      beginCapture: (width, height) => {
+        const { gl, camera, size, viewport } = get();
+        saved.current = { frustum: [0, 0, 0, 0], aspect: width / height, dpr: viewport.dpr };
+        if (camera instanceof THREE.OrthographicCamera) {
+          saved.current.frustum = [camera.left, camera.right, camera.top, camera.bottom];
+          // Same vertical extent as on screen; the width follows the output aspect
+          const halfHeight = size.height / 2;
+          const halfWidth = halfHeight * (width / height);
+          camera.left = -halfWidth;
+          camera.right = halfWidth;
+          camera.top = halfHeight;
+          camera.bottom = -halfHeight;
+        } else if (camera instanceof THREE.PerspectiveCamera) {
+          saved.current.aspect = camera.aspect;
+          camera.aspect = width / height;
+        }
+        camera.updateProjectionMatrix();
+        gl.setPixelRatio(1);
+        gl.setSize(width, height, false);
+      },
+      endCapture: () => {
+        const { gl, camera, size } = get();
+        const s = saved.current;
+        if (!s) return;
+        if (camera instanceof THREE.OrthographicCamera) {
+          [camera.left, camera.right, camera.top, camera.bottom] = s.frustum;
+        } else if (camera instanceof THREE.PerspectiveCamera) {
+          camera.aspect = s.aspect;
+        }
+        camera.updateProjectionMatrix();
+        gl.setPixelRatio(s.dpr);
+        gl.setSize(size.width, size.height, false);
+        saved.current = null;
+      },
+      render: () => {
+        const { gl, scene, camera } = get();
+        gl.render(scene, camera);
+      },
+      advance: (time) => get().advance(time)
+    };
+    onReady(api);
+    return () => onReady(null);
+  }, [get, onReady]);
+
+  return null;
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { StructureDefinition } from '../types';
+import { StructureDefinitionError } from '../structureDefinitions';
+import { useLocale } from '../i18n';
+
+interface StructurePanelProps {
+  structure: StructureDefinition | null; // Definition of the current view (null = He Luo, always the presets)
+  isCustom: boolean;                     // A loaded file replaces the preset
+  error: StructureDefinitionError | null;
+  onLoad: () => void;                    // Opens the file picker (dropping works too)
+  onRestore: () => void;                 // Back to the preset, clears the error
+}
+
+// Custom structure definitions: which one the scene draws, why the last file
+// was refused, and the way back to the built-in preset.
+export const StructurePanel = ({ structure, isCustom, error, onLoad, onRestore }: StructurePanelProps) => {
+  const { t } = useLocale();
+
+  return (
+    <div className="bg-cyan-950/60 border border-cyan-500/30 rounded-sm backdrop-blur-md p-3 text-xs text-cyan-200 w-[240px] md:w-[300px] animate-fadeIn">
+      <div className="flex items-center justify-between gap-2">
+        <span className="tracking-[0.2em] text-cyan-100">{t('结构定义')}</span>
+        {structure && (
+          <span className={`text-[10px] tracking-widest truncate ${isCustom ? 'text-amber-300' : 'text-cyan-400'}`}>
+            {t(structure.name)}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <p role="alert" className="text-[10px] text-red-300 mt-2 break-words">{t(error.message, error.params)}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-1 mt-2">
+        <button
+          onClick={onLoad}
+          className="px-2 py-1 border border-cyan-500/30 rounded-sm hover:bg-cyan-900/40 transition-colors"
+        >
+          {t('载入 JSON…')}
+        </button>
+        <button
+          onClick={onRestore}
+          disabled={!isCustom && !error}
+          className="px-2 py-1 border border-cyan-500/30 rounded-sm hover:bg-cyan-900/40 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          {t('恢复内置')}
+        </button>
+      </div>
+      <p className="text-[10px] text-cyan-600 mt-1">{t('拖入符合 structures/schema.json 的文件即可替换点阵')}</p>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { HeLuoStage, HeTuForm, HeTuStructureDefinition, LoShuStructureDefinition, LoShuSymmetry, Polarity, ViewMode } from '../types';
+import { ELEMENT_NAMES } from '../constants';
+import { HETU_FORM_LABELS } from '../heTuTimeline';
+import { describeHeTuStructure, describeLoShuStructure } from '../accessibility';
+import { HETU_PRESET, LOSHU_PRESET } from '../structureDefinitions';
+import { useLocale } from '../i18n';
+
+interface StructureTableProps {
+  id: string;                        // Referenced by the scene's aria-describedby
+  viewMode: ViewMode;
+  heTuForm: HeTuForm;                // Form the He Tu shows or is heading for
+  hlStage: HeLuoStage;
+  magicSquare: number[][] | null;    // Open N×N square (replaces the Lo Shu)
+  magicConstant: number;
+  symmetry?: LoShuSymmetry;          // Orientation of the Lo Shu (the He Luo view always shows it upright)
+  heTuStructure?: HeTuStructureDefinition;   // Loaded structure definitions (He Luo keeps the presets)
+  loShuStructure?: LoShuStructureDefinition;
+}
+
+// Screen-reader copy of the scene: one table row per number group, so table
+// navigation reads number, polarity, dots, direction, element and placement.
+// Visually hidden; the canvas is the sighted version.
+export const StructureTable = ({ id, viewMode, heTuForm, hlStage, magicSquare, magicConstant, symmetry = LoShuSymmetry.IDENTITY, heTuStructure = HETU_PRESET, loShuStructure = LOSHU_PRESET }: StructureTableProps) => {
+  const { t, term } = useLocale();
+
+  const showsLoShu = viewMode === ViewMode.LOSHU || (viewMode === ViewMode.HELUO && hlStage === HeLuoStage.LOSHU);
+  const loShuSymmetry = viewMode === ViewMode.LOSHU ? symmetry : LoShuSymmetry.IDENTITY;
+  const loShuDefinition = viewMode === ViewMode.LOSHU ? loShuStructure : LOSHU_PRESET;
+  const heTuDefinition = viewMode === ViewMode.HETU ? heTuStructure : HETU_PRESET;
+  const rows = useMemo(() => showsLoShu ? describeLoShuStructure(loShuSymmetry, loShuDefinition)
+    // The transformation shows the flat He Tu, so its groups have no placement
+    : describeHeTuStructure(viewMode === ViewMode.HETU ? heTuForm : null, heTuDefinition),
+  [showsLoShu, viewMode, heTuForm, loShuSymmetry, loShuDefinition, heTuDefinition]);
+
+  const name = showsLoShu ? t('洛书')
+    : viewMode === ViewMode.HETU ? `${t('河图')} · ${t(HETU_FORM_LABELS[heTuForm])}`
+    : t('河图');
+  const yang = rows.filter(row => row.polarity === Polarity.YANG).reduce((sum, row) => sum + row.dotCount, 0);
+  const yin = rows.filter(row => row.polarity === Polarity.YIN).reduce((sum, row) => sum + row.dotCount, 0);
+  const hasTrigrams = rows.some(row => row.trigram);
+  const hasPlacement = rows.some(row => row.placement.length > 0);
+
+  return (
+    <section id={id} className="sr-only" aria-labelledby={`${id}-title`}>
+      <h2 id={`${id}-title`}>{t('当前结构')}</h2>
+      {viewMode === ViewMode.LOSHU && magicSquare ? (
+        <table>
+          <caption>{t('{n} 阶幻方，幻和 {sum}', { n: magicSquare.length, sum: magicConstant })}</caption>
+          <tbody>
+            {magicSquare.map((values, r) => (
+              <tr key={r}>
+                <th scope="row">{t('第 {row} 行', { row: r + 1 })}</th>
+                {values.map((value, c) => <td key={c}>{value}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <table>
+          <caption>{t('{name}：{dots} 点，阳 {yang} · 阴 {yin}', { name, dots: yang + yin, yang, yin })}</caption>
+          <thead>
+            <tr>
+              <th scope="col">{t('数')}</th>
+              <th scope="col">{t('阴阳')}</th>
+              <th scope="col">{t('点数')}</th>
+              <th scope="col">{t('方位')}</th>
+              <th scope="col">{t('五行')}</th>
+              {hasTrigrams && <th scope="col">{t('卦')}</th>}
+              {hasPlacement && <th scope="col">{t('位置')}</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.numberValue}>
+                <th scope="row">{row.numberValue}</th>
+                <td>{t(row.polarity === Polarity.YANG ? '阳 (奇)' : '阴 (偶)')}</td>
+                <td>{row.dotCount}</td>
+                <td>{term(row.direction)}</td>
+                <td>{term(ELEMENT_NAMES[row.element])}</td>
+                {hasTrigrams && <td>{row.trigram ? term(row.trigram) : ''}</td>}
+                {hasPlacement && <td>{row.placement.map(label => t(label)).join(' · ')}</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
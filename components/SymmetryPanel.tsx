@@ -0,0 +1,92 @@
+import React from 'react';
+import { LoShuSymmetry } from '../types';
+import { verifyMagicSquare } from '../magicSquare';
+import { LOSHU_SYMMETRIES, LOSHU_SYMMETRY_LABELS, composeSymmetry, getOrientedLoShu } from '../loShuSymmetry';
+import { useLocale } from '../i18n';
+
+interface SymmetryPanelProps {
+  symmetry: LoShuSymmetry;
+  onChange: (symmetry: LoShuSymmetry) => void;
+}
+
+// Turns and flips applied on top of the current orientation
+const STEPS: { symmetry: LoShuSymmetry, label: string }[] = [
+  { symmetry: LoShuSymmetry.ROTATE_90, label: '↺ 90°' },
+  { symmetry: LoShuSymmetry.ROTATE_270, label: '↻ 90°' },
+  { symmetry: LoShuSymmetry.FLIP_HORIZONTAL, label: '东西翻转' },
+  { symmetry: LoShuSymmetry.FLIP_VERTICAL, label: '南北翻转' }
+];
+
+const OrientationThumbnail = ({ symmetry, active, onClick }: { symmetry: LoShuSymmetry, active: boolean, onClick: () => void }) => {
+  const { t } = useLocale();
+  const isCanonical = symmetry === LoShuSymmetry.IDENTITY;
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={active}
+      aria-label={t(LOSHU_SYMMETRY_LABELS[symmetry])}
+      title={t(LOSHU_SYMMETRY_LABELS[symmetry])}
+      className={`p-1 flex flex-col items-center gap-1 rounded-sm border transition-colors
+        ${active ? 'bg-cyan-800/60 border-cyan-400/60' : isCanonical ? 'border-amber-500/40 hover:bg-cyan-900/40' : 'border-cyan-500/20 hover:bg-cyan-900/40'}`}
+    >
+      <span className="grid grid-cols-3 gap-px font-mono text-[9px] leading-none">
+        {getOrientedLoShu(symmetry).flat().map((value, i) => (
+          <span key={i} className={`w-3 h-3 flex items-center justify-center ${value === 9 ? 'text-amber-300' : active ? 'text-white' : 'text-cyan-300'}`}>{value}</span>
+        ))}
+      </span>
+      <span className={`text-[8px] tracking-widest ${isCanonical ? 'text-amber-400' : 'text-cyan-600'}`}>{isCanonical ? t('标准') : ' '}</span>
+    </button>
+  );
+};
+
+// Lo Shu symmetry explorer: the eight orientations (D4) of the square. The
+// scene glides the dots to their new palaces; every orientation still sums to 15.
+export const SymmetryPanel = ({ symmetry, onChange }: SymmetryPanelProps) => {
+  const { t } = useLocale();
+  const report = verifyMagicSquare(getOrientedLoShu(symmetry));
+
+  return (
+    <div className="bg-cyan-950/60 border border-cyan-500/30 rounded-sm backdrop-blur-md p-3 text-xs text-cyan-200 w-[240px] md:w-[300px] animate-fadeIn">
+      <div className="flex items-center justify-between">
+        <span className="tracking-[0.2em] text-cyan-100">{t('对称')}</span>
+        <span className="text-[10px] text-cyan-400 tracking-widest">{t(LOSHU_SYMMETRY_LABELS[symmetry])}</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1 mt-2">
+        {STEPS.map(step => (
+          <button
+            key={step.symmetry}
+            onClick={() => onChange(composeSymmetry(symmetry, step.symmetry))}
+            className="px-1 py-1 border border-cyan-500/30 rounded-sm hover:bg-cyan-900/40 transition-colors tracking-widest text-[10px]"
+          >
+            {t(step.label)}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-1 mt-2" role="group" aria-label={t('洛书的八种方位')}>
+        {LOSHU_SYMMETRIES.map(option => (
+          <OrientationThumbnail key={option} symmetry={option} active={option === symmetry} onClick={() => onChange(option)} />
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-2">
+        <span className={`text-[10px] tracking-widest ${report.isMagic ? 'text-cyan-400' : 'text-red-300'}`}>
+          {report.isMagic
+            ? t('{count} 线皆为 {sum}', { count: report.lines.length, sum: report.magicConstant })
+            : t('{count} 线失衡', { count: report.brokenLines.length })}
+        </span>
+        <button
+          onClick={() => onChange(LoShuSymmetry.IDENTITY)}
+          disabled={symmetry === LoShuSymmetry.IDENTITY}
+          className="px-2 py-1 border border-cyan-500/30 rounded-sm hover:bg-cyan-900/40 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          {t('复原')}
+        </button>
+      </div>
+      <p className="text-[10px] text-cyan-600 mt-1">
+        {symmetry === LoShuSymmetry.IDENTITY ? t('戴九履一：标准方位') : t('由戴九履一旋转或翻转而得')}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HeTuForm, HeTuKeyframe, TimelineEasing } from '../types';
+import { createDefaultSequence, createKeyframe, getKeyframeTimes, getSequenceDuration, sampleHeTuSequence, HETU_FORM_LABELS, TIMELINE_EASING_LABELS } from '../heTuTimeline';
+import { useLocale } from '../i18n';
+
+interface TimelinePanelProps {
+  keyframes: HeTuKeyframe[];
+  onKeyframesChange: (keyframes: HeTuKeyframe[]) => void;
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  loop: boolean;
+  onLoopChange: (loop: boolean) => void;
+  playheadRef: React.MutableRefObject<number>; // Advanced by HeTuScene while playing
+}
+
+const STEP = 0.1; // Seconds per step button press
+
+const FIELD_CLASS = "bg-transparent text-cyan-200 px-1 py-0.5 rounded border border-cyan-500/30 outline-none";
+const BUTTON_CLASS = "px-2 py-1 border border-cyan-500/30 rounded-sm hover:bg-cyan-900/40 transition-colors disabled:opacity-30";
+
+// Scrubber and keyframe editor for the He Tu morph. The playhead lives in a ref
+// so playback does not re-render the app; this panel polls it once per frame.
+export const TimelinePanel = ({ keyframes, onKeyframesChange, playing, onPlayingChange, loop, onLoopChange, playheadRef }: TimelinePanelProps) => {
+  const { t } = useLocale();
+  const duration = useMemo(() => getSequenceDuration(keyframes), [keyframes]);
+  const keyframeTimes = useMemo(() => getKeyframeTimes(keyframes), [keyframes]);
+  const [playhead, setPlayhead] = useState(playheadRef.current);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      setPlayhead(playheadRef.current);
+      if (playing && !loop && playheadRef.current >= duration) onPlayingChange(false);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playheadRef, playing, loop, duration, onPlayingChange]);
+
+  const seek = (time: number) => {
+    playheadRef.current = Math.max(0, Math.min(time, duration));
+    setPlayhead(playheadRef.current);
+    onPlayingChange(false); // Scrubbing always stops playback where the user lets go
+  };
+
+  const handlePlay = () => {
+    if (playing) {
+      onPlayingChange(false);
+      return;
+    }
+    if (playheadRef.current >= duration) playheadRef.current = 0;
+    onPlayingChange(true);
+  };
+
+  const updateKeyframe = (id: string, patch: Partial<HeTuKeyframe>) => {
+    onKeyframesChange(keyframes.map(kf => kf.id === id ? { ...kf, ...patch } : kf));
+  };
+
+  const moveKeyframe = (index: number, offset: number) => {
+    const next = [...keyframes];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onKeyframesChange(next);
+  };
+
+  const parseSeconds = (raw: string) => Math.max(0, Number(raw) || 0);
+  const pose = sampleHeTuSequence(keyframes, playhead);
+
+  return (
+    <div className="absolute left-1/2 -translate-x-1/2 bottom-28 md:bottom-32 w-[min(640px,calc(100%-3rem))] pointer-events-auto bg-cyan-950/60 border border-cyan-500/30 rounded-sm backdrop-blur-md p-3 text-xs text-cyan-200 animate-fadeIn">
+      {/* Transport */}
+      <div className="flex items-center gap-2">
+        <button onClick={() => seek(0)} className={BUTTON_CLASS} title={t('回到开头')}>⏮</button>
+        <button onClick={() => seek(playheadRef.current - STEP)} className={BUTTON_CLASS} title={t('后退 {step}s', { step: STEP })}>◀</button>
+        <button onClick={handlePlay} disabled={duration <= 0} className={`${BUTTON_CLASS} min-w-[48px] ${playing ? 'bg-cyan-800/60 text-white' : ''}`}>
+          {t(playing ? '暂停' : '播放')}
+        </button>
+        <button onClick={() => seek(playheadRef.current + STEP)} className={BUTTON_CLASS} title={t('前进 {step}s', { step: STEP })}>▶</button>
+        <button onClick={() => seek(duration)} className={BUTTON_CLASS} title={t('跳到结尾')}>⏭</button>
+        <button onClick={() => onLoopChange(!loop)} aria-pressed={loop} className={`${BUTTON_CLASS} ${loop ? 'bg-cyan-800/60 text-white' : ''}`} title={t('循环播放')}>{t('循环')}</button>
+        <span className="ml-auto tabular-nums tracking-widest text-cyan-100">
+          {playhead.toFixed(2)} / {duration.toFixed(2)}s
+        </span>
+      </div>
+
+      {/* Scrubber with keyframe markers */}
+      <div className="relative mt-3 mb-1">
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.01}
+          value={Math.min(playhead, duration)}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="w-full accent-cyan-400 cursor-pointer"
+        />
+        <div className="relative h-3">
+          {duration > 0 && keyframeTimes.map((time, i) => (
+            <button
+              key={keyframes[i].id}
+              onClick={() => seek(time + (i === 0 ? 0 : keyframes[i].duration))}
+              className="absolute -translate-x-1/2 text-[9px] text-cyan-400 hover:text-white"
+              style={{ left: `${((time + (i === 0 ? 0 : keyframes[i].duration)) / duration) * 100}%` }}
+              title={t('跳到 {form}', { form: t(HETU_FORM_LABELS[keyframes[i].form]) })}
+            >
+              ◆
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-[10px] text-cyan-400 tracking-widest mb-2">
+        {t('展开 {percent}%', { percent: Math.round(pose.morph * 100) })} · {pose.from === pose.to ? t(HETU_FORM_LABELS[pose.to]) : `${t(HETU_FORM_LABELS[pose.from])} → ${t(HETU_FORM_LABELS[pose.to])} ${Math.round(pose.blend * 100)}%`} · {t('旋转 {time}s', { time: pose.time.toFixed(2) })}
+      </p>
+
+      {/* Keyframe list */}
+      <div className="border-t border-cyan-500/20 pt-2 max-h-[160px] overflow-y-auto">
+        <div className="grid grid-cols-[1.5rem_1fr_3.5rem_3.5rem_1fr_auto] items-center gap-x-2 gap-y-1">
+          <span></span>
+          <span className="text-[10px] text-cyan-500 tracking-widest">{t('形态')}</span>
+          <span className="text-[10px] text-cyan-500 tracking-widest">{t('过渡 s')}</span>
+          <span className="text-[10px] text-cyan-500 tracking-widest">{t('停留 s')}</span>
+          <span className="text-[10px] text-cyan-500 tracking-widest">{t('缓动')}</span>
+          <span></span>
+          {keyframes.map((kf, i) => (
+            <React.Fragment key={kf.id}>
+              <span className="text-cyan-500 tabular-nums">{i + 1}</span>
+              <select value={kf.form} onChange={(e) => updateKeyframe(kf.id, { form: e.target.value as HeTuForm })} className={`${FIELD_CLASS} cursor-pointer`}>
+                {(Object.keys(HETU_FORM_LABELS) as HeTuForm[]).map(form => (
+                  <option key={form} value={form} className="bg-cyan-950">{t(HETU_FORM_LABELS[form])}</option>
+                ))}
+              </select>
+              <input
+                type="number" min={0} step={0.5}
+                value={i === 0 ? 0 : kf.duration}
+                disabled={i === 0} // The sequence starts on the first keyframe
+                onChange={(e) => updateKeyframe(kf.id, { duration: parseSeconds(e.target.value) })}
+                className={`${FIELD_CLASS} w-full disabled:opacity-30`}
+              />
+              <input
+                type="number" min={0} step={0.5}
+                value={kf.hold}
+                onChange={(e) => updateKeyframe(kf.id, { hold: parseSeconds(e.target.value) })}
+                className={`${FIELD_CLASS} w-full`}
+              />
+              <select
+                value={kf.easing}
+                disabled={i === 0}
+                onChange={(e) => updateKeyframe(kf.id, { easing: e.target.value as TimelineEasing })}
+                className={`${FIELD_CLASS} cursor-pointer disabled:opacity-30`}
+              >
+                {Object.values(TimelineEasing).map(easing => (
+                  <option key={easing} value={easing} className="bg-cyan-950">{t(TIMELINE_EASING_LABELS[easing])}</option>
+                ))}
+              </select>
+              <div className="flex gap-1">
+                <button onClick={() => moveKeyframe(i, -1)} disabled={i === 0} className="px-1 text-cyan-400 hover:text-white disabled:opacity-20" title={t('上移')}>↑</button>
+                <button onClick={() => moveKeyframe(i, 1)} disabled={i === keyframes.length - 1} className="px-1 text-cyan-400 hover:text-white disabled:opacity-20" title={t('下移')}>↓</button>
+                <button
+                  onClick={() => onKeyframesChange(keyframes.filter(k => k.id !== kf.id))}
+                  disabled={keyframes.length <= 1}
+                  className="px-1 text-cyan-400 hover:text-red-300 disabled:opacity-20"
+                  title={t('删除')}
+                >
+                  ✕
+                </button>
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-2">
+        <button
+          onClick={() => onKeyframesChange([...keyframes, createKeyframe(keyframes[keyframes.length - 1]?.form === 'CUBE' ? 'GALAXY' : 'CUBE')])}
+          className={BUTTON_CLASS}
+        >
+          {t('+ 关键帧')}
+        </button>
+        <button onClick={() => { onKeyframesChange(createDefaultSequence()); seek(0); }} className={BUTTON_CLASS}>
+          {t('恢复默认')}
+        </button>
+      </div>
+    </div>
+  );
+};
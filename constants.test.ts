@@ -0,0 +1,292 @@
+import { describe, expect, it } from 'vitest';
+import {
+  generateHeTuPoints, sortHeTuPoints, generateGalaxyMap, generateHelixMap, generateLoShuPoints, generateLoShuEnergyPath,
+  CUBE_SIZE, SPHERE_RADIUS, PROJECTION_RADIUS, LOSHU_GRID_SIZE, LOSHU_ENERGY_ROUTES
+} from './constants';
+import { LOSHU_SYMMETRIES, getPalaceSlot } from './loShuSymmetry';
+import { GalaxyPointConfig, GalaxyPointType, HeTuPoint, LoShuSymmetry, Polarity } from './types';
+
+// Geometry generators: invariants the scenes rely on, plus snapshots of the
+// generated maps so a layout change shows up as a diff. Plain Node, no WebGL.
+
+const EPSILON = 1e-9;
+const length = ([x, y, z]: [number, number, number]) => Math.hypot(x, y, z);
+
+const countBy = <T,>(items: T[], key: (item: T) => number) =>
+  items.reduce<Record<number, number>>((counts, item) => ({ ...counts, [key(item)]: (counts[key(item)] ?? 0) + 1 }), {});
+
+// Snapshots hold 6 decimals, so a last-bit difference in Math.sin between engines doesn't fail them
+const round = (value: unknown): unknown =>
+  typeof value === 'number' ? Math.round(value * 1e6) / 1e6 + 0
+  : Array.isArray(value) ? value.map(round)
+  : value && typeof value === 'object' ? Object.fromEntries(Object.entries(value).map(([key, v]) => [key, round(v)]))
+  : value;
+
+const ONE_TO_TEN = Object.fromEntries(Array.from({ length: 10 }, (_, i) => [i + 1, i + 1]));
+const ONE_TO_NINE = Object.fromEntries(Array.from({ length: 9 }, (_, i) => [i + 1, i + 1]));
+
+describe('generateHeTuPoints', () => {
+  const points = generateHeTuPoints();
+
+  it('draws 55 dots, n of each number n', () => {
+    expect(points).toHaveLength(55);
+    expect(countBy(points, p => p.numberValue)).toEqual(ONE_TO_TEN);
+  });
+
+  it('gives every dot a unique id', () => {
+    expect(new Set(points.map(p => p.id)).size).toBe(points.length);
+  });
+
+  it('makes odd numbers Yang and even numbers Yin', () => {
+    points.forEach(p => expect(p.polarity).toBe(p.numberValue % 2 ? Polarity.YANG : Polarity.YIN));
+  });
+
+  it('puts Heaven on the back face, Earth on the front and the 5 / 10 on the pivot layer', () => {
+    points.forEach(p => {
+      const z = p.group === 'center' ? 0 : p.polarity === Polarity.YANG ? -CUBE_SIZE / 2 : CUBE_SIZE / 2;
+      expect(p.z).toBe(z);
+      expect(Math.abs(p.x)).toBeLessThanOrEqual(CUBE_SIZE / 2);
+      expect(Math.abs(p.y)).toBeLessThanOrEqual(CUBE_SIZE / 2);
+    });
+  });
+
+  it('keeps each pair of a side on that side', () => {
+    const side: Record<HeTuPoint['group'], (p: HeTuPoint) => boolean> = {
+      north: p => p.y < 0 && Math.abs(p.x) < Math.abs(p.y),
+      south: p => p.y > 0 && Math.abs(p.x) < Math.abs(p.y),
+      east: p => p.x < 0 && Math.abs(p.y) < Math.abs(p.x),
+      west: p => p.x > 0 && Math.abs(p.y) < Math.abs(p.x),
+      center: p => Math.hypot(p.x, p.y) < 5
+    };
+    points.forEach(p => expect(side[p.group](p)).toBe(true));
+  });
+});
+
+describe('sortHeTuPoints', () => {
+  const points = generateHeTuPoints();
+
+  it('keeps only the numbers of the sequence, in sequence order', () => {
+    const sorted = sortHeTuPoints(points, [1, 3, 7, 9]);
+    expect(sorted).toHaveLength(1 + 3 + 7 + 9);
+    const order = sorted.map(p => p.numberValue).filter((n, i, all) => all.indexOf(n) === i);
+    expect(order).toEqual([1, 3, 7, 9]);
+  });
+
+  it('follows the given order, not numeric order', () => {
+    expect(sortHeTuPoints(points, [8, 2]).map(p => p.numberValue)).toEqual([...Array(8).fill(8), 2, 2]);
+  });
+
+  it('runs 4, 6 and 9 backwards so the arms flow on from the previous group', () => {
+    const ids = (n: number) => sortHeTuPoints(points, [n]).map(p => p.id);
+    [4, 6, 9].forEach(n => expect(ids(n)).toEqual([...ids(n)].sort().reverse()));
+    [3, 7, 8].forEach(n => expect(ids(n)).toEqual([...ids(n)].sort()));
+  });
+
+  it('does not touch its input', () => {
+    const before = points.map(p => p.id);
+    sortHeTuPoints(points, [2, 4, 6, 8]);
+    expect(points.map(p => p.id)).toEqual(before);
+  });
+});
+
+describe('generateGalaxyMap', () => {
+  const points = generateHeTuPoints();
+  const map = generateGalaxyMap(points);
+
+  it('places every dot', () => {
+    expect(Object.keys(map).sort()).toEqual(points.map(p => p.id).sort());
+  });
+
+  it('keeps the 5 as the core and rings the 10 at a fixed radius', () => {
+    points.filter(p => p.numberValue === 5).forEach(p => {
+      expect(map[p.id].type).toBe(GalaxyPointType.CORE);
+      expect(map[p.id].r).toBeCloseTo(Math.hypot(p.x, p.y));
+    });
+    const ring = points.filter(p => p.numberValue === 10).map(p => map[p.id]);
+    ring.forEach(config => {
+      expect(config.type).toBe(GalaxyPointType.RING);
+      expect(config.r).toBe(2.5);
+    });
+    expect(new Set(ring.map(config => config.thetaStart.toFixed(6))).size).toBe(ring.length);
+  });
+
+  it('winds each arm outwards from its starting angle', () => {
+    [[1, 3, 7, 9], [2, 4, 6, 8]].forEach(sequence => {
+      const arm = sortHeTuPoints(points, sequence).map(p => map[p.id]);
+      arm.forEach(config => expect(config.type).toBe(GalaxyPointType.ARM));
+      arm.slice(1).forEach((config, i) => {
+        expect(config.r).toBeGreaterThan(arm[i].r);
+        expect(config.thetaStart).toBeLessThan(arm[i].thetaStart);
+      });
+    });
+  });
+
+  it('matches the snapshot', () => {
+    expect(round(map)).toMatchSnapshot();
+  });
+});
+
+describe('generateHelixMap', () => {
+  const points = generateHeTuPoints();
+  const map = generateHelixMap(points);
+  const strand = (sequence: number[]): GalaxyPointConfig[] => sortHeTuPoints(points, sequence).map(p => map[p.id]);
+
+  it('places every dot', () => {
+    expect(Object.keys(map).sort()).toEqual(points.map(p => p.id).sort());
+  });
+
+  it('centres both strands on y = 0', () => {
+    [[1, 3, 7, 9], [2, 4, 6, 8]].forEach(sequence => {
+      const heights = strand(sequence).map(config => config.yOffset!);
+      expect(Math.min(...heights) + Math.max(...heights)).toBeCloseTo(0, 9);
+    });
+  });
+
+  it('climbs and widens each strand like a cone', () => {
+    [[1, 3, 7, 9], [2, 4, 6, 8]].forEach(sequence => {
+      const configs = strand(sequence);
+      expect(configs[0].r).toBe(5.5);
+      expect(configs[configs.length - 1].r).toBe(15);
+      configs.slice(1).forEach((config, i) => {
+        expect(config.yOffset!).toBeGreaterThan(configs[i].yOffset!);
+        expect(config.r).toBeGreaterThan(configs[i].r);
+      });
+    });
+  });
+
+  it('keeps the centre dots on the axis plane', () => {
+    points.filter(p => p.group === 'center').forEach(p => expect(map[p.id].yOffset).toBe(0));
+  });
+
+  it('matches the snapshot', () => {
+    expect(round(map)).toMatchSnapshot();
+  });
+});
+
+describe('generateLoShuPoints', () => {
+  const points = generateLoShuPoints();
+
+  it('draws 45 dots, n in palace n', () => {
+    expect(points).toHaveLength(45);
+    expect(countBy(points, p => p.numberValue)).toEqual(ONE_TO_NINE);
+  });
+
+  it('gives every dot a unique id', () => {
+    expect(new Set(points.map(p => p.id)).size).toBe(points.length);
+  });
+
+  it('makes odd numbers Yang and even numbers Yin', () => {
+    points.forEach(p => expect(p.polarity).toBe(p.numberValue % 2 ? Polarity.YANG : Polarity.YIN));
+  });
+
+  it('labels the first dot of each palace with its trigram and direction', () => {
+    const firsts = points.filter(p => p.id.endsWith('-0'));
+    expect(firsts).toHaveLength(9);
+    firsts.forEach(p => {
+      expect(p.trigram).toBeTruthy();
+      expect(p.direction).toBeTruthy();
+    });
+    points.filter(p => !p.id.endsWith('-0')).forEach(p => expect(p.trigram).toBeUndefined());
+  });
+
+  describe.each(LOSHU_SYMMETRIES)('under %s', symmetry => {
+    const oriented = generateLoShuPoints(symmetry);
+
+    it('puts every dot but the core on the sphere', () => {
+      oriented.filter(p => p.numberValue !== 5).forEach(p => expect(length(p.spherePos)).toBeCloseTo(SPHERE_RADIUS, 9));
+    });
+
+    it('keeps the core flat at the centre', () => {
+      oriented.filter(p => p.numberValue === 5).forEach(p => {
+        expect(p.spherePos[2]).toBe(0);
+        expect(length(p.spherePos)).toBeLessThan(1);
+      });
+    });
+
+    it('projects inside the disc', () => {
+      oriented.forEach(p => {
+        expect(p.projectionPos[2]).toBe(0);
+        expect(length(p.projectionPos)).toBeLessThanOrEqual(PROJECTION_RADIUS + EPSILON);
+      });
+    });
+
+    it('lays each palace out around its slot of the grid', () => {
+      oriented.forEach(p => {
+        const [gx, gy] = getPalaceSlot(p.numberValue, symmetry);
+        expect(Math.abs(p.planePos[0] - gx * LOSHU_GRID_SIZE)).toBeLessThan(LOSHU_GRID_SIZE / 2);
+        expect(Math.abs(p.planePos[1] - gy * LOSHU_GRID_SIZE)).toBeLessThan(LOSHU_GRID_SIZE / 2);
+        expect(p.planePos[2]).toBe(0);
+      });
+    });
+
+    it('keeps the same dots as the upright square', () => {
+      expect(oriented.map(p => [p.id, p.numberValue, p.polarity])).toEqual(points.map(p => [p.id, p.numberValue, p.polarity]));
+    });
+  });
+
+  it('matches the snapshot', () => {
+    expect(round(points)).toMatchSnapshot();
+  });
+});
+
+describe('generateLoShuEnergyPath', () => {
+  const TUBE_RADIUS = SPHERE_RADIUS * 1.15; // Default radiusScale
+
+  it('samples each leg and ends on the last palace', () => {
+    const sequence = [1, 2, 3, 4, 5, 6, 7, 8, 9, 1];
+    const path = generateLoShuEnergyPath(sequence, LoShuSymmetry.IDENTITY, undefined, undefined, 16);
+    expect(path).toHaveLength((sequence.length - 1) * 16 + 1);
+    expect(path[path.length - 1].distanceTo(path[0])).toBeLessThan(EPSILON); // 1 → … → 1 closes the loop
+  });
+
+  it('paves the sphere between outer palaces and dives through the core', () => {
+    const path = generateLoShuEnergyPath([4, 5, 6], LoShuSymmetry.IDENTITY, undefined, undefined, 8);
+    expect(path[8].length()).toBe(0); // The 5
+    [path[0], path[16]].forEach(v => expect(v.length()).toBeCloseTo(TUBE_RADIUS, 9));
+
+    const surface = generateLoShuEnergyPath([9, 2, 7, 6, 1], LoShuSymmetry.IDENTITY);
+    surface.forEach(v => expect(v.length()).toBeCloseTo(TUBE_RADIUS, 9));
+  });
+
+  // Legs touching the 5 dive through the core; the others stay on the tube radius.
+  // Neighbouring samples are never further apart than half a great circle's step.
+  const expectWellFormed = (sequence: number[], symmetry: LoShuSymmetry, segments: number) => {
+    const path = generateLoShuEnergyPath(sequence, symmetry, undefined, undefined, segments);
+    const maxGap = Math.PI * TUBE_RADIUS / segments + EPSILON;
+    expect(path).toHaveLength((sequence.length - 1) * segments + 1);
+    sequence.slice(1).forEach((to, leg) => {
+      const samples = path.slice(leg * segments, (leg + 1) * segments + 1);
+      samples.slice(1).forEach((v, i) => expect(v.distanceTo(samples[i])).toBeLessThanOrEqual(maxGap));
+      if (sequence[leg] !== 5 && to !== 5) samples.forEach(v => expect(v.length()).toBeCloseTo(TUBE_RADIUS, 9));
+    });
+    return path;
+  };
+
+  it('runs every route of the layer in every orientation', () => {
+    LOSHU_SYMMETRIES.forEach(symmetry => LOSHU_ENERGY_ROUTES.forEach(route => route.sequences.forEach(sequence => {
+      expectWellFormed(sequence, symmetry, 16);
+    })));
+  });
+
+  it('crosses between opposite palaces over the front of the sphere', () => {
+    [[9, 1], [1, 9], [3, 7], [7, 3], [2, 8], [4, 6]].forEach(sequence => LOSHU_SYMMETRIES.forEach(symmetry => {
+      const path = expectWellFormed(sequence, symmetry, 16);
+      expect(path[0].clone().add(path[16]).length()).toBeLessThan(EPSILON); // Antipodal ends
+      expect(path[8].z).toBeGreaterThanOrEqual(-EPSILON);                   // Never round the back
+    }));
+    const halfway = generateLoShuEnergyPath([9, 1], LoShuSymmetry.IDENTITY, undefined, undefined, 2)[1];
+    expect(round(halfway.toArray())).toEqual([0, 0, round(TUBE_RADIUS)]); // 9 → 1 passes through the front pole
+  });
+
+  it('starts from the palace a symmetry moved the number to', () => {
+    const upright = generateLoShuEnergyPath([9, 1], LoShuSymmetry.IDENTITY);
+    const flipped = generateLoShuEnergyPath([9, 1], LoShuSymmetry.FLIP_VERTICAL);
+    expect(upright[0].y).toBeCloseTo(TUBE_RADIUS, 9);  // 9 at the South pole (top)
+    expect(flipped[0].y).toBeCloseTo(-TUBE_RADIUS, 9); // Flipped to the bottom
+  });
+
+  it('matches the snapshot', () => {
+    const path = generateLoShuEnergyPath(undefined, LoShuSymmetry.IDENTITY, undefined, undefined, 4);
+    expect(round(path.map(v => [v.x, v.y, v.z]))).toMatchSnapshot();
+  });
+});
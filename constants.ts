@@ -1,112 +1,29 @@
-import { HeTuPoint, Polarity, GalaxyPointConfig, GalaxyPointType, LoShuPointData } from './types';
+import { HeTuPoint, Polarity, HeTuStructureDefinition, LoShuStructureDefinition, GalaxyPointConfig, GalaxyPointType, LoShuPointData, LoShuEnergyRoute, LoShuSumLine, FiveElement, NumberInfo, ViewMode, ElementCycle, HeLuoPointPair, LoShuLayerState, LoShuSymmetry } from './types';
 import * as THREE from 'three';
+import { applySymmetry, getOrientedPalace, getPalaceSlot } from './loShuSymmetry';
+import { HETU_PRESET, LOSHU_PRESET, getPatternDots } from './structureDefinitions';
 
-// --- CUBIC STRUCTURE CONFIGURATION (v1.0 Frozen) ---
+// --- CUBIC STRUCTURE CONFIGURATION ---
 
 const L = 20;        // Length of the Cube Side
-const Z_HEAVEN = -L / 2;  // Back Face
-const Z_EARTH = L / 2;    // Front Face
-const Z_CENTER = 0;       // Pivot Layer
-
-const SPACING = 1.2;      // Dot spacing
-const EDGE_MARGIN = 2.0;  // How far from the absolute edge the dots sit
-
-// Coordinates for faces
-const TOP_Y = L / 2 - EDGE_MARGIN;
-const BOTTOM_Y = -(L / 2 - EDGE_MARGIN);
-const LEFT_X = -(L / 2 - EDGE_MARGIN);   // Negative X
-const RIGHT_X = L / 2 - EDGE_MARGIN;     // Positive X
-
-// Helper to create a point
-const createPoint = (
-  id: string,
-  x: number,
-  y: number,
-  z: number,
-  polarity: Polarity,
-  group: HeTuPoint['group'],
-  numberValue: number
-): HeTuPoint => ({
-  id,
-  x,
-  y,
-  z,
-  polarity,
-  group,
-  numberValue,
-});
-
-export const generateHeTuPoints = (): HeTuPoint[] => {
-  const points: HeTuPoint[] = [];
-
-  // ==========================================
-  // 1. HEAVEN LAYER (Z = -L/2, Back) - Yang/White
-  // ==========================================
-  // SOUTH (Fire) - Top Edge - 7 White
-  for (let i = 0; i < 7; i++) {
-    const x = (i - 3) * SPACING;
-    points.push(createPoint(`heaven-7-${i}`, x, TOP_Y, Z_HEAVEN, Polarity.YANG, 'south', 7));
-  }
-  // NORTH (Water) - Bottom Edge - 1 White
-  points.push(createPoint(`heaven-1-0`, 0, BOTTOM_Y, Z_HEAVEN, Polarity.YANG, 'north', 1));
-  // WEST (Metal) - Right Edge (Visual Left from Back is +X)
-  for (let i = 0; i < 9; i++) {
-    const y = (i - 4) * SPACING;
-    points.push(createPoint(`heaven-9-${i}`, RIGHT_X, y, Z_HEAVEN, Polarity.YANG, 'west', 9));
-  }
-  // EAST (Wood) - Left Edge (Visual Right from Back is -X)
-  for (let i = 0; i < 3; i++) {
-    const y = (i - 1) * SPACING;
-    points.push(createPoint(`heaven-3-${i}`, LEFT_X, y, Z_HEAVEN, Polarity.YANG, 'east', 3));
-  }
 
-  // ==========================================
-  // 2. EARTH LAYER (Z = +L/2, Front) - Yin/Black
-  // ==========================================
-  // SOUTH (Fire) - Top Edge - 2 Black
-  for (let i = 0; i < 2; i++) {
-    const x = (i - 0.5) * SPACING;
-    points.push(createPoint(`earth-2-${i}`, x, TOP_Y, Z_EARTH, Polarity.YIN, 'south', 2));
-  }
-  // NORTH (Water) - Bottom Edge - 6 Black
-  for (let i = 0; i < 6; i++) {
-    const x = (i - 2.5) * SPACING;
-    points.push(createPoint(`earth-6-${i}`, x, BOTTOM_Y, Z_EARTH, Polarity.YIN, 'north', 6));
-  }
-  // EAST (Wood) - Left Edge - 8 Black
-  for (let i = 0; i < 8; i++) {
-    const y = (i - 3.5) * SPACING;
-    points.push(createPoint(`earth-8-${i}`, LEFT_X, y, Z_EARTH, Polarity.YIN, 'east', 8));
-  }
-  // WEST (Metal) - Right Edge - 4 Black
-  for (let i = 0; i < 4; i++) {
-    const y = (i - 1.5) * SPACING;
-    points.push(createPoint(`earth-4-${i}`, RIGHT_X, y, Z_EARTH, Polarity.YIN, 'west', 4));
-  }
-
-  // ==========================================
-  // 3. CENTER PIVOT LAYER (Z = 0) - Soil
-  // ==========================================
-  // 5 White (Heaven) - Cross Shape (+)
-  points.push(createPoint('center-5-mid', 0, 0, Z_CENTER, Polarity.YANG, 'center', 5));
-  points.push(createPoint('center-5-top', 0, SPACING, Z_CENTER, Polarity.YANG, 'center', 5));
-  points.push(createPoint('center-5-btm', 0, -SPACING, Z_CENTER, Polarity.YANG, 'center', 5));
-  points.push(createPoint('center-5-lft', -SPACING, 0, Z_CENTER, Polarity.YANG, 'center', 5));
-  points.push(createPoint('center-5-rgt', SPACING, 0, Z_CENTER, Polarity.YANG, 'center', 5));
-
-  // 10 Black (Earth) - Split into Top and Bottom rows
-  const CENTER_ROW_Y = 3 * SPACING;
-  for (let i = 0; i < 5; i++) {
-    const x = (i - 2) * SPACING;
-    points.push(createPoint(`center-10-top-${i}`, x, CENTER_ROW_Y, Z_CENTER, Polarity.YIN, 'center', 10));
-  }
-  for (let i = 0; i < 5; i++) {
-    const x = (i - 2) * SPACING;
-    points.push(createPoint(`center-10-btm-${i}`, x, -CENTER_ROW_Y, Z_CENTER, Polarity.YIN, 'center', 10));
-  }
-
-  return points;
-};
+// The dots themselves come from a structure definition (structures/hetu.json):
+// Heaven (Yang/White) on the back face at Z = -L/2, Earth (Yin/Black) on the
+// front face at Z = +L/2, the Soil 5 and 10 on the pivot layer at Z = 0, each
+// edge group 2 units in from the rim and spaced 1.2 apart.
+export const generateHeTuPoints = (definition: HeTuStructureDefinition = HETU_PRESET): HeTuPoint[] =>
+  definition.groups.flatMap(group => {
+    const [x, y, z] = group.position;
+    return getPatternDots(group.pattern, definition.unit).map(({ key, offset }) => ({
+      id: `${group.id}-${key}`,
+      x: x + offset[0],
+      y: y + offset[1],
+      z,
+      polarity: group.polarity,
+      group: group.group,
+      numberValue: group.numberValue
+    }));
+  });
 
 export const CUBE_SIZE = L;
 
@@ -298,22 +215,128 @@ export const generateHelixMap = (points: HeTuPoint[]): Record<string, GalaxyPoin
   return map;
 };
 
+// --- TAIJI (太极) ANIMATION CONFIGURATION ---
+// Each arm traces the outline of its fish: from the tail tip along the outer rim,
+// round the head and back down the S-curve. Yang fills the east half with its
+// head in the south, Yin the west half with its head in the north. The 10 form
+// the dark eye in the Yang head, the 5 the light eye in the Yin head, and the
+// whole figure turns as one.
+
+const TAIJI_RADIUS = 12;
+const TAIJI_INSET = 0.9;      // Pulls each outline into its own fish, so the two S-curves don't touch
+const TAIJI_GROUP_GAP = 2;    // Gap between number groups, in dot spacings
+const TAIJI_TAIL_GAP = 1;     // Gap from the tail tip to the first and last dot, in dot spacings
+const TAIJI_EYE_RING = 2.0;   // Radius of the 10 ring
+const TAIJI_SPEED = 0.5;
+
+interface TaijiArc {
+  cx: number;
+  cy: number;
+  r: number;
+  from: number; // Angles around the arc centre
+  to: number;
+}
+
+export const generateTaijiMap = (points: HeTuPoint[]): Record<string, GalaxyPointConfig> => {
+  const map: Record<string, GalaxyPointConfig> = {};
+  const half = TAIJI_RADIUS / 2;
+  const rimR = TAIJI_RADIUS - TAIJI_INSET; // Outer rim
+  const headR = half - TAIJI_INSET;        // Round its own head
+  const neckR = half + TAIJI_INSET;        // Round the other fish's head
+
+  // Tail tip of the Yang fish: where the rim meets the curve round the Yin head
+  const tailY = (neckR * neckR - rimR * rimR - half * half) / TAIJI_RADIUS;
+  const tailX = -Math.sqrt(rimR * rimR - tailY * tailY);
+
+  // Yang outline (east half, head at +Y); the Yin outline is the same turned by π
+  const yangOutline: TaijiArc[] = [
+    { cx: 0, cy: 0, r: rimR, from: Math.atan2(tailY, tailX) + Math.PI * 2, to: Math.PI / 2 },
+    { cx: 0, cy: half, r: headR, from: Math.PI / 2, to: -Math.PI / 2 },
+    { cx: 0, cy: -half, r: neckR, from: Math.PI / 2, to: Math.atan2(tailY + half, tailX) + Math.PI * 2 }
+  ];
+  const arcLengths = yangOutline.map(arc => arc.r * Math.abs(arc.to - arc.from));
+  const outlineLength = arcLengths.reduce((a, b) => a + b, 0);
+
+  const place = (id: string, x: number, y: number, type: GalaxyPointType, arcCenter?: { x: number, y: number }) => {
+    map[id] = {
+      type,
+      r: Math.sqrt(x * x + y * y),
+      thetaStart: Math.atan2(y, x),
+      speedFactor: TAIJI_SPEED,
+      zAmp: 0,
+      zFreq: 0,
+      arcCenter
+    };
+  };
+
+  // 1. ARMS ALONG THE OUTLINES
+  const createFishArm = (sequence: number[], turn: 1 | -1) => {
+    const armPoints = sortHeTuPoints(points, sequence);
+
+    // Distances along the outline, in dot spacings
+    const steps: number[] = [];
+    let position = TAIJI_TAIL_GAP;
+    armPoints.forEach((p, i) => {
+      if (i > 0) position += p.numberValue !== armPoints[i - 1].numberValue ? TAIJI_GROUP_GAP : 1;
+      steps.push(position);
+    });
+    const spacing = outlineLength / (position + TAIJI_TAIL_GAP);
+
+    armPoints.forEach((p, i) => {
+      let s = steps[i] * spacing;
+      let k = 0;
+      while (k < yangOutline.length - 1 && s > arcLengths[k]) {
+        s -= arcLengths[k];
+        k++;
+      }
+      const arc = yangOutline[k];
+      const angle = arc.from + (arc.to - arc.from) * (s / arcLengths[k]);
+      const x = arc.cx + arc.r * Math.cos(angle);
+      const y = arc.cy + arc.r * Math.sin(angle);
+      place(p.id, turn * x, turn * y, GalaxyPointType.ARM, { x: turn * arc.cx, y: turn * arc.cy });
+    });
+  };
+
+  createFishArm([1, 3, 7, 9], 1);
+  createFishArm([2, 4, 6, 8], -1);
+
+  // 2. EYES
+  // The 5 keep their cross, moved into the Yin head
+  points.filter(p => p.group === 'center' && p.polarity === Polarity.YANG).forEach(p => {
+    place(p.id, p.x, p.y - half, GalaxyPointType.EYE);
+  });
+
+  const eyeRing = points.filter(p => p.group === 'center' && p.polarity === Polarity.YIN);
+  eyeRing.forEach((p, i) => {
+    const angle = (i / eyeRing.length) * Math.PI * 2;
+    place(p.id, TAIJI_EYE_RING * Math.cos(angle), half + TAIJI_EYE_RING * Math.sin(angle), GalaxyPointType.EYE);
+  });
+
+  return map;
+};
+
 // ============================================================================
 // LO SHU CONSTANTS & GENERATION (STRICT GEOMETRY)
 // ============================================================================
 
 export const LOSHU_GRID_SIZE = 12; // Used for Plane Mode
 export const SPHERE_RADIUS = 18;   // R for Sphere Mode
+export const PROJECTION_RADIUS = SPHERE_RADIUS * 0.8; // Disc radius for Projection Mode
 
-const TRIGRAMS: Record<number, string> = {
+export const TRIGRAMS: Record<number, string> = {
   1: '坎', 2: '坤', 3: '震', 4: '巽', 5: '中', 6: '乾', 7: '兑', 8: '艮', 9: '离'
 };
+// Chinese numerals, shown (with pinyin) beside the Lo Shu numbers
+export const NUMERALS: Record<number, string> = {
+  1: '一', 2: '二', 3: '三', 4: '四', 5: '五', 6: '六', 7: '七', 8: '八', 9: '九', 10: '十'
+};
 // Updated directions based on 3D view: 3 is Left, 7 is Right
-const DIRECTIONS: Record<number, string> = {
+export const DIRECTIONS: Record<number, string> = {
   1: '北', 2: '西南', 3: '东', 4: '东南', 5: '中', 6: '西北', 7: '西', 8: '东北', 9: '南'
 };
 
-// --- STRICT SPHERICAL ANCHORS ---
+// --- SPHERICAL ANCHORS ---
+// The palace anchors come from the Lo Shu definition (structures/loshu.json).
 // Coordinate System:
 // +Y = South (Top - Fire)
 // -Y = North (Bottom - Water)
@@ -322,61 +345,37 @@ const DIRECTIONS: Record<number, string> = {
 // +Z = Front (Viewer)
 // -Z = Back
 
-// To create the "Quantum Motion" / "Vortex" effect seen in the reference,
-// the Corner numbers (2, 4, 6, 8) must form a tetrahedral structure inscribed in the sphere.
+// In the built-in preset the Corner numbers (2, 4, 6, 8) form a tetrahedral
+// structure inscribed in the sphere, for the "Vortex" effect of the reference.
 // 2 and 6 are pulled to the FRONT (+Z).
 // 4 and 8 are pushed to the BACK (-Z).
 // This ensures that opposites (2-8 and 4-6) pass through the center volume diagonally.
 
 const R = SPHERE_RADIUS;
 
-// Defines coordinates for corners of a cube inscribed in sphere
-// Magnitude for each component = R / sqrt(3)
-const D = R * 0.577; 
-
-// Rotated 45 degrees on XZ plane for 3 and 7 to match the twisted corners
-// 0.707 = 1/sqrt(2)
-const D_CROSS = R * 0.707;
-
-const LOSHU_ANCHORS: Record<number, THREE.Vector3> = {
-  // POLES
-  9: new THREE.Vector3(0, R, 0),       // South (Top)
-  1: new THREE.Vector3(0, -R, 0),      // North (Bottom)
-  
-  // EQUATORIALS (Twisted)
-  // 3 (East/Left) moves to Back-Left to align with 4 & 8
-  3: new THREE.Vector3(-D_CROSS, 0, -D_CROSS),
-  
-  // 7 (West/Right) moves to Front-Right to align with 2 & 6
-  7: new THREE.Vector3(D_CROSS, 0, D_CROSS),
-  
-  // CORNERS (Tetrahedral Twist)
-  
-  // 4 (SE - Top Left visually): Back (-Z)
-  // Position: Left (-X), Top (+Y), Back (-Z)
-  4: new THREE.Vector3(-D, D, -D),
-  
-  // 2 (SW - Top Right visually): Front (+Z)
-  // Position: Right (+X), Top (+Y), Front (+Z)
-  2: new THREE.Vector3(D, D, D),
-  
-  // 8 (NE - Bottom Left visually): Back (-Z)
-  // Position: Left (-X), Bottom (-Y), Back (-Z)
-  8: new THREE.Vector3(-D, -D, -D),
-  
-  // 6 (NW - Bottom Right visually): Front (+Z)
-  // Position: Right (+X), Bottom (-Y), Front (+Z)
-  6: new THREE.Vector3(D, -D, D),
-
-  // CORE
-  5: new THREE.Vector3(0, 0, 0),       // Center (Core)
-};
-
-// --- ROTATION HELPERS ---
-const rotate2D = (x: number, y: number, angleRad: number): [number, number] => {
-  const cos = Math.cos(angleRad);
-  const sin = Math.sin(angleRad);
-  return [x * cos - y * sin, x * sin + y * cos];
+// Palace anchors of a definition; an anchor at the origin is the flat core. The
+// preset's corners sit on a cube inscribed in the sphere (each component
+// R / sqrt(3) ≈ R * 0.577), with 3 and 7 rotated 45 degrees on the XZ plane
+// (R * 0.707 = R / sqrt(2)) to match the twisted corners, and the 5 at the origin.
+const getLoShuAnchors = (definition: LoShuStructureDefinition): Record<number, THREE.Vector3> =>
+  Object.fromEntries(definition.palaces.map(palace => [palace.numberValue, new THREE.Vector3(...palace.anchor)]));
+
+// --- DISC PROJECTION ---
+// Maps a point on the sphere back onto the flat XY disc, seen from the viewer (+Z).
+// Azimuthal equal-area (Lambert) projection centred on the front pole:
+//   rho = PROJECTION_RADIUS * sin(c / 2), c = angle from +Z
+// A pure stereographic projection would send the back-hemisphere palaces (3, 4, 8)
+// towards infinity; equal-area keeps the whole sphere inside the disc while
+// preserving direction, so 9 stays South (Top), 3 East (Left), 7 West (Right).
+export const projectToDisc = (v: THREE.Vector3): THREE.Vector3 => {
+  const n = v.clone().normalize();
+  const h = Math.sqrt(n.x * n.x + n.y * n.y);
+  if (h < 1e-6) {
+    // Front pole maps to centre, back pole to the rim (direction undefined -> North)
+    return n.z > 0 ? new THREE.Vector3(0, 0, 0) : new THREE.Vector3(0, -PROJECTION_RADIUS, 0);
+  }
+  const rho = PROJECTION_RADIUS * Math.sqrt((1 - n.z) / 2);
+  return new THREE.Vector3((n.x / h) * rho, (n.y / h) * rho, 0);
 };
 
 // --- PATH GENERATION (SLERP + Core Dive) ---
@@ -384,19 +383,23 @@ const rotate2D = (x: number, y: number, angleRad: number): [number, number] => {
 // CRITICAL: Use SLERP (Spherical Linear Interpolation) for all surface-to-surface connections
 // to ensure the tube "paves" the sphere and doesn't cut through it.
 // UPDATED: Now supports a custom sequence and handles open paths correctly.
+// A symmetry other than the identity runs the legs between the palaces the numbers moved to.
 export const generateLoShuEnergyPath = (
   sequence: number[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 1],
+  symmetry: LoShuSymmetry = LoShuSymmetry.IDENTITY,
+  definition: LoShuStructureDefinition = LOSHU_PRESET,
   radiusScale: number = 1.15,
   segmentsPerLeg: number = 64
 ): THREE.Vector3[] => {
   const points: THREE.Vector3[] = [];
+  const anchors = getLoShuAnchors(definition);
 
   for (let i = 0; i < sequence.length - 1; i++) {
     const startNum = sequence[i];
     const endNum = sequence[i + 1];
     
-    const startAnchor = LOSHU_ANCHORS[startNum];
-    const endAnchor = LOSHU_ANCHORS[endNum];
+    const startAnchor = anchors[getOrientedPalace(startNum, symmetry)];
+    const endAnchor = anchors[getOrientedPalace(endNum, symmetry)];
 
     // Determine types
     const isStartCenter = startAnchor.lengthSq() < 0.1;
@@ -435,6 +438,13 @@ export const generateLoShuEnergyPath = (
         if (Math.abs(theta) < 0.0001) {
             // Linear approximation for very small angles
             vec.copy(nStart).lerp(nEnd, t);
+        } else if (Math.PI - theta < 0.0001) {
+            // Opposite palaces (9-1, 2-8, 4-6, 3-7): every great circle joins them and
+            // SLERP divides by sin(PI) = 0. Take the one through the front (+Z), so the
+            // tube passes the viewer's side; a start on the Z axis goes over the top (+Y).
+            const bias = Math.abs(nStart.z) > 0.9999 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(0, 0, 1);
+            const mid = bias.addScaledVector(nStart, -bias.dot(nStart)).normalize();
+            vec.copy(nStart).multiplyScalar(Math.cos(t * theta)).add(mid.multiplyScalar(Math.sin(t * theta)));
         } else {
             const sinTheta = Math.sin(theta);
             const w1 = Math.sin((1 - t) * theta) / sinTheta;
@@ -453,7 +463,7 @@ export const generateLoShuEnergyPath = (
   
   // Close or finish the loop with the actual final point
   const lastNum = sequence[sequence.length - 1];
-  const lastAnchor = LOSHU_ANCHORS[lastNum];
+  const lastAnchor = anchors[getOrientedPalace(lastNum, symmetry)];
   let pFinal: THREE.Vector3;
   if (lastAnchor.lengthSq() < 0.1) {
       pFinal = new THREE.Vector3(0,0,0);
@@ -465,55 +475,86 @@ export const generateLoShuEnergyPath = (
   return points;
 };
 
+// --- 15-SUM LINES ---
+// The eight lines of the Lo Shu, each summing to 15 (South at the top, East on the left)
+//   4 9 2
+//   3 5 7
+//   8 1 6
+export const LOSHU_MAGIC_SUM = 15;
+
+export const LOSHU_SUM_LINES: LoShuSumLine[] = [
+  { id: 'row-south',  kind: 'row',      label: '南行',   palaces: [4, 9, 2] },
+  { id: 'row-middle', kind: 'row',      label: '中行',   palaces: [3, 5, 7] },
+  { id: 'row-north',  kind: 'row',      label: '北行',   palaces: [8, 1, 6] },
+  { id: 'col-east',   kind: 'column',   label: '东列',   palaces: [4, 3, 8] },
+  { id: 'col-middle', kind: 'column',   label: '中列',   palaces: [9, 5, 1] },
+  { id: 'col-west',   kind: 'column',   label: '西列',   palaces: [2, 7, 6] },
+  { id: 'diag-se-nw', kind: 'diagonal', label: '东南-西北', palaces: [4, 5, 6] },
+  { id: 'diag-sw-ne', kind: 'diagonal', label: '西南-东北', palaces: [2, 5, 8] },
+];
+
+// --- LAYERS ---
+// DEFAULT STATE: Dots only
+export const DEFAULT_LOSHU_LAYERS: LoShuLayerState = {
+  dots: true,       // Raw coding layer (Visible by default)
+  numbers: false,   // Interpretation layer (Hidden)
+  trigrams: false,  // Semantic layer (Hidden)
+  directions: false,// Context layer (Hidden)
+  lines: false,     // Energy layer (Hidden by default)
+  stars: false,     // Flying Star chart layer (Hidden)
+  sums: false       // 15-sum lines layer (Hidden)
+};
+
+// --- ENERGY ROUTES ---
+// Named sequences fed to generateLoShuEnergyPath by the Lo Shu "连线" layer.
+export const CUSTOM_ROUTE_ID = 'custom';
+
+export const LOSHU_ENERGY_ROUTES: LoShuEnergyRoute[] = [
+  { id: 'forward', label: '顺飞 1→9', sequences: [[1, 2, 3, 4, 5, 6, 7, 8, 9, 1]] },
+  { id: 'reverse', label: '逆飞 9→1', sequences: [[9, 8, 7, 6, 5, 4, 3, 2, 1, 9]] },
+  { id: 'sum15', label: '十五线', sequences: LOSHU_SUM_LINES.map(line => line.palaces) },
+  { id: 'odd', label: '奇数环', sequences: [[1, 3, 5, 7, 9, 1]] },
+  { id: 'even', label: '偶数环', sequences: [[2, 4, 6, 8, 2]] },
+];
+
+// Parses a user-typed route. Every digit is one palace, so "1591", "1 5 9 1"
+// and "1-5-9-1" are equivalent. Returns null on a 0 or when fewer than two
+// palaces remain after collapsing repeats.
+export const parseLoShuSequence = (text: string): number[] | null => {
+  const digits = text.match(/[0-9]/g) ?? [];
+  const sequence: number[] = [];
+  for (const digit of digits) {
+    const num = parseInt(digit, 10);
+    if (num === 0) return null;
+    if (sequence[sequence.length - 1] !== num) sequence.push(num);
+  }
+  return sequence.length >= 2 ? sequence : null;
+};
+
 // --- DOT GENERATION ---
 
-export const generateLoShuPoints = (): LoShuPointData[] => {
+// Under a symmetry each number's dots move to the palace it is carried to,
+// their pattern turned or mirrored with the square
+export const generateLoShuPoints = (
+  symmetry: LoShuSymmetry = LoShuSymmetry.IDENTITY,
+  definition: LoShuStructureDefinition = LOSHU_PRESET
+): LoShuPointData[] => {
   const points: LoShuPointData[] = [];
-  
-  const numbers = [1, 2, 3, 4, 5, 6, 7, 8, 9];
-  const gap = 1.3;
+  const anchors = getLoShuAnchors(definition);
 
-  numbers.forEach((num) => {
-    const anchorPos = LOSHU_ANCHORS[num];
-    const isYang = num % 2 !== 0;
+  definition.palaces.forEach(({ numberValue: num, polarity, pattern }) => {
+    const palace = getOrientedPalace(num, symmetry);
+    const anchorPos = anchors[palace];
 
-    // 1. Define Pattern in 2D Local Space
-    let offsets: [number, number][] = [];
-
-    if (num === 1) offsets.push([0, 0]);
-    else if (num === 2) { 
-       offsets.push([-gap/1.5, -gap/1.5], [gap/1.5, gap/1.5]); 
-    }
-    else if (num === 3) { 
-       offsets.push([0, gap], [0, 0], [0, -gap]); 
-    }
-    else if (num === 4) { 
-       offsets.push([0, gap * 1.2], [gap * 1.2, 0], [0, -gap * 1.2], [-gap * 1.2, 0]);
-    }
-    else if (num === 5) { 
-       // Center 5: Condensed cross
-       offsets.push([0, 0], [0, gap*0.6], [0, -gap*0.6], [-gap*0.6, 0], [gap*0.6, 0]);
-    }
-    else if (num === 6) { 
-       const w = gap * 0.8; const h = gap * 0.8;
-       let raw = [[-w, h*2], [w, h*2], [w, 0], [w, -h*2], [-w, -h*2], [-w, 0]];
-       offsets = raw.map(o => rotate2D(o[0], o[1], Math.PI / 4)) as [number, number][];
-    }
-    else if (num === 7) { 
-       for(let k=3; k>=-3; k--) offsets.push([0, k * gap * 0.6]);
-    }
-    else if (num === 8) { 
-       const w = gap * 0.8; const h = gap * 0.6;
-       let raw = [[-w, h*3], [w, h*3], [w, h], [w, -h], [w, -h*3], [-w, -h*3], [-w, -h], [-w, h]];
-       offsets = raw.map(o => rotate2D(o[0], o[1], -Math.PI / 4)) as [number, number][];
-    }
-    else if (num === 9) { 
-       for(let k=-4; k<=4; k++) offsets.push([k * gap * 0.6, 0]);
-    }
+    // 1. Pattern in 2D Local Space (structures/loshu.json), oriented with the square
+    const dots = getPatternDots(pattern, definition.unit).map(({ key, offset: [x, y] }) => ({
+      key,
+      offset: applySymmetry(symmetry, x, y)
+    }));
 
     // 2. Project Points
-    // Special handling for 5: It stays at Center (0,0,0)
-    const isCenter = num === 5;
+    // Special handling for the core (5): It stays at Center (0,0,0)
+    const isCenter = anchorPos.lengthSq() < 0.1;
 
     let quaternion = new THREE.Quaternion();
     
@@ -524,36 +565,162 @@ export const generateLoShuPoints = (): LoShuPointData[] => {
     // If center, identity quaternion is fine (flat on Z=0 plane inside sphere)
 
     // 3. Generate Points
-    offsets.forEach((off, i) => {
+    dots.forEach(({ key, offset: off }, i) => {
       let spherePosVec: THREE.Vector3;
+      let projectionPosVec: THREE.Vector3;
 
       if (isCenter) {
          // Keep at center, just use offsets in XY plane
          spherePosVec = new THREE.Vector3(off[0], off[1], 0);
+         projectionPosVec = spherePosVec.clone();
       } else {
          const localVec = new THREE.Vector3(off[0], off[1], R);
          localVec.normalize().multiplyScalar(R);
          spherePosVec = localVec.applyQuaternion(quaternion);
+         projectionPosVec = projectToDisc(spherePosVec);
       }
 
       // Plane Position (Old Lo Shu Grid)
-      const gx = (num===3||num===4||num===8)?-1 : (num===7||num===2||num===6)?1 : 0;
-      const gy = (num===9||num===4||num===2)?1 : (num===1||num===8||num===6)?-1 : 0;
+      const [gx, gy] = getPalaceSlot(num, symmetry);
       const planeBaseX = gx * LOSHU_GRID_SIZE;
       const planeBaseY = gy * LOSHU_GRID_SIZE;
       const planePos: [number, number, number] = [planeBaseX + off[0], planeBaseY + off[1], 0];
 
       points.push({
-        id: `ls-${num}-${i}`,
+        id: `ls-${num}-${key}`,
         numberValue: num,
-        polarity: isYang ? Polarity.YANG : Polarity.YIN,
+        polarity,
         planePos: planePos,
         spherePos: [spherePosVec.x, spherePosVec.y, spherePosVec.z],
+        projectionPos: [projectionPosVec.x, projectionPosVec.y, projectionPosVec.z],
         trigram: i === 0 ? TRIGRAMS[num] : undefined,
-        direction: i === 0 ? DIRECTIONS[num] : undefined
+        direction: i === 0 ? DIRECTIONS[palace] : undefined
       });
     });
   });
 
   return points;
-};
\ No newline at end of file
+};
+
+// ============================================================================
+// HE TU ⇄ LO SHU TRANSFORMATION (河洛变换)
+// ============================================================================
+// Water (1/6) and Wood (3/8) keep their sides and Earth stays central (the 10
+// withdraws), while Fire (2/7, South) and Metal (4/9, West) trade places: 金火易位.
+export const HELUO_SWAP_NUMBERS = [2, 7, 4, 9];
+
+// Pairs the i-th He Tu dot of each number with the i-th Lo Shu dot of the same number
+export const generateHeLuoTransform = (): HeLuoPointPair[] => {
+  const loShuByNumber: Record<number, LoShuPointData[]> = {};
+  generateLoShuPoints().forEach(p => {
+    (loShuByNumber[p.numberValue] ??= []).push(p);
+  });
+
+  const seen: Record<number, number> = {};
+  return generateHeTuPoints().map(p => {
+    const index = seen[p.numberValue] ?? 0;
+    seen[p.numberValue] = index + 1;
+    const target = loShuByNumber[p.numberValue]?.[index];
+
+    return {
+      id: `heluo-${p.id}`,
+      numberValue: p.numberValue,
+      polarity: p.polarity,
+      heTuPos: [p.x, p.y, p.z],
+      loShuPos: target ? target.planePos : [0, 0, 0],
+      swapped: HELUO_SWAP_NUMBERS.includes(p.numberValue),
+      vanishes: !target
+    };
+  });
+};
+
+// ============================================================================
+// NUMBER METADATA (INSPECTOR)
+// ============================================================================
+
+export const ELEMENT_NAMES: Record<FiveElement, string> = {
+  [FiveElement.WOOD]: '木',
+  [FiveElement.FIRE]: '火',
+  [FiveElement.EARTH]: '土',
+  [FiveElement.METAL]: '金',
+  [FiveElement.WATER]: '水'
+};
+
+export const ELEMENT_COLORS: Record<FiveElement, string> = {
+  [FiveElement.WOOD]: '#22c55e',
+  [FiveElement.FIRE]: '#ef4444',
+  [FiveElement.EARTH]: '#eab308',
+  [FiveElement.METAL]: '#e2e8f0',
+  [FiveElement.WATER]: '#3b82f6'
+};
+
+// He Tu: each direction holds one element (1/6 Water, 2/7 Fire, 3/8 Wood, 4/9 Metal, 5/10 Earth)
+export const HETU_GROUP_ELEMENTS: Record<HeTuPoint['group'], FiveElement> = {
+  north: FiveElement.WATER,
+  south: FiveElement.FIRE,
+  east: FiveElement.WOOD,
+  west: FiveElement.METAL,
+  center: FiveElement.EARTH
+};
+
+export const HETU_GROUP_NAMES: Record<HeTuPoint['group'], string> = {
+  north: '北', south: '南', east: '东', west: '西', center: '中'
+};
+
+// Each cycle visits all five elements; element i acts on element i + 1 (wrapping)
+export const ELEMENT_CYCLES: Record<ElementCycle, FiveElement[]> = {
+  [ElementCycle.GENERATING]: [FiveElement.WOOD, FiveElement.FIRE, FiveElement.EARTH, FiveElement.METAL, FiveElement.WATER],
+  [ElementCycle.CONTROLLING]: [FiveElement.WOOD, FiveElement.EARTH, FiveElement.WATER, FiveElement.FIRE, FiveElement.METAL]
+};
+
+// Centroid of each He Tu group in its cube form
+export const getHeTuGroupCenters = (points: HeTuPoint[]): Record<HeTuPoint['group'], THREE.Vector3> => {
+  const centers = {} as Record<HeTuPoint['group'], THREE.Vector3>;
+  const counts = {} as Record<HeTuPoint['group'], number>;
+  points.forEach(p => {
+    if (!centers[p.group]) {
+      centers[p.group] = new THREE.Vector3();
+      counts[p.group] = 0;
+    }
+    centers[p.group].add(new THREE.Vector3(p.x, p.y, p.z));
+    counts[p.group]++;
+  });
+  (Object.keys(centers) as HeTuPoint['group'][]).forEach(g => centers[g].divideScalar(counts[g]));
+  return centers;
+};
+
+// Lo Shu: element of each palace's Later Heaven trigram
+const LOSHU_PALACE_ELEMENTS: Record<number, FiveElement> = {
+  1: FiveElement.WATER,  // 坎
+  2: FiveElement.EARTH,  // 坤
+  3: FiveElement.WOOD,   // 震
+  4: FiveElement.WOOD,   // 巽
+  5: FiveElement.EARTH,  // 中
+  6: FiveElement.METAL,  // 乾
+  7: FiveElement.METAL,  // 兑
+  8: FiveElement.EARTH,  // 艮
+  9: FiveElement.FIRE    // 离
+};
+
+// He Tu group of each number (the same in every layout)
+const HETU_NUMBER_GROUPS: Record<number, HeTuPoint['group']> = {
+  1: 'north', 6: 'north', 2: 'south', 7: 'south', 3: 'east', 8: 'east', 4: 'west', 9: 'west', 5: 'center', 10: 'center'
+};
+
+// `symmetry` only moves Lo Shu numbers, and with them the direction they face
+export const describeNumber = (view: ViewMode, numberValue: number, symmetry: LoShuSymmetry = LoShuSymmetry.IDENTITY): NumberInfo => {
+  const isLoShuPalace = numberValue >= 1 && numberValue <= 9;
+  const group = HETU_NUMBER_GROUPS[numberValue];
+
+  return {
+    numberValue,
+    polarity: numberValue % 2 !== 0 ? Polarity.YANG : Polarity.YIN,
+    direction: view === ViewMode.LOSHU ? DIRECTIONS[isLoShuPalace ? getOrientedPalace(numberValue, symmetry) : numberValue] : HETU_GROUP_NAMES[group],
+    element: view === ViewMode.LOSHU ? LOSHU_PALACE_ELEMENTS[numberValue] : HETU_GROUP_ELEMENTS[group],
+    trigram: isLoShuPalace ? TRIGRAMS[numberValue] : undefined,
+    heTuPartner: numberValue > 5 ? numberValue - 5 : numberValue + 5,
+    loShuPartner: isLoShuPalace ? 10 - numberValue : undefined,
+    // He Tu and Lo Shu both draw n dots for the number n
+    dotCount: numberValue
+  };
+};
@@ -0,0 +1,97 @@
+import { FlightDirection, FlyingStarChart } from './types';
+
+// ============================================================================
+// XUAN KONG FLYING STARS (玄空飞星)
+// ============================================================================
+// Palaces are identified by their Lo Shu home number (the same keys as
+// LOSHU_ANCHORS / DIRECTIONS), so a chart can be laid straight onto the grid.
+
+// Luo Shu flight path: 中5 → 乾6 → 兑7 → 艮8 → 离9 → 坎1 → 坤2 → 震3 → 巽4
+export const FLIGHT_PATH = [5, 6, 7, 8, 9, 1, 2, 3, 4];
+
+export const STAR_NAMES: Record<number, string> = {
+  1: '一白', 2: '二黑', 3: '三碧', 4: '四绿', 5: '五黄', 6: '六白', 7: '七赤', 8: '八白', 9: '九紫'
+};
+
+// Wraps any integer into the 1-9 star range
+const wrapStar = (n: number): number => (((n - 1) % 9) + 9) % 9 + 1;
+
+// Day of each Gregorian month (Jan..Dec) on which its solar month (节) begins.
+// Fixed to the usual date; the real 节 drifts by about a day from year to year.
+const SOLAR_TERM_DAYS = [6, 4, 6, 5, 6, 6, 7, 8, 8, 8, 7, 7];
+
+// --- FLIGHT ---
+
+// Places `centerStar` in the centre palace and flies the rest along FLIGHT_PATH
+export const flyStars = (
+  centerStar: number,
+  direction: FlightDirection = FlightDirection.FORWARD
+): Record<number, number> => {
+  const step = direction === FlightDirection.FORWARD ? 1 : -1;
+  const chart: Record<number, number> = {};
+  FLIGHT_PATH.forEach((palace, i) => {
+    chart[palace] = wrapStar(centerStar + step * i);
+  });
+  return chart;
+};
+
+// --- CALENDAR HELPERS ---
+
+// Three Yuan, Nine Periods: each period lasts 20 years, Period 1 began in 1864
+export const getPeriodForYear = (year: number): number => wrapStar(Math.floor((year - 1864) / 20) + 1);
+
+// The flying-star year starts at 立春 (about Feb 4), not Jan 1
+export const getSolarYear = (year: number, month: number, day: number): number => {
+  const beforeLiChun = month < 2 || (month === 2 && day < SOLAR_TERM_DAYS[1]);
+  return beforeLiChun ? year - 1 : year;
+};
+
+// 0 = 寅 month (from 立春) ... 11 = 丑 month (ends at next 立春)
+export const getSolarMonthIndex = (month: number, day: number): number => {
+  let m = day >= SOLAR_TERM_DAYS[month - 1] ? month : month - 1;
+  if (m === 0) m = 12;
+  return (m - 2 + 12) % 12;
+};
+
+// Annual centre star: 1999 was 一白, falling by one each year (2000 九紫, 2024 三碧)
+export const getAnnualStar = (solarYear: number): number => wrapStar(10 - (solarYear - 1999));
+
+// Monthly centre star: the 寅 month starts at 8 (子午卯酉 years), 5 (辰戌丑未)
+// or 2 (寅申巳亥), falling by one each month
+export const getMonthlyStar = (solarYear: number, solarMonthIndex: number): number => {
+  const branch = (((solarYear - 4) % 12) + 12) % 12; // 0 = 子
+  const firstMonthStar = 8 - 3 * (branch % 3);
+  return wrapStar(firstMonthStar - solarMonthIndex);
+};
+
+// --- CHART ---
+
+export interface FlyingStarOptions {
+  period: number;
+  year: number;
+  month?: number;   // 1-12; omitted -> annual chart only
+  day?: number;     // Used to place the date either side of the solar month boundary
+  direction?: FlightDirection; // Flight of the period stars
+}
+
+export const computeFlyingStarChart = ({
+  period,
+  year,
+  month,
+  day = 15,
+  direction = FlightDirection.FORWARD
+}: FlyingStarOptions): FlyingStarChart => {
+  // Without a month the whole Gregorian year is read as the solar year of the same number
+  const solarYear = month !== undefined ? getSolarYear(year, month, day) : year;
+
+  return {
+    period: wrapStar(period),
+    solarYear,
+    periodStars: flyStars(period, direction),
+    // Annual and monthly stars always fly forward
+    annualStars: flyStars(getAnnualStar(solarYear)),
+    monthlyStars: month !== undefined
+      ? flyStars(getMonthlyStar(solarYear, getSolarMonthIndex(month, day)))
+      : undefined
+  };
+};
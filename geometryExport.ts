@@ -0,0 +1,371 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/addons/exporters/OBJExporter.js';
+import { STLExporter } from 'three/addons/exporters/STLExporter.js';
+import type { Manifold, ManifoldToplevel, Mat4 } from 'manifold-3d';
+import { generateHeTuPoints, sortHeTuPoints, generateLoShuPoints, generateLoShuEnergyPath } from './constants';
+import { HETU_LAYOUTS, getHeTuLayout, getHeTuLinkPosition } from './heTuLayouts';
+import { generateMagicSquarePoints, getMagicSquareLayout } from './magicSquare';
+import { AnimationState, HeLuoStage, HeTuStructureDefinition, LoShuMorphState, LoShuStructureDefinition, LoShuSymmetry, ModelForm, ModelFormat, Polarity, ShareState, ViewMode } from './types';
+
+// ============================================================================
+// 3D MODEL EXPORT (GLTF / GLB, OBJ, STL)
+// ============================================================================
+// Bakes a settled form of the He Tu or Lo Shu into plain meshes: one sphere per
+// dot, named `<id>_n<numberValue>` with the point data in userData (glTF extras),
+// plus tubes along the He Tu link lines and the Lo Shu energy routes.
+// STL output is a single watertight body: everything is fused with manifold-3d,
+// and loose dots are tied in with extra struts so the print comes out in one piece.
+
+export const MODEL_FORMS: ModelForm[] = [
+  { id: 'hetu-cube', label: '河图 · 立方', view: ViewMode.HETU, heTuMode: 'CUBE' },
+  ...HETU_LAYOUTS.map((layout): ModelForm => ({
+    id: `hetu-${layout.id.toLowerCase()}`, label: `河图 · ${layout.label}`, view: ViewMode.HETU, heTuMode: layout.id
+  })),
+  { id: 'loshu-plane', label: '洛书 · 平面', view: ViewMode.LOSHU, loShuMorph: LoShuMorphState.PLANE },
+  { id: 'loshu-sphere', label: '洛书 · 球体', view: ViewMode.LOSHU, loShuMorph: LoShuMorphState.SPHERE },
+  { id: 'loshu-projection', label: '洛书 · 投影', view: ViewMode.LOSHU, loShuMorph: LoShuMorphState.PROJECTION }
+];
+
+export const MODEL_FILE_EXTENSIONS: Record<ModelFormat, string> = {
+  [ModelFormat.GLB]: 'glb',
+  [ModelFormat.GLTF]: 'gltf',
+  [ModelFormat.OBJ]: 'obj',
+  [ModelFormat.STL]: 'stl'
+};
+
+const HETU_DOT_RADIUS = 0.4;
+const HETU_LINK_RADIUS = 0.08;       // The on-screen link is a 2px line; give it some body
+const HETU_LINK_SEGMENTS = 16;       // Samples per link, as in HeTuScene's PointLine
+const LOSHU_DOT_RADIUS = 0.5;
+const ENERGY_TUBE_RADIUS = 0.45;     // Same as the Lo Shu EnergyTube
+const STL_STRUT_RADIUS = 0.15;       // Thinnest printable member (model units, before scaling)
+const STL_SIZE_MM = 100;             // Longest side of the printed model
+const STL_SEGMENTS = 16;             // Circular segments of spheres and struts
+const STL_JOINT_ANGLE = 0.05;        // Bend (radians) above which a path joint gets a sphere
+
+const COLOR_YANG = '#ffffff';
+const COLOR_YIN = '#101010';
+const COLOR_ENERGY = '#39ff14';
+
+// The form on screen: He Tu cube or layout, Lo Shu morph, or the He Luo stage's endpoint
+export const getCurrentModelForm = (state: Pick<ShareState, 'viewMode' | 'animState' | 'heTuLayout' | 'hlStage' | 'lsMorph'>): ModelForm => {
+  const byId = (id: string) => MODEL_FORMS.find(form => form.id === id)!;
+  if (state.viewMode === ViewMode.LOSHU) {
+    return MODEL_FORMS.find(form => form.loShuMorph === state.lsMorph)!;
+  }
+  if (state.viewMode === ViewMode.HELUO) {
+    return byId(state.hlStage === HeLuoStage.HETU ? 'hetu-cube' : 'loshu-plane');
+  }
+  if (state.animState === AnimationState.STATIC || state.animState === AnimationState.RETURNING) {
+    return byId('hetu-cube');
+  }
+  return MODEL_FORMS.find(form => form.heTuMode === state.heTuLayout) ?? byId('hetu-cube');
+};
+
+// --- MODEL DATA ---
+
+interface ModelDot {
+  name: string;
+  position: THREE.Vector3;
+  radius: number;
+  polarity: Polarity;
+  userData: Record<string, string | number>;
+}
+
+interface ModelPath {
+  name: string;
+  curve: THREE.CatmullRomCurve3;
+  segments: number;
+  radius: number;
+  color: string;
+}
+
+interface ModelData {
+  name: string;
+  dots: ModelDot[];
+  paths: ModelPath[];
+}
+
+export interface ModelOptions {
+  energySequences: number[][]; // Lo Shu energy routes (sphere form only)
+  magicSquare: number[][] | null; // Generalised square replacing the Lo Shu (plane form)
+  symmetry: LoShuSymmetry;        // Orientation of the Lo Shu (rotated / reflected palaces)
+  heTuStructure: HeTuStructureDefinition;   // Loaded structure definitions (structureDefinitions.ts)
+  loShuStructure: LoShuStructureDefinition;
+}
+
+const dotName = (id: string, numberValue: number) => `${id}_n${numberValue}`;
+
+// Layouts are baked at their starting phase (time 0)
+const buildHeTuModel = (form: ModelForm, options: ModelOptions): ModelData => {
+  const points = generateHeTuPoints(options.heTuStructure);
+  const layout = getHeTuLayout(form.heTuMode ?? 'CUBE');
+  const configs = layout.generate(points);
+
+  const dots = points.map(pt => ({
+    name: dotName(pt.id, pt.numberValue),
+    position: form.heTuMode === 'CUBE' ? new THREE.Vector3(pt.x, pt.y, pt.z) : layout.getPosition(configs[pt.id], 0),
+    radius: HETU_DOT_RADIUS,
+    polarity: pt.polarity,
+    userData: { id: pt.id, numberValue: pt.numberValue, polarity: pt.polarity, group: pt.group }
+  }));
+
+  // The link lines only show once the cube has unfolded
+  const paths: ModelPath[] = form.heTuMode === 'CUBE' ? [] : [
+    { sequence: [1, 3, 7, 9], color: COLOR_YANG },
+    { sequence: [2, 4, 6, 8], color: COLOR_YIN }
+  ].map(({ sequence, color }) => {
+    const sorted = sortHeTuPoints(points, sequence);
+    const samples: THREE.Vector3[] = [];
+    for (let i = 0; i < sorted.length - 1; i++) {
+      for (let j = 0; j < HETU_LINK_SEGMENTS; j++) {
+        samples.push(getHeTuLinkPosition(layout, configs[sorted[i].id], configs[sorted[i + 1].id], j / HETU_LINK_SEGMENTS, 0));
+      }
+    }
+    samples.push(layout.getPosition(configs[sorted[sorted.length - 1].id], 0));
+    return {
+      name: `link-${sequence.join('-')}`,
+      curve: new THREE.CatmullRomCurve3(samples, false, 'centripetal'),
+      segments: samples.length - 1,
+      radius: HETU_LINK_RADIUS,
+      color
+    };
+  });
+
+  return { name: form.id, dots, paths };
+};
+
+const buildLoShuModel = (form: ModelForm, options: ModelOptions): ModelData => {
+  // The magic square only replaces the Lo Shu on the plane
+  const square = form.loShuMorph === LoShuMorphState.PLANE ? options.magicSquare : null;
+  const points = square ? generateMagicSquarePoints(square) : generateLoShuPoints(options.symmetry, options.loShuStructure);
+  const radius = square ? getMagicSquareLayout(square.length).dotRadius : LOSHU_DOT_RADIUS;
+
+  const dots = points.map(pt => {
+    const pos = form.loShuMorph === LoShuMorphState.SPHERE ? pt.spherePos
+      : form.loShuMorph === LoShuMorphState.PROJECTION ? pt.projectionPos
+      : pt.planePos;
+    const userData: Record<string, string | number> = { id: pt.id, numberValue: pt.numberValue, polarity: pt.polarity };
+    if (pt.direction) userData.direction = pt.direction;
+    if (pt.trigram) userData.trigram = pt.trigram;
+    return { name: dotName(pt.id, pt.numberValue), position: new THREE.Vector3(...pos), radius, polarity: pt.polarity, userData };
+  });
+
+  // Same paths as the Lo Shu EnergySystem, which only shows them on the sphere
+  const paths: ModelPath[] = form.loShuMorph !== LoShuMorphState.SPHERE ? [] : options.energySequences
+    .filter(seq => seq.length >= 2)
+    .map(seq => {
+      const closed = seq.length > 2 && seq[0] === seq[seq.length - 1];
+      const samples = generateLoShuEnergyPath(seq, options.symmetry, options.loShuStructure);
+      if (closed) samples.pop();
+      return {
+        name: `energy-${seq.join('-')}`,
+        curve: new THREE.CatmullRomCurve3(samples, closed, 'centripetal', 0.2),
+        segments: Math.min(400, Math.max(64, Math.round(samples.length / 1.3))),
+        radius: ENERGY_TUBE_RADIUS,
+        color: COLOR_ENERGY
+      };
+    });
+
+  const name = square ? `${form.id}-magic${square.length}`
+    : options.symmetry !== LoShuSymmetry.IDENTITY ? `${form.id}-${options.symmetry.toLowerCase()}`
+    : form.id;
+  return { name, dots, paths };
+};
+
+const buildModelData = (form: ModelForm, options: ModelOptions): ModelData =>
+  form.view === ViewMode.HETU ? buildHeTuModel(form, options) : buildLoShuModel(form, options);
+
+// --- MESH EXPORT (GLTF / GLB, OBJ) ---
+
+const buildScene = (model: ModelData): THREE.Group => {
+  const root = new THREE.Group();
+  root.name = model.name;
+
+  const materials = {
+    [Polarity.YANG]: new THREE.MeshStandardMaterial({ name: 'yang', color: COLOR_YANG, roughness: 0.2, metalness: 0.5 }),
+    [Polarity.YIN]: new THREE.MeshStandardMaterial({ name: 'yin', color: COLOR_YIN, roughness: 0.2, metalness: 0.5 })
+  };
+  const sphereGeometries: Record<number, THREE.SphereGeometry> = {};
+
+  const dots = new THREE.Group();
+  dots.name = 'dots';
+  model.dots.forEach(dot => {
+    sphereGeometries[dot.radius] ??= new THREE.SphereGeometry(dot.radius, 24, 12);
+    const mesh = new THREE.Mesh(sphereGeometries[dot.radius], materials[dot.polarity]);
+    mesh.name = dot.name;
+    mesh.position.copy(dot.position);
+    mesh.userData = dot.userData;
+    dots.add(mesh);
+  });
+  root.add(dots);
+
+  if (model.paths.length > 0) {
+    const paths = new THREE.Group();
+    paths.name = 'paths';
+    model.paths.forEach(path => {
+      const geometry = new THREE.TubeGeometry(path.curve, path.segments, path.radius, 12, path.curve.closed);
+      const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ name: path.name, color: path.color }));
+      mesh.name = path.name;
+      paths.add(mesh);
+    });
+    root.add(paths);
+  }
+
+  root.updateMatrixWorld(true);
+  return root;
+};
+
+const disposeScene = (root: THREE.Object3D) => {
+  root.traverse(obj => {
+    if (obj instanceof THREE.Mesh) {
+      obj.geometry.dispose();
+      (obj.material as THREE.Material).dispose();
+    }
+  });
+};
+
+// --- WATERTIGHT STL ---
+
+let manifoldModule: Promise<ManifoldToplevel> | null = null;
+
+// The WASM module is large; load it the first time someone asks for an STL
+const loadManifold = () => {
+  manifoldModule ??= (async () => {
+    const [{ default: Module }, { default: wasmUrl }] = await Promise.all([
+      import('manifold-3d'),
+      import('manifold-3d/manifold.wasm?url')
+    ]);
+    const wasm = await Module({ locateFile: () => wasmUrl });
+    wasm.setup();
+    return wasm;
+  })();
+  manifoldModule.catch(() => { manifoldModule = null; }); // Allow a retry
+  return manifoldModule;
+};
+
+interface StlBody {
+  samples: THREE.Vector3[];
+  radius: number;
+}
+
+// Joins the bodies into one connected piece: a minimum spanning tree over the
+// closest sample pair between bodies. Bodies that already overlap need no strut.
+const spanningStruts = (bodies: StlBody[]): [THREE.Vector3, THREE.Vector3][] => {
+  const struts: [THREE.Vector3, THREE.Vector3][] = [];
+  const inTree = bodies.map((_, i) => i === 0);
+  const best = bodies.map(() => ({ distance: Infinity, from: new THREE.Vector3(), to: new THREE.Vector3() }));
+
+  const relax = (index: number) => {
+    bodies.forEach((body, j) => {
+      if (inTree[j]) return;
+      bodies[index].samples.forEach(a => body.samples.forEach(b => {
+        const distance = a.distanceTo(b);
+        if (distance < best[j].distance) best[j] = { distance, from: a, to: b };
+      }));
+    });
+  };
+
+  relax(0);
+  for (let added = 1; added < bodies.length; added++) {
+    let next = -1;
+    best.forEach((candidate, j) => {
+      if (!inTree[j] && (next === -1 || candidate.distance < best[next].distance)) next = j;
+    });
+    inTree[next] = true;
+    const { distance, from, to } = best[next];
+    if (distance > STL_STRUT_RADIUS + bodies[next].radius) struts.push([from, to]);
+    relax(next);
+  }
+  return struts;
+};
+
+const buildSolid = (wasm: ManifoldToplevel, model: ModelData): Manifold => {
+  const { Manifold } = wasm;
+  const parts: Manifold[] = [];
+
+  const sphere = (center: THREE.Vector3, radius: number) =>
+    parts.push(Manifold.sphere(radius, STL_SEGMENTS).translate([center.x, center.y, center.z]));
+
+  // Unit-height cylinder along +Z, stretched and turned onto the segment a → b,
+  // overshooting both ends by `overlap` so neighbouring struts share volume
+  const strut = (a: THREE.Vector3, b: THREE.Vector3, radius: number, overlap = 0) => {
+    const length = a.distanceTo(b);
+    if (length < 1e-6) return;
+    const direction = b.clone().sub(a).normalize();
+    const rotation = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), direction);
+    const start = a.clone().addScaledVector(direction, -overlap);
+    const matrix = new THREE.Matrix4().compose(start, rotation, new THREE.Vector3(1, 1, length + overlap * 2));
+    parts.push(Manifold.cylinder(1, radius, radius, STL_SEGMENTS).transform(matrix.elements as Mat4));
+  };
+
+  const bodies: StlBody[] = model.dots.map(dot => ({ samples: [dot.position], radius: dot.radius }));
+  model.dots.forEach(dot => sphere(dot.position, dot.radius));
+
+  model.paths.forEach(path => {
+    const radius = Math.max(path.radius, STL_STRUT_RADIUS);
+    const samples = path.curve.getSpacedPoints(path.segments);
+    samples.forEach((p, i) => {
+      if (i > 0) strut(samples[i - 1], p, radius, radius / 2);
+      // Round joints fill the notch where consecutive struts meet at an angle
+      const isEnd = i === 0 || i === samples.length - 1;
+      if (isEnd || samples[i - 1].clone().sub(p).angleTo(samples[i + 1].clone().sub(p)) < Math.PI - STL_JOINT_ANGLE) sphere(p, radius);
+    });
+    bodies.push({ samples, radius });
+  });
+
+  spanningStruts(bodies).forEach(([a, b]) => strut(a, b, STL_STRUT_RADIUS));
+
+  const solid = Manifold.union(parts);
+  parts.forEach(part => part.delete());
+  return solid;
+};
+
+const exportStl = async (model: ModelData): Promise<Blob> => {
+  const wasm = await loadManifold();
+  const solid = buildSolid(wasm, model);
+  const { min, max } = solid.boundingBox();
+  const scaled = solid.scale(STL_SIZE_MM / Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]));
+  const mesh = scaled.getMesh();
+  solid.delete();
+  scaled.delete();
+
+  const geometry = new THREE.BufferGeometry();
+  const positions = new Float32Array(mesh.numVert * 3);
+  for (let i = 0; i < mesh.numVert; i++) {
+    positions.set(mesh.vertProperties.subarray(i * mesh.numProp, i * mesh.numProp + 3), i * 3);
+  }
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setIndex(new THREE.BufferAttribute(mesh.triVerts, 1));
+
+  const object = new THREE.Mesh(geometry);
+  object.name = model.name;
+  const data = new STLExporter().parse(object, { binary: true });
+  geometry.dispose();
+  return new Blob([data.buffer as ArrayBuffer], { type: 'model/stl' });
+};
+
+// --- PUBLIC API ---
+
+export const exportModel = async (form: ModelForm, format: ModelFormat, options: ModelOptions): Promise<{ blob: Blob, filename: string }> => {
+  const model = buildModelData(form, options);
+  const filename = `${model.name}.${MODEL_FILE_EXTENSIONS[format]}`;
+
+  if (format === ModelFormat.STL) return { blob: await exportStl(model), filename };
+
+  const root = buildScene(model);
+  try {
+    if (format === ModelFormat.OBJ) {
+      return { blob: new Blob([new OBJExporter().parse(root)], { type: 'model/obj' }), filename };
+    }
+    const binary = format === ModelFormat.GLB;
+    const result = await new GLTFExporter().parseAsync(root, { binary });
+    const blob = binary
+      ? new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+      : new Blob([JSON.stringify(result, null, 2)], { type: 'model/gltf+json' });
+    return { blob, filename };
+  } finally {
+    disposeScene(root);
+  }
+};
@@ -0,0 +1,19 @@
+// Minimal typings for gifenc (the package ships none)
+declare module 'gifenc' {
+  export type GifPalette = number[][];
+
+  export interface GifEncoderStream {
+    writeFrame(
+      index: Uint8Array,
+      width: number,
+      height: number,
+      options?: { palette?: GifPalette, delay?: number, repeat?: number, transparent?: boolean, transparentIndex?: number, first?: boolean }
+    ): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean, initialCapacity?: number }): GifEncoderStream;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: { format?: 'rgb565' | 'rgb444' | 'rgba4444' }): GifPalette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: GifPalette, format?: 'rgb565' | 'rgb444' | 'rgba4444'): Uint8Array;
+}
@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import { generateGalaxyMap, generateHelixMap, generateTaijiMap } from './constants';
+import { GalaxyPointConfig, GalaxyPointType, HeTuLayoutId, HeTuPoint, LinkInterpolation } from './types';
+
+// ============================================================================
+// HE TU LAYOUT REGISTRY
+// ============================================================================
+// Each unfolded He Tu form is one entry: a generator that gives every point a
+// config, the position of a config at a given spin time, and how the connecting
+// lines run between two dots. The scene, toolbar, timeline, exports and shared
+// links all read this list, so a new shape is a new entry here and nothing else.
+
+export interface HeTuLayoutDefinition {
+  id: HeTuLayoutId;
+  label: string; // Toolbar button, timeline and export menus
+  key: string;   // Keyboard shortcut (see shortcuts.ts)
+  generate: (points: HeTuPoint[]) => Record<string, GalaxyPointConfig>;
+  getPosition: (config: GalaxyPointConfig, time: number) => THREE.Vector3;
+  interpolation: LinkInterpolation;
+}
+
+// Direction of the spin (-1 = clockwise seen from the viewer)
+export const HETU_SPIN_SIGN = -1;
+
+const spinAngle = (config: GalaxyPointConfig, time: number) =>
+  config.thetaStart + HETU_SPIN_SIGN * config.speedFactor * time;
+
+// --- POSITION FUNCTIONS ---
+
+// Flat spiral: the arms spin and wobble in Z, the core and ring stay put
+const galaxyPosition = (config: GalaxyPointConfig, time: number): THREE.Vector3 => {
+  if (config.type === GalaxyPointType.CORE || config.type === GalaxyPointType.RING) {
+    return new THREE.Vector3(config.r * Math.cos(config.thetaStart), config.r * Math.sin(config.thetaStart), 0);
+  }
+  const theta = spinAngle(config, time);
+  return new THREE.Vector3(config.r * Math.cos(theta), config.r * Math.sin(theta), Math.sin(theta * config.zFreq) * config.zAmp);
+};
+
+// Upright strands: each dot circles the Y axis at its own height
+const helixPosition = (config: GalaxyPointConfig, time: number): THREE.Vector3 => {
+  const theta = spinAngle(config, time);
+  return new THREE.Vector3(config.r * Math.cos(theta), config.yOffset ?? 0, config.r * Math.sin(theta));
+};
+
+// Flat figure turning as one, eyes included
+const turningPosition = (config: GalaxyPointConfig, time: number): THREE.Vector3 => {
+  const theta = spinAngle(config, time);
+  return new THREE.Vector3(config.r * Math.cos(theta), config.r * Math.sin(theta), 0);
+};
+
+// --- LINK INTERPOLATION STRATEGIES ---
+// Point at fraction t along the link from A to B (the connecting lines between dots)
+
+type LinkFunction = (layout: HeTuLayoutDefinition, confA: GalaxyPointConfig, confB: GalaxyPointConfig, t: number, time: number) => THREE.Vector3;
+
+const cartesianLink: LinkFunction = (layout, confA, confB, t, time) =>
+  layout.getPosition(confA, time).lerp(layout.getPosition(confB, time), t);
+
+const LINK_INTERPOLATIONS: Record<LinkInterpolation, LinkFunction> = {
+  [LinkInterpolation.CARTESIAN]: cartesianLink,
+
+  // Radius, height and angle each run straight, so the link winds with the strand
+  [LinkInterpolation.POLAR]: (_, confA, confB, t, time) => {
+    const r = confA.r + (confB.r - confA.r) * t;
+    const yA = confA.yOffset ?? 0;
+    const yB = confB.yOffset ?? 0;
+    const theta = confA.thetaStart + (confB.thetaStart - confA.thetaStart) * t + HETU_SPIN_SIGN * confA.speedFactor * time;
+    return new THREE.Vector3(r * Math.cos(theta), yA + (yB - yA) * t, r * Math.sin(theta));
+  },
+
+  // Dots on the same arc (same arcCenter) are joined along it, then turned with the figure
+  [LinkInterpolation.ARC]: (layout, confA, confB, t, time) => {
+    const cA = confA.arcCenter;
+    const cB = confB.arcCenter;
+    if (!cA || !cB || cA.x !== cB.x || cA.y !== cB.y) return cartesianLink(layout, confA, confB, t, time);
+
+    const ax = confA.r * Math.cos(confA.thetaStart) - cA.x;
+    const ay = confA.r * Math.sin(confA.thetaStart) - cA.y;
+    const bx = confB.r * Math.cos(confB.thetaStart) - cA.x;
+    const by = confB.r * Math.sin(confB.thetaStart) - cA.y;
+    const startAngle = Math.atan2(ay, ax);
+    let sweep = Math.atan2(by, bx) - startAngle;
+    if (sweep > Math.PI) sweep -= Math.PI * 2;
+    if (sweep < -Math.PI) sweep += Math.PI * 2;
+    const angle = startAngle + sweep * t;
+    const arcR = Math.sqrt(ax * ax + ay * ay);
+    const x = cA.x + arcR * Math.cos(angle);
+    const y = cA.y + arcR * Math.sin(angle);
+
+    const spin = HETU_SPIN_SIGN * confA.speedFactor * time;
+    return new THREE.Vector3(x * Math.cos(spin) - y * Math.sin(spin), x * Math.sin(spin) + y * Math.cos(spin), 0);
+  }
+};
+
+// --- REGISTRY ---
+
+export const HETU_LAYOUTS: HeTuLayoutDefinition[] = [
+  { id: 'GALAXY', label: '阴阳', key: 'g', generate: generateGalaxyMap, getPosition: galaxyPosition, interpolation: LinkInterpolation.CARTESIAN },
+  { id: 'HELIX', label: '双螺旋', key: 'x', generate: generateHelixMap, getPosition: helixPosition, interpolation: LinkInterpolation.POLAR },
+  { id: 'TAIJI', label: '太极', key: 't', generate: generateTaijiMap, getPosition: turningPosition, interpolation: LinkInterpolation.ARC }
+];
+
+export const DEFAULT_HETU_LAYOUT: HeTuLayoutId = HETU_LAYOUTS[0].id;
+
+export const isHeTuLayout = (id: string | null): id is HeTuLayoutId =>
+  id !== null && HETU_LAYOUTS.some(layout => layout.id === id);
+
+// Unknown ids fall back to the first layout
+export const getHeTuLayout = (id: HeTuLayoutId): HeTuLayoutDefinition =>
+  HETU_LAYOUTS.find(layout => layout.id === id) ?? HETU_LAYOUTS[0];
+
+export const getHeTuLinkPosition = (
+  layout: HeTuLayoutDefinition,
+  confA: GalaxyPointConfig,
+  confB: GalaxyPointConfig,
+  t: number,
+  time: number
+): THREE.Vector3 => LINK_INTERPOLATIONS[layout.interpolation](layout, confA, confB, t, time);
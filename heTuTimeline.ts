@@ -0,0 +1,99 @@
+import { HeTuForm, HeTuKeyframe, HeTuLayoutId, HeTuPose, TimelineEasing } from './types';
+import { DEFAULT_HETU_LAYOUT, HETU_LAYOUTS } from './heTuLayouts';
+
+// ============================================================================
+// HE TU TIMELINE (KEYFRAME SEQUENCER)
+// ============================================================================
+// A sequence is a list of forms with transition durations, holds and easing.
+// Sampling it at any playhead time gives the exact pose, so the scene can be
+// scrubbed, paused mid-morph or stepped backward. The spin time is the playhead
+// itself: the arms turn as the sequence plays and rewind when it is scrubbed back.
+
+export const TIMELINE_EASINGS: Record<TimelineEasing, (t: number) => number> = {
+  [TimelineEasing.LINEAR]: t => t,
+  [TimelineEasing.EASE_IN]: t => t * t * t,
+  [TimelineEasing.EASE_OUT]: t => 1 - Math.pow(1 - t, 3),
+  [TimelineEasing.EASE_IN_OUT]: t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+};
+
+export const TIMELINE_EASING_LABELS: Record<TimelineEasing, string> = {
+  [TimelineEasing.LINEAR]: '线性',
+  [TimelineEasing.EASE_IN]: '渐入',
+  [TimelineEasing.EASE_OUT]: '渐出',
+  [TimelineEasing.EASE_IN_OUT]: '缓入缓出'
+};
+
+export const HETU_FORM_LABELS: Record<HeTuForm, string> = {
+  CUBE: '立方',
+  ...Object.fromEntries(HETU_LAYOUTS.map(layout => [layout.id, layout.label]))
+};
+
+let keyframeCounter = 0;
+
+export const createKeyframe = (form: HeTuForm, duration = 2, hold = 2, easing = TimelineEasing.EASE_IN_OUT): HeTuKeyframe => ({
+  id: `kf-${++keyframeCounter}`,
+  form,
+  duration,
+  hold,
+  easing
+});
+
+// Cube → galaxy → helix → cube
+export const createDefaultSequence = (): HeTuKeyframe[] => [
+  createKeyframe('CUBE', 0, 1),
+  createKeyframe('GALAXY', 2, 3),
+  createKeyframe('HELIX', 2, 3),
+  createKeyframe('CUBE', 2, 1)
+];
+
+export const getSequenceDuration = (keyframes: HeTuKeyframe[]): number =>
+  keyframes.reduce((total, kf, i) => total + (i === 0 ? 0 : kf.duration) + kf.hold, 0);
+
+// Start time of each keyframe's transition (the first keyframe starts at 0)
+export const getKeyframeTimes = (keyframes: HeTuKeyframe[]): number[] => {
+  let time = 0;
+  return keyframes.map((kf, i) => {
+    const start = time;
+    time += (i === 0 ? 0 : kf.duration) + kf.hold;
+    return start;
+  });
+};
+
+// Folding into the cube keeps the layout it folds from; unfolding from the cube
+// goes straight to the new layout; layout to layout blends the two.
+export const sampleHeTuSequence = (keyframes: HeTuKeyframe[], playhead: number): HeTuPose => {
+  const time = Math.max(0, Math.min(playhead, getSequenceDuration(keyframes)));
+  if (keyframes.length === 0) return { morph: 0, from: DEFAULT_HETU_LAYOUT, to: DEFAULT_HETU_LAYOUT, blend: 1, time };
+
+  let morph = keyframes[0].form === 'CUBE' ? 0 : 1;
+  let layout: HeTuLayoutId = keyframes[0].form === 'CUBE' ? DEFAULT_HETU_LAYOUT : keyframes[0].form;
+  let start = keyframes[0].hold;
+  const settled = () => ({ morph, from: layout, to: layout, blend: 1, time });
+  if (time <= start) return settled();
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const kf = keyframes[i];
+    const targetMorph = kf.form === 'CUBE' ? 0 : 1;
+    const fromLayout = layout;
+    const toLayout = kf.form === 'CUBE' ? layout : kf.form;
+
+    if (time < start + kf.duration) {
+      const f = TIMELINE_EASINGS[kf.easing]((time - start) / kf.duration);
+      const blending = morph === 1 && toLayout !== fromLayout;
+      return {
+        morph: morph + (targetMorph - morph) * f,
+        from: blending ? fromLayout : toLayout,
+        to: toLayout,
+        blend: blending ? f : 1,
+        time
+      };
+    }
+    start += kf.duration;
+    morph = targetMorph;
+    layout = toLayout;
+
+    if (time <= start + kf.hold) break;
+    start += kf.hold;
+  }
+  return settled();
+};
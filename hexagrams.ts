@@ -0,0 +1,113 @@
+import { HexagramPick, HexagramSlot } from './types';
+import { TRIGRAMS } from './constants';
+import { TRIGRAM_DEFINITIONS } from './bagua';
+
+// ============================================================================
+// HEXAGRAMS (SIXTY-FOUR GUA)
+// ============================================================================
+// A hexagram is a lower trigram with an upper one stacked on it. Lines run
+// bottom to top; the binary value reads them in that order with yang = 1, so
+// the bottom line is the high bit (乾 = 111111 = 63, 坤 = 0) and each half
+// keeps its trigram's Fu Xi value.
+
+export type HexagramLines = [boolean, boolean, boolean, boolean, boolean, boolean];
+
+export interface HexagramDefinition {
+  number: number;        // King Wen sequence, 1–64
+  name: string;          // 乾, 屯 … (translated as a scene term)
+  upper: string;         // Trigram names
+  lower: string;
+  lines: HexagramLines;  // Bottom to top, true = yang
+  binary: number;        // 0–63, bottom line as the high bit
+}
+
+// King Wen order
+const HEXAGRAM_NAMES = [
+  '乾', '坤', '屯', '蒙', '需', '讼', '师', '比',
+  '小畜', '履', '泰', '否', '同人', '大有', '谦', '豫',
+  '随', '蛊', '临', '观', '噬嗑', '贲', '剥', '复',
+  '无妄', '大畜', '颐', '大过', '坎', '离', '咸', '恒',
+  '遯', '大壮', '晋', '明夷', '家人', '睽', '蹇', '解',
+  '损', '益', '夬', '姤', '萃', '升', '困', '井',
+  '革', '鼎', '震', '艮', '渐', '归妹', '丰', '旅',
+  '巽', '兑', '涣', '节', '中孚', '小过', '既济', '未济'
+];
+
+// King Wen number by upper trigram (row) and lower trigram (column)
+const KING_WEN_TRIGRAMS = ['乾', '震', '坎', '艮', '坤', '巽', '离', '兑'];
+const KING_WEN_TABLE = [
+  [1, 25, 6, 33, 12, 44, 13, 10],
+  [34, 51, 40, 62, 16, 32, 55, 54],
+  [5, 3, 29, 39, 8, 48, 63, 60],
+  [26, 27, 4, 52, 23, 18, 22, 41],
+  [11, 24, 7, 15, 2, 46, 36, 19],
+  [9, 42, 59, 53, 20, 57, 37, 61],
+  [14, 21, 64, 56, 35, 50, 30, 38],
+  [43, 17, 47, 31, 45, 28, 49, 58]
+];
+
+const TRIGRAM_LINES: Record<string, [boolean, boolean, boolean]> = Object.fromEntries(
+  TRIGRAM_DEFINITIONS.map(definition => [definition.name, definition.lines])
+);
+
+export const linesToBinary = (lines: boolean[]): number =>
+  lines.reduce((value, yang) => value * 2 + (yang ? 1 : 0), 0);
+
+export const binaryToLines = (binary: number): HexagramLines =>
+  Array.from({ length: 6 }, (_, i) => ((binary >> (5 - i)) & 1) === 1) as HexagramLines;
+
+// Bit of line `index` (0 = bottom) in a binary value or a changing-line mask
+export const lineBit = (index: number): number => 1 << (5 - index);
+
+// All 64, by King Wen number - 1
+export const HEXAGRAMS: HexagramDefinition[] = KING_WEN_TABLE
+  .flatMap((row, u) => row.map((number, l) => {
+    const upper = KING_WEN_TRIGRAMS[u];
+    const lower = KING_WEN_TRIGRAMS[l];
+    const lines = [...TRIGRAM_LINES[lower], ...TRIGRAM_LINES[upper]] as HexagramLines;
+    return { number, name: HEXAGRAM_NAMES[number - 1], upper, lower, lines, binary: linesToBinary(lines) };
+  }))
+  .sort((a, b) => a.number - b.number);
+
+const HEXAGRAMS_BY_BINARY: HexagramDefinition[] = [];
+HEXAGRAMS.forEach(hexagram => { HEXAGRAMS_BY_BINARY[hexagram.binary] = hexagram; });
+
+export const getHexagramByBinary = (binary: number): HexagramDefinition => HEXAGRAMS_BY_BINARY[binary & 63];
+
+export const composeHexagram = (upper: string, lower: string): HexagramDefinition =>
+  getHexagramByBinary(linesToBinary([...TRIGRAM_LINES[lower], ...TRIGRAM_LINES[upper]]));
+
+// Changing lines turn into their opposite; what they turn into is the resulting hexagram (之卦)
+export const applyChangingLines = (hexagram: HexagramDefinition, changingLines: number): HexagramDefinition =>
+  getHexagramByBinary(hexagram.binary ^ changingLines);
+
+// Traditional line names, bottom to top
+export const LINE_NAMES = ['初爻', '二爻', '三爻', '四爻', '五爻', '上爻'];
+
+// --- LO SHU PALACE PICKER ---
+
+// Lo Shu grid as drawn (south up, east on the left); 5 carries no trigram
+export const LOSHU_PALACE_GRID = [
+  [4, 9, 2],
+  [3, 5, 7],
+  [8, 1, 6]
+];
+
+export const isTrigramPalace = (palace: number): boolean => palace !== 5 && palace in TRIGRAMS;
+
+// 坎 over 离: 既济
+export const DEFAULT_HEXAGRAM_PICK: HexagramPick = { upperPalace: 1, lowerPalace: 9, changingLines: 0 };
+
+export const getPickedHexagram = (pick: HexagramPick): HexagramDefinition =>
+  composeHexagram(TRIGRAMS[pick.upperPalace], TRIGRAMS[pick.lowerPalace]);
+
+export const pickPalace = (pick: HexagramPick, slot: HexagramSlot, palace: number): HexagramPick =>
+  slot === 'upper' ? { ...pick, upperPalace: palace } : { ...pick, lowerPalace: palace };
+
+// --- HE TU CUBE LATTICE ---
+
+// The three line pairs (三才: earth = lines 1–2, man = 3–4, heaven = 5–6) as
+// 2-bit coordinates of a 4×4×4 lattice, so all 64 hexagrams get a point:
+// man → x, earth → y, heaven → z; 乾 sits at (3, 3, 3), 坤 at the origin
+export const getHexagramLatticeCoords = (binary: number): [number, number, number] =>
+  [(binary >> 2) & 3, (binary >> 4) & 3, binary & 3];
@@ -0,0 +1,125 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from './types';
+import { EN_MESSAGES } from './locales/en';
+import { PINYIN } from './locales/pinyin';
+
+// ============================================================================
+// LOCALES
+// ============================================================================
+// Chinese is the source language: UI strings and data labels (layouts, routes,
+// trigrams…) are written in Chinese and that text is the message key. A bundle
+// maps source text to its translation, so a missing entry simply stays Chinese
+// and a new language is one more bundle in LOCALES. `{name}` placeholders are
+// filled from the params after lookup.
+
+export type MessageBundle = Record<string, string>;
+export type MessageParams = Record<string, string | number>;
+
+export interface LocaleDefinition {
+  id: Locale;
+  label: string; // Switcher button, in its own language
+  messages: MessageBundle;
+}
+
+export const LOCALES: LocaleDefinition[] = [
+  { id: Locale.ZH_CN, label: '中文', messages: {} }, // The keys are already Chinese
+  { id: Locale.EN, label: 'EN', messages: EN_MESSAGES }
+];
+
+export const DEFAULT_LOCALE = Locale.ZH_CN;
+
+const LOCALE_STORAGE_KEY = 'hetu-luoshu:locale';
+const PINYIN_STORAGE_KEY = 'hetu-luoshu:pinyin';
+
+export const isLocale = (id: string | null): id is Locale =>
+  id !== null && LOCALES.some(locale => locale.id === id);
+
+// Unknown ids fall back to the source language
+export const getLocale = (id: Locale): LocaleDefinition =>
+  LOCALES.find(locale => locale.id === id) ?? LOCALES[0];
+
+const interpolate = (text: string, params?: MessageParams) =>
+  params ? text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : text;
+
+export const translate = (locale: Locale, text: string, params?: MessageParams): string =>
+  interpolate(getLocale(locale).messages[text] ?? text, params);
+
+// Scene term (trigram, direction, element, numeral) with its reading appended
+// when pinyin is on: "坎 kǎn" in Chinese, "Water (kǎn)" elsewhere
+export const formatTerm = (locale: Locale, text: string, pinyin: boolean): string => {
+  const label = translate(locale, text);
+  const reading = pinyin ? PINYIN[text] : undefined;
+  if (!reading) return label;
+  return locale === Locale.ZH_CN ? `${label} ${reading}` : `${label} (${reading})`;
+};
+
+// --- REACT BINDING ---
+
+interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  pinyin: boolean;
+  setPinyin: (pinyin: boolean) => void;
+  t: (text: string, params?: MessageParams) => string;
+  term: (text: string) => string;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+// Storage can be unavailable (private mode, sandboxed frames); the choice then lasts for the visit
+const readStored = (key: string): string | null => {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeStored = (key: string, value: string) => {
+  try {
+    window.localStorage.setItem(key, value);
+  } catch {
+    // Ignored, see readStored
+  }
+};
+
+export const LocaleProvider = ({ children }: { children: React.ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const stored = readStored(LOCALE_STORAGE_KEY);
+    return isLocale(stored) ? stored : DEFAULT_LOCALE;
+  });
+  const [pinyin, setPinyinState] = useState(() => readStored(PINYIN_STORAGE_KEY) === '1');
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    writeStored(LOCALE_STORAGE_KEY, next);
+  }, []);
+
+  const setPinyin = useCallback((next: boolean) => {
+    setPinyinState(next);
+    writeStored(PINYIN_STORAGE_KEY, next ? '1' : '0');
+  }, []);
+
+  const value = useMemo<LocaleContextValue>(() => ({
+    locale,
+    setLocale,
+    pinyin,
+    setPinyin,
+    t: (text, params) => translate(locale, text, params),
+    term: text => formatTerm(locale, text, pinyin)
+  }), [locale, setLocale, pinyin, setPinyin]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+// The canvases bridge context into their scenes; drei <Html> content does not
+// get it, so strings for it are translated outside
+export const useLocale = (): LocaleContextValue => {
+  const context = useContext(LocaleContext);
+  if (!context) throw new Error('useLocale must be used inside <LocaleProvider>');
+  return context;
+};
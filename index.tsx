@@ -1,15 +1,22 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { DotBenchmark, parseBenchCount } from './components/DotBenchmark';
+import { LocaleProvider } from './i18n';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// ?bench[=count] opens the instanced dot benchmark instead of the app
+const benchCount = parseBenchCount(window.location.search);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <LocaleProvider>
+      {benchCount !== null ? <DotBenchmark count={benchCount} /> : <App />}
+    </LocaleProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { LoShuSumLine, LoShuSymmetry } from './types';
+
+// ============================================================================
+// LO SHU SYMMETRY (D4)
+// ============================================================================
+// The Lo Shu stays magic under the eight rotations and reflections of the
+// square. A palace slot is its grid offset from the centre (+x = west on the
+// right, +y = south at the top). An orientation carries every number from its
+// canonical slot to the image of that slot; the number keeps its dots, label
+// and trigram, and takes the sphere anchor and direction of the palace it lands on.
+
+export type PalaceSlot = [number, number];
+
+// 戴九履一，左三右七，二四为肩，六八为足
+export const LOSHU_PALACE_SLOTS: Record<number, PalaceSlot> = {
+  4: [-1, 1], 9: [0, 1], 2: [1, 1],
+  3: [-1, 0], 5: [0, 0], 7: [1, 0],
+  8: [-1, -1], 1: [0, -1], 6: [1, -1]
+};
+
+// [a, b, c, d]: (x, y) → (a·x + b·y, c·x + d·y)
+type SymmetryMatrix = [number, number, number, number];
+
+const SYMMETRY_MATRICES: Record<LoShuSymmetry, SymmetryMatrix> = {
+  [LoShuSymmetry.IDENTITY]: [1, 0, 0, 1],
+  [LoShuSymmetry.ROTATE_90]: [0, -1, 1, 0],
+  [LoShuSymmetry.ROTATE_180]: [-1, 0, 0, -1],
+  [LoShuSymmetry.ROTATE_270]: [0, 1, -1, 0],
+  [LoShuSymmetry.FLIP_HORIZONTAL]: [-1, 0, 0, 1],
+  [LoShuSymmetry.FLIP_VERTICAL]: [1, 0, 0, -1],
+  [LoShuSymmetry.FLIP_DIAGONAL]: [0, -1, -1, 0],   // Mirror line y = -x (4 top left, 6 bottom right)
+  [LoShuSymmetry.FLIP_ANTIDIAGONAL]: [0, 1, 1, 0]  // Mirror line y = x (2 top right, 8 bottom left)
+};
+
+export const LOSHU_SYMMETRY_LABELS: Record<LoShuSymmetry, string> = {
+  [LoShuSymmetry.IDENTITY]: '原位',
+  [LoShuSymmetry.ROTATE_90]: '逆时针 90°',
+  [LoShuSymmetry.ROTATE_180]: '旋转 180°',
+  [LoShuSymmetry.ROTATE_270]: '顺时针 90°',
+  [LoShuSymmetry.FLIP_HORIZONTAL]: '东西翻转',
+  [LoShuSymmetry.FLIP_VERTICAL]: '南北翻转',
+  [LoShuSymmetry.FLIP_DIAGONAL]: '沿 4-5-6 翻转',
+  [LoShuSymmetry.FLIP_ANTIDIAGONAL]: '沿 2-5-8 翻转'
+};
+
+export const LOSHU_SYMMETRIES = Object.values(LoShuSymmetry);
+
+export const applySymmetry = (symmetry: LoShuSymmetry, x: number, y: number): [number, number] => {
+  const [a, b, c, d] = SYMMETRY_MATRICES[symmetry];
+  return [a * x + b * y, c * x + d * y];
+};
+
+// `first`, then `then` (e.g. the current orientation, then a toolbar turn)
+export const composeSymmetry = (first: LoShuSymmetry, then: LoShuSymmetry): LoShuSymmetry => {
+  const [a1, b1, c1, d1] = SYMMETRY_MATRICES[first];
+  const [a2, b2, c2, d2] = SYMMETRY_MATRICES[then];
+  const product = [a2 * a1 + b2 * c1, a2 * b1 + b2 * d1, c2 * a1 + d2 * c1, c2 * b1 + d2 * d1];
+  return LOSHU_SYMMETRIES.find(symmetry => SYMMETRY_MATRICES[symmetry].every((v, i) => v === product[i]))!;
+};
+
+export const getPalaceSlot = (numberValue: number, symmetry: LoShuSymmetry): PalaceSlot =>
+  applySymmetry(symmetry, ...LOSHU_PALACE_SLOTS[numberValue]);
+
+// Canonical palace (its Lo Shu home number) at the slot `numberValue` moves to
+export const getOrientedPalace = (numberValue: number, symmetry: LoShuSymmetry): number => {
+  const [x, y] = getPalaceSlot(numberValue, symmetry);
+  return Number(Object.keys(LOSHU_PALACE_SLOTS).find(key => LOSHU_PALACE_SLOTS[Number(key)][0] === x && LOSHU_PALACE_SLOTS[Number(key)][1] === y));
+};
+
+// Rows from the top (South), as magicSquare.ts stores squares
+export const getOrientedLoShu = (symmetry: LoShuSymmetry): number[][] => {
+  const grid = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  Object.keys(LOSHU_PALACE_SLOTS).map(Number).forEach(numberValue => {
+    const [x, y] = getPalaceSlot(numberValue, symmetry);
+    grid[1 - y][x + 1] = numberValue;
+  });
+  return grid;
+};
+
+const ROW_LABELS: Record<number, string> = { [1]: '南行', [0]: '中行', [-1]: '北行' };
+const COLUMN_LABELS: Record<number, string> = { [-1]: '东列', [0]: '中列', [1]: '西列' };
+
+// A sum line where the orientation puts it: the same numbers, named after the
+// row, column or diagonal they now form (4-9-2 is the east column after a quarter turn)
+export const orientSumLine = (line: LoShuSumLine, symmetry: LoShuSymmetry): LoShuSumLine => {
+  const slots = line.palaces.map(numberValue => getPalaceSlot(numberValue, symmetry));
+  if (slots.every(([, y]) => y === slots[0][1])) return { ...line, kind: 'row', label: ROW_LABELS[slots[0][1]] };
+  if (slots.every(([x]) => x === slots[0][0])) return { ...line, kind: 'column', label: COLUMN_LABELS[slots[0][0]] };
+  const throughSouthEast = slots.some(([x, y]) => x === -1 && y === 1);
+  return { ...line, kind: 'diagonal', label: throughSouthEast ? '东南-西北' : '西南-东北' };
+};
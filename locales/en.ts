@@ -0,0 +1,387 @@
+import type { MessageBundle } from '../i18n';
+
+// English bundle: Chinese source text → English. Entries missing here stay
+// Chinese, so a label added elsewhere shows up untranslated rather than blank.
+
+export const EN_MESSAGES: MessageBundle = {
+  // --- App shell ---
+  '系统初始化中...': 'Initialising system...',
+  '河 图': 'He Tu',
+  '洛 书': 'Lo Shu',
+  '河 洛': 'He ⇄ Lo',
+  '立方生成系统': 'Cubic Generation System',
+  '立体运行系统': 'Spatial Operation System',
+  '河洛变换系统': 'He Tu ⇄ Lo Shu Transformation',
+  '界面语言': 'Interface language',
+  '拼音': 'Pinyin',
+  '场景标注显示拼音': 'Show pinyin on scene labels',
+  '关闭': 'Close',
+  '重置': 'Reset',
+
+  // --- Export menu ---
+  '导出': 'Export',
+  '导出图片 / 录制动画': 'Export image / record animation',
+  '分辨率': 'Resolution',
+  'PNG 背景': 'PNG background',
+  '渐变背景': 'Gradient',
+  '透明背景': 'Transparent',
+  '导出 PNG': 'Export PNG',
+  '录制': 'Record',
+  '视频格式': 'Video format',
+  '开始录制': 'Start',
+  '录制 {clip} · {percent}%': 'Recording {clip} · {percent}%',
+  '按固定帧率逐帧渲染，与屏幕刷新无关': 'Rendered frame by frame at a fixed rate, independent of the display',
+  '模型': 'Model',
+  '当前 ({form})': 'Current ({form})',
+  'STL 为熔接成整体的水密实体，长边 100 mm，可直接打印': 'STL is one watertight body, 100 mm on its long side, ready to print',
+  '无法创建 2D 画布': 'Could not create a 2D canvas',
+  'PNG 编码失败': 'PNG encoding failed',
+  '当前浏览器不支持 WebCodecs，无法录制 WebM': 'This browser has no WebCodecs, so WebM cannot be recorded',
+
+  // Recording clips (sceneExport.ts)
+  '立方 → 阴阳': 'Cube → Yin-Yang',
+  '立方 → 双螺旋': 'Cube → Double Helix',
+  '立方 → 太极': 'Cube → Taiji',
+  '平面 → 球体': 'Plane → Sphere',
+  '球体 → 投影': 'Sphere → Projection',
+  '球体运行': 'Sphere running',
+  '河图 → 洛书': 'He Tu → Lo Shu',
+
+  // Model forms (geometryExport.ts)
+  '河图 · 立方': 'He Tu · Cube',
+  '河图 · 阴阳': 'He Tu · Yin-Yang',
+  '河图 · 双螺旋': 'He Tu · Double Helix',
+  '河图 · 太极': 'He Tu · Taiji',
+  '洛书 · 平面': 'Lo Shu · Plane',
+  '洛书 · 球体': 'Lo Shu · Sphere',
+  '洛书 · 投影': 'Lo Shu · Projection',
+
+  // --- He Tu ---
+  '立方': 'Cube',
+  '阴阳': 'Yin-Yang',
+  '双螺旋': 'Double Helix',
+  '太极': 'Taiji',
+  '归位中...': 'Returning...',
+  '演化中...': 'Morphing...',
+  '暂停{layout}': 'Pause {layout}',
+  '继续{layout}': 'Resume {layout}',
+  '天面 (-Z)': 'Heaven face (-Z)',
+  '地面 (+Z)': 'Earth face (+Z)',
+  '中枢 (0)': 'Pivot (0)',
+  '五行': 'Five Elements',
+  '五行配色与生克循环': 'Five Elements colours and cycles',
+  '切换相生 / 相克': 'Switch generating / controlling cycle',
+  '相生': 'Generating',
+  '相克': 'Controlling',
+  '时间轴': 'Timeline',
+  '时间轴与关键帧序列': 'Timeline and keyframe sequence',
+
+  // Timeline panel
+  '回到开头': 'Back to start',
+  '后退 {step}s': 'Back {step}s',
+  '播放': 'Play',
+  '暂停': 'Pause',
+  '前进 {step}s': 'Forward {step}s',
+  '跳到结尾': 'Jump to end',
+  '循环': 'Loop',
+  '循环播放': 'Loop playback',
+  '跳到 {form}': 'Jump to {form}',
+  '展开 {percent}%': 'Unfolded {percent}%',
+  '旋转 {time}s': 'Spin {time}s',
+  '形态': 'Form',
+  '过渡 s': 'Transition s',
+  '停留 s': 'Hold s',
+  '缓动': 'Easing',
+  '线性': 'Linear',
+  '渐入': 'Ease in',
+  '渐出': 'Ease out',
+  '缓入缓出': 'Ease in-out',
+  '上移': 'Move up',
+  '下移': 'Move down',
+  '删除': 'Delete',
+  '+ 关键帧': '+ Keyframe',
+  '恢复默认': 'Reset to default',
+
+  // --- He Tu ⇄ Lo Shu ---
+  '一六居北 · 三八居东 · 五居中 (十隐)': '1·6 North · 3·8 East · 5 Centre (10 hidden)',
+  '金火易位: 二七 南 → 西 · 四九 西 → 南': 'Metal ⇄ Fire: 2·7 South → West · 4·9 West → South',
+  '河图化洛书': 'He Tu → Lo Shu',
+  '洛书还河图': 'Lo Shu → He Tu',
+
+  // --- Lo Shu ---
+  '能量: 飞星传输中': 'Energy: stars in flight',
+  '能量: 待命': 'Energy: standby',
+  '动态: 立体运转中': 'Motion: sphere turning',
+  '动态: 静态锁定': 'Motion: locked',
+  '{period}运': 'Period {period}',
+  '{year}年 {star}入中': '{year}: {star} in the centre',
+  '月 {star}入中': 'Month: {star} in the centre',
+  '幻方': 'Magic square',
+  'N 阶幻方生成与校验': 'N×N magic square generator and checker',
+  '原始编码层': 'Raw coding layer',
+  '黑白子': 'Dots',
+  '运行解释层': 'Interpretation layer',
+  '数字': 'Numbers',
+  '语义层': 'Semantic layer',
+  '八卦': 'Trigrams',
+  '方位': 'Direction',
+  '连线': 'Lines',
+  '三行三列两对角，和皆十五': 'Three rows, three columns and two diagonals, each summing to 15',
+  '十五': '15',
+  '玄空飞星盘': 'Xuan Kong flying star chart',
+  '星盘': 'Stars',
+  '能量路线': 'Energy route',
+  '自定义': 'Custom',
+  '输入 1-9 的宫位序列，首尾相同则闭合': 'Palaces 1-9 in order; end on the first to close the loop',
+  '元运': 'Period',
+  '运星飞行方向': 'Period star flight direction',
+  '顺飞': 'Forward',
+  '逆飞': 'Reverse',
+  '流年 / 流月': 'Year / month',
+  '显示月星': 'Show monthly stars',
+  '月星': 'Month',
+  '升维': 'To sphere',
+  '降维': 'To plane',
+  '球面投影回平面': 'Project the sphere back onto a plane',
+  '投影': 'Project',
+  '还原球体': 'Back to sphere',
+  '飞星': 'Flying stars',
+  '暂停飞星': 'Pause stars',
+  '运行': 'Run',
+  '停止运行': 'Stop',
+
+  // Energy routes and 15-sum lines (constants.ts)
+  '顺飞 1→9': 'Forward 1→9',
+  '逆飞 9→1': 'Reverse 9→1',
+  '十五线': '15-sum lines',
+  '奇数环': 'Odd ring',
+  '偶数环': 'Even ring',
+  '南行': 'South row',
+  '中行': 'Middle row',
+  '北行': 'North row',
+  '东列': 'East column',
+  '中列': 'Middle column',
+  '西列': 'West column',
+  '东南-西北': 'Southeast–Northwest',
+  '西南-东北': 'Southwest–Northeast',
+
+  // Magic squares
+  '{n} 阶': 'Order {n}',
+  '{method} · 幻和 {sum}': '{method} · magic sum {sum}',
+  '奇阶 · 罗伯法': 'Odd · Siamese method',
+  '双偶阶 · 对角互补': 'Doubly even · diagonal complement',
+  '单偶阶 · 斯特雷奇法': 'Singly even · Strachey method',
+  '{count} 线皆为 {sum}': 'All {count} lines sum to {sum}',
+  '{count} 线失衡': '{count} lines off balance',
+  '复原': 'Restore',
+  '点击两格交换数字': 'Click two cells to swap them',
+
+  // Flying stars (flyingStars.ts)
+  '一白': '1 White',
+  '二黑': '2 Black',
+  '三碧': '3 Jade',
+  '四绿': '4 Green',
+  '五黄': '5 Yellow',
+  '六白': '6 White',
+  '七赤': '7 Red',
+  '八白': '8 White',
+  '九紫': '9 Purple',
+
+  // --- Inspector ---
+  '阳 (奇)': 'Yang (odd)',
+  '阴 (偶)': 'Yin (even)',
+  '卦': 'Trigram',
+  '点数': 'Dots',
+  '河图配': 'He Tu pair',
+  '洛书对宫': 'Lo Shu opposite',
+  '居中': 'Centre',
+  '{n} (合十)': '{n} (sums to 10)',
+
+  // --- Scene terms (readings in locales/pinyin.ts) ---
+  '阳': 'Yang',
+  '阴': 'Yin',
+  '坎': 'Water',
+  '坤': 'Earth',
+  '震': 'Thunder',
+  '巽': 'Wind',
+  '乾': 'Heaven',
+  '兑': 'Lake',
+  '艮': 'Mountain',
+  '离': 'Fire',
+  '北': 'North',
+  '南': 'South',
+  '东': 'East',
+  '西': 'West',
+  '中': 'Centre',
+  '东北': 'Northeast',
+  '东南': 'Southeast',
+  '西北': 'Northwest',
+  '西南': 'Southwest',
+  '木': 'Wood',
+  '火': 'Fire',
+  '土': 'Earth',
+  '金': 'Metal',
+  '水': 'Water',
+  '一': 'one',
+  '二': 'two',
+  '三': 'three',
+  '四': 'four',
+  '五': 'five',
+  '六': 'six',
+  '七': 'seven',
+  '八': 'eight',
+  '九': 'nine',
+  '十': 'ten',
+
+  // --- Keyboard shortcuts & command palette ---
+  '视图': 'View',
+  '相机': 'Camera',
+  '界面': 'Interface',
+  '河图': 'He Tu',
+  '洛书': 'Lo Shu',
+  '河洛': 'He ⇄ Lo',
+  '命令面板': 'Command palette',
+  '快捷键': 'Keyboard shortcuts',
+  '快捷键 (? / Ctrl K)': 'Keyboard shortcuts (? / Ctrl K)',
+  '输入命令…': 'Type a command…',
+  '无匹配命令': 'No matching commands',
+  '输入框获得焦点时快捷键暂停': 'Shortcuts pause while a text field has focus',
+  '开': 'On',
+  '关': 'Off',
+  '暂停 / 继续': 'Pause / resume',
+  '自动旋转': 'Auto-rotate',
+  '对齐视角': 'Align view',
+  '升维 / 降维': 'Sphere / plane',
+  '向左环绕': 'Orbit left',
+  '向右环绕': 'Orbit right',
+  '向上环绕': 'Orbit up',
+  '向下环绕': 'Orbit down',
+
+  // --- Screen reader status & structure table (accessibility.ts) ---
+  '减少动态': 'Reduce motion',
+  '停止自动旋转并缩短形态变换': 'Stop auto-rotation and shorten morphs',
+  '河图立方': 'He Tu cube',
+  '河图演化为{layout}': 'He Tu morphing to {layout}',
+  '河图{layout}运行中': 'He Tu {layout} running',
+  '河图{layout}已暂停': 'He Tu {layout} paused',
+  '河图归位为立方': 'He Tu folding back into the cube',
+  '河图时间轴播放中': 'He Tu timeline playing',
+  '河图时间轴已暂停': 'He Tu timeline paused',
+  '洛书展开为平面': 'Lo Shu flattening into a plane',
+  '洛书升维为球体': 'Lo Shu rising into a sphere',
+  '洛书球面投影为圆盘': 'Lo Shu sphere projecting onto a disc',
+  '飞星运行中': 'stars in flight',
+  '球体旋转中': 'sphere turning',
+  '{n} 阶幻方': 'Order {n} magic square',
+  '河图化为洛书': 'He Tu turning into the Lo Shu',
+  '洛书还原为河图': 'Lo Shu turning back into the He Tu',
+  '当前结构': 'Current structure',
+  '{name}：{dots} 点，阳 {yang} · 阴 {yin}': '{name}: {dots} dots, yang {yang} · yin {yin}',
+  '{n} 阶幻方，幻和 {sum}': 'Order {n} magic square, magic sum {sum}',
+  '第 {row} 行': 'Row {row}',
+  '数': 'Number',
+  '位置': 'Position',
+  '核心': 'Core',
+  '外环': 'Ring',
+  '旋臂': 'Arm',
+  '鱼眼': 'Eye',
+
+  // --- Bagua ring (bagua.ts) ---
+  '八卦环': 'Bagua ring',
+  '八卦环与先天 / 后天排列': 'Bagua ring, Former / Later Heaven',
+  '切换先天 / 后天': 'Switch Former / Later Heaven',
+  '先天': 'Former Heaven',
+  '后天': 'Later Heaven',
+
+  // --- Hexagram explorer (hexagrams.ts) ---
+  '六十四卦': 'Hexagrams',
+  '六十四卦：上下卦、变爻与之卦': 'Hexagrams: upper / lower trigram, changing lines and result',
+  '选择上卦或下卦': 'Choose the upper or lower trigram',
+  '上卦': 'Upper',
+  '下卦': 'Lower',
+  '上': 'upper',
+  '下': 'lower',
+  '本卦': 'Hexagram',
+  '之卦': 'Becomes',
+  '第 {n} 卦': 'No. {n}',
+  '二进制 (自下而上)': 'Binary (bottom line first)',
+  '设为变爻': 'Mark as changing line',
+  '初爻': 'Line 1',
+  '二爻': 'Line 2',
+  '三爻': 'Line 3',
+  '四爻': 'Line 4',
+  '五爻': 'Line 5',
+  '上爻': 'Line 6',
+  '立方坐标 ({x}, {y}, {z})：人爻 x · 地爻 y · 天爻 z': 'Cube point ({x}, {y}, {z}): man lines x · earth lines y · heaven lines z',
+  '点击宫位选卦，点击爻设为变爻': 'Click palaces to pick trigrams, lines to mark them changing',
+  // Hexagram names as scene terms (the doubled trigrams use the trigram names above)
+  '屯': 'Difficulty at the Beginning', '蒙': 'Youthful Folly', '需': 'Waiting', '讼': 'Conflict',
+  '师': 'The Army', '比': 'Holding Together', '小畜': 'Small Taming', '履': 'Treading',
+  '泰': 'Peace', '否': 'Standstill', '同人': 'Fellowship', '大有': 'Great Possession',
+  '谦': 'Modesty', '豫': 'Enthusiasm', '随': 'Following', '蛊': 'Work on the Decayed',
+  '临': 'Approach', '观': 'Contemplation', '噬嗑': 'Biting Through', '贲': 'Grace',
+  '剥': 'Splitting Apart', '复': 'Return', '无妄': 'Innocence', '大畜': 'Great Taming',
+  '颐': 'Nourishment', '大过': 'Great Exceeding', '咸': 'Influence', '恒': 'Duration',
+  '遯': 'Retreat', '大壮': 'Great Power', '晋': 'Progress', '明夷': 'Darkening of the Light',
+  '家人': 'The Family', '睽': 'Opposition', '蹇': 'Obstruction', '解': 'Deliverance',
+  '损': 'Decrease', '益': 'Increase', '夬': 'Breakthrough', '姤': 'Coming to Meet',
+  '萃': 'Gathering', '升': 'Pushing Upward', '困': 'Oppression', '井': 'The Well',
+  '革': 'Revolution', '鼎': 'The Cauldron', '渐': 'Development', '归妹': 'The Marrying Maiden',
+  '丰': 'Abundance', '旅': 'The Wanderer', '涣': 'Dispersion', '节': 'Limitation',
+  '中孚': 'Inner Truth', '小过': 'Small Exceeding', '既济': 'After Completion', '未济': 'Before Completion',
+
+  // --- Symmetry explorer (loShuSymmetry.ts) ---
+  '对称': 'Symmetry',
+  '洛书的旋转与翻转': 'Rotations and reflections of the Lo Shu',
+  '洛书的八种方位': 'The eight orientations of the Lo Shu',
+  '原位': 'Canonical',
+  '逆时针 90°': '90° anticlockwise',
+  '旋转 180°': 'Half turn',
+  '顺时针 90°': '90° clockwise',
+  '逆时针旋转 90°': 'Rotate 90° anticlockwise',
+  '顺时针旋转 90°': 'Rotate 90° clockwise',
+  '东西翻转': 'Flip east–west',
+  '南北翻转': 'Flip south–north',
+  '沿 4-5-6 翻转': 'Reflect across 4-5-6',
+  '沿 2-5-8 翻转': 'Reflect across 2-5-8',
+  '标准': 'Canonical',
+  '戴九履一：标准方位': '9 at the top, 1 at the bottom: the canonical orientation',
+  '由戴九履一旋转或翻转而得': 'A rotation or reflection of the canonical square',
+
+  // --- Structure definitions (structureDefinitions.ts) ---
+  '结构': 'Structure',
+  '结构定义': 'Structure definition',
+  '载入或恢复河图 / 洛书的点阵定义': 'Load or restore the He Tu / Lo Shu dot definitions',
+  '载入 JSON…': 'Load JSON…',
+  '恢复内置': 'Restore built-in',
+  '载入结构定义 (JSON)': 'Load structure definition (JSON)',
+  '恢复内置结构': 'Restore built-in structure',
+  '松开以载入结构定义 (JSON)': 'Drop to load the structure definition (JSON)',
+  '拖入符合 structures/schema.json 的文件即可替换点阵': 'Drop a file matching structures/schema.json to replace the dots',
+  '洛书 · 戴九履一': 'Lo Shu · Nine on top',
+  '自定义河图': 'Custom He Tu',
+  '自定义洛书': 'Custom Lo Shu',
+  '{file} 不是有效的 JSON': '{file} is not valid JSON',
+  '{path} 应为对象': '{path} must be an object',
+  '{path} 含未知字段 {key}': '{path} has an unknown field {key}',
+  '{path} 应为非空数组': '{path} must be a non-empty array',
+  '{path} 应为数字': '{path} must be a number',
+  '{path} 应为 {min} 到 {max} 的整数': '{path} must be an integer from {min} to {max}',
+  '{path} 应为非空字符串': '{path} must be a non-empty string',
+  '{path} 应为 {options} 之一': '{path} must be one of {options}',
+  '{path} 应为 {length} 个数字的数组': '{path} must be an array of {length} numbers',
+  '{path} 最多 {max} 个点': '{path} holds at most {max} dots',
+  '{path} 应与 points 一样长': '{path} must be as long as points',
+  '{path} 应大于 0': '{path} must be greater than 0',
+  '河图缺少数字 {n}': 'The He Tu has no group for {n}',
+  '河图缺少 group 为 {group} 的组': 'The He Tu has no group with group {group}',
+  '点 id 重复：{id}': 'Duplicate dot id: {id}',
+  '洛书缺少第 {n} 宫': 'The Lo Shu is missing palace {n}',
+  '洛书第 {n} 宫重复': 'Palace {n} of the Lo Shu appears twice',
+
+  // --- Benchmark ---
+  '{count} 点 · {vertices} 线顶点': '{count} dots · {vertices} line vertices',
+  '{fps} fps · 平均 {avg} ms': '{fps} fps · avg {avg} ms',
+  'p95 {p95} ms · 最大 {max} ms': 'p95 {p95} ms · max {max} ms',
+  '采样中…': 'Sampling…'
+};
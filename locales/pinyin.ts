@@ -0,0 +1,30 @@
+// Readings of the Chinese terms drawn in the scenes (trigrams, directions,
+// elements, yin / yang, numerals, hexagrams), keyed by the same source text as the bundles.
+// Shown next to the label when pinyin is switched on (see formatTerm in i18n.tsx).
+
+export const PINYIN: Record<string, string> = {
+  // Later Heaven trigrams by Lo Shu palace
+  '坎': 'kǎn', '坤': 'kūn', '震': 'zhèn', '巽': 'xùn', '乾': 'qián', '兑': 'duì', '艮': 'gèn', '离': 'lí',
+
+  // Directions (中 doubles as the centre palace)
+  '北': 'běi', '南': 'nán', '东': 'dōng', '西': 'xī', '中': 'zhōng',
+  '东北': 'dōngběi', '东南': 'dōngnán', '西北': 'xīběi', '西南': 'xīnán',
+
+  // Five Elements
+  '木': 'mù', '火': 'huǒ', '土': 'tǔ', '金': 'jīn', '水': 'shuǐ',
+
+  '阳': 'yáng', '阴': 'yīn',
+
+  // Numerals 1-10
+  '一': 'yī', '二': 'èr', '三': 'sān', '四': 'sì', '五': 'wǔ',
+  '六': 'liù', '七': 'qī', '八': 'bā', '九': 'jiǔ', '十': 'shí',
+
+  // Hexagrams (the eight doubled trigrams read as above)
+  '屯': 'zhūn', '蒙': 'méng', '需': 'xū', '讼': 'sòng', '师': 'shī', '比': 'bǐ', '小畜': 'xiǎochù', '履': 'lǚ',
+  '泰': 'tài', '否': 'pǐ', '同人': 'tóngrén', '大有': 'dàyǒu', '谦': 'qiān', '豫': 'yù', '随': 'suí', '蛊': 'gǔ',
+  '临': 'lín', '观': 'guān', '噬嗑': 'shìhé', '贲': 'bì', '剥': 'bō', '复': 'fù', '无妄': 'wúwàng', '大畜': 'dàchù',
+  '颐': 'yí', '大过': 'dàguò', '咸': 'xián', '恒': 'héng', '遯': 'dùn', '大壮': 'dàzhuàng', '晋': 'jìn', '明夷': 'míngyí',
+  '家人': 'jiārén', '睽': 'kuí', '蹇': 'jiǎn', '解': 'xiè', '损': 'sǔn', '益': 'yì', '夬': 'guài', '姤': 'gòu',
+  '萃': 'cuì', '升': 'shēng', '困': 'kùn', '井': 'jǐng', '革': 'gé', '鼎': 'dǐng', '渐': 'jiàn', '归妹': 'guīmèi',
+  '丰': 'fēng', '旅': 'lǚ', '涣': 'huàn', '节': 'jié', '中孚': 'zhōngfú', '小过': 'xiǎoguò', '既济': 'jìjì', '未济': 'wèijì'
+};
@@ -0,0 +1,194 @@
+import { MagicSquareMethod, MagicSquareReport, MagicLine, LoShuPointData, Polarity } from './types';
+import { LOSHU_GRID_SIZE } from './constants';
+
+// ============================================================================
+// MAGIC SQUARES (幻方) — GENERALISED LO SHU
+// ============================================================================
+// Squares are stored row-major with row 0 at the top (South), matching the
+// Lo Shu plane. The order-3 Siamese square comes out as the Lo Shu itself:
+//   4 9 2
+//   3 5 7
+//   8 1 6
+
+export const MIN_MAGIC_ORDER = 3;
+export const MAX_MAGIC_ORDER = 9;
+
+export const getMagicConstant = (n: number): number => (n * (n * n + 1)) / 2;
+
+export const getMagicSquareMethod = (n: number): MagicSquareMethod => {
+  if (n % 2 === 1) return MagicSquareMethod.SIAMESE;
+  return n % 4 === 0 ? MagicSquareMethod.DOUBLY_EVEN : MagicSquareMethod.SINGLY_EVEN;
+};
+
+// --- CONSTRUCTIONS ---
+
+const createGrid = (n: number): number[][] => Array.from({ length: n }, () => new Array(n).fill(0));
+
+// Odd order: start mid-row, move diagonally, drop down one when blocked.
+// Walks from the middle of the bottom row towards the lower right (the mirror
+// image of the textbook top-row walk) so order 3 keeps 9 at the top.
+const buildSiamese = (n: number): number[][] => {
+  const grid = createGrid(n);
+  let row = n - 1;
+  let col = Math.floor(n / 2);
+
+  for (let k = 1; k <= n * n; k++) {
+    grid[row][col] = k;
+    const nextRow = (row + 1) % n;
+    const nextCol = (col + 1) % n;
+    if (grid[nextRow][nextCol] !== 0) {
+      row = (row - 1 + n) % n;
+    } else {
+      row = nextRow;
+      col = nextCol;
+    }
+  }
+  return grid;
+};
+
+// n = 4k: count 1..n² in order, then complement (n² + 1 - v) every cell
+// that lies on a diagonal of its 4×4 block
+const buildDoublyEven = (n: number): number[][] => {
+  const grid = createGrid(n);
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const value = row * n + col + 1;
+      const onBlockDiagonal = (row % 4 === col % 4) || ((row % 4) + (col % 4) === 3);
+      grid[row][col] = onBlockDiagonal ? n * n + 1 - value : value;
+    }
+  }
+  return grid;
+};
+
+// n = 4k + 2 (Strachey): four odd Siamese quadrants
+//   A  C      A = base, B = base + m², C = base + 2m², D = base + 3m²
+//   D  B
+// then swap the leftmost k columns of A/D (shifted one to the right on the
+// middle row) and the rightmost k - 1 columns of C/B
+const buildSinglyEven = (n: number): number[][] => {
+  const m = n / 2;
+  const k = (n - 2) / 4;
+  const base = buildSiamese(m);
+  const grid = createGrid(n);
+  const m2 = m * m;
+
+  for (let row = 0; row < m; row++) {
+    for (let col = 0; col < m; col++) {
+      const v = base[row][col];
+      grid[row][col] = v;                // A
+      grid[row + m][col + m] = v + m2;     // B
+      grid[row][col + m] = v + 2 * m2;     // C
+      grid[row + m][col] = v + 3 * m2;     // D
+    }
+  }
+
+  const middle = Math.floor(m / 2);
+  for (let row = 0; row < m; row++) {
+    for (let col = 0; col < n; col++) {
+      const swapLeft = row === middle ? (col >= 1 && col <= k) : col < k;
+      const swapRight = col >= n - k + 1;
+      if (swapLeft || swapRight) {
+        const tmp = grid[row][col];
+        grid[row][col] = grid[row + m][col];
+        grid[row + m][col] = tmp;
+      }
+    }
+  }
+  return grid;
+};
+
+export const generateMagicSquare = (n: number): number[][] => {
+  if (!Number.isInteger(n) || n < MIN_MAGIC_ORDER) {
+    throw new Error(`Magic squares need an integer order >= ${MIN_MAGIC_ORDER}, got ${n}`);
+  }
+  switch (getMagicSquareMethod(n)) {
+    case MagicSquareMethod.SIAMESE: return buildSiamese(n);
+    case MagicSquareMethod.DOUBLY_EVEN: return buildDoublyEven(n);
+    case MagicSquareMethod.SINGLY_EVEN: return buildSinglyEven(n);
+  }
+};
+
+// --- VERIFICATION ---
+
+export const verifyMagicSquare = (square: number[][]): MagicSquareReport => {
+  const n = square.length;
+  const magicConstant = getMagicConstant(n);
+  const lines: MagicLine[] = [];
+
+  const addLine = (kind: MagicLine['kind'], index: number, cells: [number, number][]) => {
+    const sum = cells.reduce((acc, [r, c]) => acc + square[r][c], 0);
+    lines.push({ kind, index, cells, sum });
+  };
+
+  const range = Array.from({ length: n }, (_, i) => i);
+  range.forEach(r => addLine('row', r, range.map(c => [r, c] as [number, number])));
+  range.forEach(c => addLine('column', c, range.map(r => [r, c] as [number, number])));
+  addLine('diagonal', 0, range.map(i => [i, i] as [number, number]));
+  addLine('diagonal', 1, range.map(i => [i, n - 1 - i] as [number, number]));
+
+  const brokenLines = lines.filter(line => line.sum !== magicConstant);
+  return { order: n, magicConstant, lines, brokenLines, isMagic: brokenLines.length === 0 };
+};
+
+// --- PLANE LAYOUT ---
+
+const MAGIC_DOT_GAP = 1.3;                    // Same spacing as the Lo Shu patterns
+const MAGIC_MAX_EXTENT = LOSHU_GRID_SIZE * 7; // Keeps large orders inside the plane camera
+
+// Order 3 maps exactly onto the Lo Shu grid; larger orders shrink to fit
+export const getMagicSquareLayout = (n: number) => {
+  const naturalCell = Math.max(LOSHU_GRID_SIZE, (n + 1) * MAGIC_DOT_GAP);
+  const scale = Math.min(1, MAGIC_MAX_EXTENT / (n * naturalCell));
+  return {
+    cellSize: naturalCell * scale,
+    dotGap: MAGIC_DOT_GAP * scale,
+    dotRadius: 0.5 * scale
+  };
+};
+
+export const getMagicCellCenter = (n: number, row: number, col: number): [number, number] => {
+  const { cellSize } = getMagicSquareLayout(n);
+  const half = (n - 1) / 2;
+  return [(col - half) * cellSize, (half - row) * cellSize];
+};
+
+// Generic dot pattern: `count` dots in a centred, near-square block
+const getGenericOffsets = (count: number, gap: number): [number, number][] => {
+  const cols = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / cols);
+  const offsets: [number, number][] = [];
+  for (let i = 0; i < count; i++) {
+    const r = Math.floor(i / cols);
+    const inRow = r === rows - 1 ? count - r * cols : cols; // Last row may be short
+    const c = i % cols;
+    offsets.push([(c - (inRow - 1) / 2) * gap, ((rows - 1) / 2 - r) * gap]);
+  }
+  return offsets;
+};
+
+// Flat points for the plane view. The square has no spherical form, so the
+// sphere and projection positions repeat the plane position.
+export const generateMagicSquarePoints = (square: number[][]): LoShuPointData[] => {
+  const n = square.length;
+  const { dotGap } = getMagicSquareLayout(n);
+  const points: LoShuPointData[] = [];
+
+  square.forEach((rowValues, row) => {
+    rowValues.forEach((num, col) => {
+      const [baseX, baseY] = getMagicCellCenter(n, row, col);
+      getGenericOffsets(num, dotGap).forEach((off, i) => {
+        const pos: [number, number, number] = [baseX + off[0], baseY + off[1], 0];
+        points.push({
+          id: `ms-${num}-${i}`,
+          numberValue: num,
+          polarity: num % 2 !== 0 ? Polarity.YANG : Polarity.YIN,
+          planePos: pos,
+          spherePos: pos,
+          projectionPos: pos
+        });
+      });
+    });
+  });
+
+  return points;
+};
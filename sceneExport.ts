@@ -0,0 +1,214 @@
+import { Muxer, ArrayBufferTarget } from 'webm-muxer';
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { AnimationState, CaptureBackground, CaptureClip, CaptureResolution, HeLuoStage, LoShuMorphState, RecordingFormat, ViewMode } from './types';
+import type { SceneCaptureApi } from './components/SceneCapture';
+import { HETU_LAYOUTS } from './heTuLayouts';
+
+// ============================================================================
+// SCENE EXPORT (PNG STILLS, WEBM / GIF RECORDINGS)
+// ============================================================================
+// Stills re-render the current frame at the chosen size. Recordings run the
+// scene with frameloop="never" and step it with a fixed timestep, so a clip comes
+// out identical however fast (or slow) the machine renders it.
+
+export const CAPTURE_RESOLUTIONS: CaptureResolution[] = [
+  { id: '720p', label: '1280 × 720', width: 1280, height: 720 },
+  { id: '1080p', label: '1920 × 1080', width: 1920, height: 1080 },
+  { id: '4k', label: '4K 3840 × 2160', width: 3840, height: 2160 },
+  { id: 'square', label: '2048 × 2048', width: 2048, height: 2048 }
+];
+
+// GIF delays are whole centiseconds, so 25 fps (4 cs) is exact where 30 is not
+export const RECORDING_FPS: Record<RecordingFormat, number> = {
+  [RecordingFormat.WEBM]: 30,
+  [RecordingFormat.GIF]: 25
+};
+
+const GIF_MAX_WIDTH = 720;           // Palette quantisation is per frame; keep GIFs small
+const WEBM_BITS_PER_PIXEL = 4;       // × width × height per second (≈ 8 Mbps at 1080p)
+const CLIP_SETTLE_SECONDS = 4;       // Unrecorded lead-in for the `from` state to come to rest
+
+export const CAPTURE_CLIPS: CaptureClip[] = [
+  ...HETU_LAYOUTS.map((layout): CaptureClip => ({
+    id: `hetu-${layout.id.toLowerCase()}`, label: `立方 → ${layout.label}`, view: ViewMode.HETU,
+    from: { animState: AnimationState.STATIC, heTuLayout: layout.id }, to: { animState: AnimationState.RUNNING }, duration: 6
+  })),
+  {
+    id: 'loshu-sphere', label: '平面 → 球体', view: ViewMode.LOSHU,
+    from: { lsMorph: LoShuMorphState.PLANE, lsRunning: false, lsSphereRotating: false }, to: { lsMorph: LoShuMorphState.SPHERE }, duration: 5
+  },
+  {
+    id: 'loshu-projection', label: '球体 → 投影', view: ViewMode.LOSHU,
+    from: { lsMorph: LoShuMorphState.SPHERE, lsRunning: false, lsSphereRotating: false }, to: { lsMorph: LoShuMorphState.PROJECTION }, duration: 5
+  },
+  {
+    id: 'loshu-run', label: '球体运行', view: ViewMode.LOSHU,
+    from: { lsMorph: LoShuMorphState.SPHERE, lsRunning: false, lsSphereRotating: false }, to: { lsRunning: true, lsSphereRotating: true }, duration: 8
+  },
+  {
+    id: 'heluo-forward', label: '河图 → 洛书', view: ViewMode.HELUO,
+    from: { hlStage: HeLuoStage.HETU }, to: { hlStage: HeLuoStage.LOSHU }, duration: 5
+  }
+];
+
+// --- COMPOSITING ---
+
+// Same radial gradient as the page background in index.html
+const drawGradient = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+  gradient.addColorStop(0, '#3b82f6');
+  gradient.addColorStop(1, '#172554');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+// Must run in the same task as the WebGL render (the drawing buffer is not preserved)
+const compositeFrame = (ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, background: CaptureBackground) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  if (background === CaptureBackground.GRADIENT) drawGradient(ctx, width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+};
+
+const createCanvas2D = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('无法创建 2D 画布');
+  return ctx;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- STILLS ---
+
+export const exportStill = (api: SceneCaptureApi, resolution: CaptureResolution, background: CaptureBackground): Promise<Blob> => {
+  const ctx = createCanvas2D(resolution.width, resolution.height);
+  api.beginCapture(resolution.width, resolution.height);
+  try {
+    api.render();
+    compositeFrame(ctx, api.canvas, background);
+  } finally {
+    api.endCapture();
+  }
+  return new Promise((resolve, reject) => {
+    ctx.canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG 编码失败')), 'image/png');
+  });
+};
+
+// --- ENCODERS ---
+
+interface FrameSink {
+  addFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+const createWebMSink = (width: number, height: number, fps: number): FrameSink => {
+  if (typeof VideoEncoder === 'undefined') throw new Error('当前浏览器不支持 WebCodecs，无法录制 WebM');
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'V_VP9', width, height, frameRate: fps }
+  });
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: e => { failure = e; }
+  });
+  encoder.configure({ codec: 'vp09.00.10.08', width, height, bitrate: width * height * WEBM_BITS_PER_PIXEL, framerate: fps });
+
+  return {
+    addFrame: async (canvas, index) => {
+      if (failure) throw failure;
+      // Timestamps come from the frame index, never the wall clock
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(index * 1e6 / fps), duration: Math.round(1e6 / fps) });
+      encoder.encode(frame, { keyFrame: index % (fps * 2) === 0 });
+      frame.close();
+      while (encoder.encodeQueueSize > 4) await new Promise(r => setTimeout(r, 5));
+    },
+    finish: async () => {
+      await encoder.flush();
+      encoder.close();
+      if (failure) throw failure;
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: 'video/webm' });
+    }
+  };
+};
+
+const createGifSink = (width: number, height: number, fps: number): FrameSink => {
+  const gif = GIFEncoder();
+  const delay = Math.round(1000 / fps);
+
+  return {
+    addFrame: async (canvas, index) => {
+      const { data } = canvas.getContext('2d')!.getImageData(0, 0, width, height);
+      const palette = quantize(data, 256);
+      gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay, repeat: index === 0 ? 0 : undefined });
+      // Quantising is slow; let the progress bar paint
+      await new Promise(r => setTimeout(r, 0));
+    },
+    finish: async () => {
+      gif.finish();
+      return new Blob([gif.bytes()], { type: 'image/gif' });
+    }
+  };
+};
+
+// GIFs are scaled down to GIF_MAX_WIDTH; WebM needs even dimensions
+export const getRecordingSize = (resolution: CaptureResolution, format: RecordingFormat) => {
+  const scale = format === RecordingFormat.GIF ? Math.min(1, GIF_MAX_WIDTH / resolution.width) : 1;
+  const even = (n: number) => Math.max(2, Math.round(n * scale / 2) * 2);
+  return { width: even(resolution.width), height: even(resolution.height) };
+};
+
+// --- RECORDING ---
+
+// Expects the scene to be freshly mounted in `clip.from` with frameloop="never".
+// `applyTarget` switches the app to `clip.to` and resolves once the scene has the new props.
+export const recordClip = async ({
+  api,
+  clip,
+  format,
+  resolution,
+  applyTarget,
+  onProgress
+}: {
+  api: SceneCaptureApi,
+  clip: CaptureClip,
+  format: RecordingFormat,
+  resolution: CaptureResolution,
+  applyTarget: () => Promise<void>,
+  onProgress: (fraction: number) => void
+}): Promise<Blob> => {
+  const fps = RECORDING_FPS[format];
+  const { width, height } = getRecordingSize(resolution, format);
+  const sink = format === RecordingFormat.WEBM ? createWebMSink(width, height, fps) : createGifSink(width, height, fps);
+  const ctx = createCanvas2D(width, height);
+  const settleFrames = CLIP_SETTLE_SECONDS * fps;
+  const frameCount = Math.round(clip.duration * fps);
+
+  api.beginCapture(width, height);
+  try {
+    for (let i = 1; i <= settleFrames; i++) api.advance(i / fps);
+    await applyTarget();
+
+    for (let i = 0; i < frameCount; i++) {
+      api.advance((settleFrames + i + 1) / fps);
+      compositeFrame(ctx, api.canvas, CaptureBackground.GRADIENT);
+      await sink.addFrame(ctx.canvas, i);
+      onProgress((i + 1) / frameCount);
+    }
+  } finally {
+    api.endCapture();
+  }
+  return sink.finish();
+};
@@ -0,0 +1,125 @@
+import { AnimationState, BaguaArrangement, CameraPose, ElementCycle, HeLuoStage, LoShuLayerState, LoShuMorphState, LoShuSymmetry, ShareState, ViewMode } from './types';
+import { CUSTOM_ROUTE_ID, DEFAULT_LOSHU_LAYERS, LOSHU_ENERGY_ROUTES } from './constants';
+import { DEFAULT_HETU_LAYOUT, isHeTuLayout } from './heTuLayouts';
+
+// ============================================================================
+// SHAREABLE URL STATE
+// ============================================================================
+// The app state is mirrored into the location hash as readable key/value pairs,
+// e.g. #view=LOSHU&morph=SPHERE&layers=dots,numbers,lines&flow=1&cam=40,30,40,15
+// Missing or malformed keys fall back to their defaults one by one, so a partial
+// or hand-edited link still opens.
+
+export const DEFAULT_SHARE_STATE: ShareState = {
+  viewMode: ViewMode.HETU,
+  animState: AnimationState.STATIC,
+  heTuLayout: DEFAULT_HETU_LAYOUT,
+  autoRotate: false,
+  elementCycle: null,
+  baguaArrangement: null,
+  hlStage: HeLuoStage.HETU,
+  lsMorph: LoShuMorphState.PLANE,
+  lsSymmetry: LoShuSymmetry.IDENTITY,
+  lsRunning: false,
+  lsSphereRotating: false,
+  lsLayers: DEFAULT_LOSHU_LAYERS,
+  lsRouteId: LOSHU_ENERGY_ROUTES[0].id,
+  lsCustomRoute: '1 5 9 1',
+  camera: null
+};
+
+// Transitional states end when the scene reports the morph settled; a link lands on their end state
+const SETTLED_ANIMATION: Partial<Record<AnimationState, AnimationState>> = {
+  [AnimationState.MORPHING]: AnimationState.RUNNING,
+  [AnimationState.RETURNING]: AnimationState.STATIC
+};
+
+// Older links spelled the helix into the state (hetu=HELIX_RUNNING) and kept the layout in `last`
+const LEGACY_HELIX_STATE = /^HELIX_(MORPHING|RUNNING|PAUSED)$/;
+
+const LAYER_KEYS = Object.keys(DEFAULT_LOSHU_LAYERS) as (keyof LoShuLayerState)[];
+
+// --- PARSING HELPERS ---
+
+const parseEnum = <T extends string>(values: Record<string, T>, raw: string | null): T | undefined =>
+  raw !== null && (Object.values(values) as string[]).includes(raw) ? raw as T : undefined;
+
+const parseFlag = (raw: string | null): boolean | undefined =>
+  raw === '1' ? true : raw === '0' ? false : undefined;
+
+// Comma-separated list of the layers that are on; unknown names are ignored
+const parseLayers = (raw: string | null): LoShuLayerState | undefined => {
+  if (raw === null) return undefined;
+  const on = new Set(raw.split(','));
+  const layers = {} as LoShuLayerState;
+  LAYER_KEYS.forEach(key => { layers[key] = on.has(key); });
+  return layers;
+};
+
+// x,y,z,zoom
+const parseCamera = (raw: string | null): CameraPose | undefined => {
+  if (raw === null) return undefined;
+  const values = raw.split(',').map(Number);
+  if (values.length !== 4 || !values.every(Number.isFinite) || values[3] <= 0) return undefined;
+  return { position: [values[0], values[1], values[2]], zoom: values[3] };
+};
+
+const formatNumber = (n: number) => String(Math.round(n * 100) / 100);
+
+// --- PUBLIC API ---
+
+export const parseShareState = (hash: string): ShareState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const d = DEFAULT_SHARE_STATE;
+
+  const legacyHelix = params.get('hetu')?.match(LEGACY_HELIX_STATE);
+  const animState = parseEnum(AnimationState, legacyHelix ? legacyHelix[1] : params.get('hetu')) ?? d.animState;
+  const layout = params.get('layout') ?? (legacyHelix ? 'HELIX' : params.get('last'));
+  const lsMorph = parseEnum(LoShuMorphState, params.get('morph')) ?? d.lsMorph;
+  const elements = params.get('elements');
+  const bagua = params.get('bagua');
+  const routeId = params.get('route');
+  const isSphere = lsMorph === LoShuMorphState.SPHERE;
+
+  return {
+    viewMode: parseEnum(ViewMode, params.get('view')) ?? d.viewMode,
+    animState: SETTLED_ANIMATION[animState] ?? animState,
+    heTuLayout: isHeTuLayout(layout) ? layout : d.heTuLayout,
+    autoRotate: parseFlag(params.get('auto')) ?? d.autoRotate,
+    elementCycle: elements === 'off' ? null : parseEnum(ElementCycle, elements) ?? d.elementCycle,
+    baguaArrangement: bagua === 'off' ? null : parseEnum(BaguaArrangement, bagua) ?? d.baguaArrangement,
+    hlStage: parseEnum(HeLuoStage, params.get('heluo')) ?? d.hlStage,
+    lsMorph,
+    lsSymmetry: parseEnum(LoShuSymmetry, params.get('sym')) ?? d.lsSymmetry,
+    // Flying stars and rotation only run on the sphere (their buttons are disabled elsewhere)
+    lsRunning: isSphere && (parseFlag(params.get('flow')) ?? d.lsRunning),
+    lsSphereRotating: isSphere && (parseFlag(params.get('rotate')) ?? d.lsSphereRotating),
+    lsLayers: parseLayers(params.get('layers')) ?? d.lsLayers,
+    lsRouteId: routeId !== null && (routeId === CUSTOM_ROUTE_ID || LOSHU_ENERGY_ROUTES.some(r => r.id === routeId)) ? routeId : d.lsRouteId,
+    lsCustomRoute: params.get('seq') ?? d.lsCustomRoute,
+    camera: parseCamera(params.get('cam')) ?? d.camera
+  };
+};
+
+export const serializeShareState = (state: ShareState): string => {
+  const params = new URLSearchParams();
+  params.set('view', state.viewMode);
+  params.set('hetu', SETTLED_ANIMATION[state.animState] ?? state.animState);
+  params.set('layout', state.heTuLayout);
+  params.set('auto', state.autoRotate ? '1' : '0');
+  params.set('elements', state.elementCycle ?? 'off');
+  params.set('bagua', state.baguaArrangement ?? 'off');
+  params.set('heluo', state.hlStage);
+  params.set('morph', state.lsMorph);
+  params.set('sym', state.lsSymmetry);
+  params.set('flow', state.lsRunning ? '1' : '0');
+  params.set('rotate', state.lsSphereRotating ? '1' : '0');
+  params.set('layers', LAYER_KEYS.filter(key => state.lsLayers[key]).join(','));
+  params.set('route', state.lsRouteId);
+  if (state.lsRouteId === CUSTOM_ROUTE_ID) params.set('seq', state.lsCustomRoute);
+  if (state.camera) {
+    params.set('cam', [...state.camera.position, state.camera.zoom].map(formatNumber).join(','));
+  }
+  // Keep the commas readable
+  return '#' + params.toString().replace(/%2C/g, ',');
+};
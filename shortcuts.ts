@@ -0,0 +1,122 @@
+import { useEffect, useRef } from 'react';
+
+// ============================================================================
+// KEYBOARD SHORTCUTS & COMMANDS
+// ============================================================================
+// Every toolbar action is also a command: App builds the list for the current
+// view from its handlers, the window keydown listener runs the one bound to a
+// key, and the command palette (Ctrl/⌘ K) lists them all with their state.
+// Bindings are lower-case KeyboardEvent.key values with optional modifiers,
+// e.g. 'h', 'space', 'arrowleft', '?', 'shift+t', 'mod+k' (mod = Ctrl or ⌘).
+
+export interface Command {
+  id: string;
+  label: string;              // Chinese source text (translated by the palette)
+  group: string;              // Palette / help section, also source text
+  keys: string[];             // Empty = palette only
+  state?: boolean | string;   // On / off, or the current value as source text
+  enabled?: boolean;          // false while the action can't run (greyed out)
+  run: () => void;
+}
+
+interface ParsedBinding {
+  key: string;
+  mod: boolean;
+  shift: boolean;
+}
+
+const parseBinding = (binding: string): ParsedBinding => {
+  const parts = binding.split('+');
+  const key = parts[parts.length - 1];
+  return { key, mod: parts.includes('mod'), shift: parts.includes('shift') };
+};
+
+const eventKey = (event: KeyboardEvent) => event.key === ' ' ? 'space' : event.key.toLowerCase();
+
+// Shift only counts for letters: '?' already is Shift + '/' on most layouts
+export const matchesBinding = (event: KeyboardEvent, binding: string): boolean => {
+  const { key, mod, shift } = parseBinding(binding);
+  if (eventKey(event) !== key || event.altKey) return false;
+  if ((event.ctrlKey || event.metaKey) !== mod) return false;
+  return /^[a-z]$/.test(key) ? event.shiftKey === shift : !shift || event.shiftKey;
+};
+
+export const findCommand = (commands: Command[], event: KeyboardEvent): Command | undefined =>
+  commands.find(command => command.enabled !== false && command.keys.some(binding => matchesBinding(event, binding)));
+
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'email', 'url', 'tel', 'password', 'number', 'date', 'time', 'datetime-local', 'month', 'week']);
+
+// Fields that take the keys themselves: typing a route or a date must not switch views
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLInputElement) return TEXT_INPUT_TYPES.has(target.type);
+  return target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+};
+
+const ARROW_KEYS = ['arrowleft', 'arrowright', 'arrowup', 'arrowdown'];
+
+// Keys a focused control acts on itself: arrows step the timeline scrubber and
+// move between radio buttons, so they must not orbit the camera instead
+const NATIVE_KEYS: Record<string, Set<string>> = {
+  range: new Set([...ARROW_KEYS, 'home', 'end', 'pageup', 'pagedown', 'space']),
+  radio: new Set([...ARROW_KEYS, 'space'])
+};
+
+export const handlesKeyNatively = (target: EventTarget | null, event: KeyboardEvent): boolean =>
+  target instanceof HTMLInputElement && (NATIVE_KEYS[target.type]?.has(eventKey(event)) ?? false);
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_NAMES: Record<string, string> = {
+  space: 'Space',
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  escape: 'Esc',
+  enter: 'Enter'
+};
+
+// Key caps for the palette and help overlay: 'mod+k' → ['Ctrl', 'K'] (['⌘', 'K'] on a Mac)
+export const formatBinding = (binding: string): string[] => {
+  const { key, mod, shift } = parseBinding(binding);
+  return [
+    ...(mod ? [isMac ? '⌘' : 'Ctrl'] : []),
+    ...(shift ? ['Shift'] : []),
+    KEY_NAMES[key] ?? key.toUpperCase()
+  ];
+};
+
+// Palette filter: every word of the query must appear in the label, group or
+// a key, in the source text or the translation
+export const filterCommands = (commands: Command[], query: string, translate: (text: string) => string): Command[] => {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return commands;
+  return commands.filter(command => {
+    const haystack = [command.label, translate(command.label), command.group, translate(command.group), ...command.keys]
+      .join(' ')
+      .toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+// Runs the command bound to each key press; the listener reads the latest list
+// through a ref, so rebuilding the commands every render doesn't re-subscribe
+export const useShortcuts = (commands: Command[], enabled: boolean) => {
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || isTypingTarget(event.target) || handlesKeyNatively(event.target, event)) return;
+      const command = findCommand(commandsRef.current, event);
+      if (!command) return;
+      event.preventDefault(); // Space would also click the focused button, arrows scroll
+      command.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
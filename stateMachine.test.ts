@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { HETU_MACHINE, LOSHU_MACHINE, MachineState, canTransition, transition } from './stateMachine';
+import { AnimationState, HeTuContext, HeTuEvent, LoShuContext, LoShuEvent, LoShuMorphState } from './types';
+
+// View state machines: every legal transition, the events each state ignores,
+// and the morph reports that settle the He Tu.
+
+const heTu = (value: AnimationState, layout = 'GALAXY'): MachineState<AnimationState, HeTuContext> => ({ value, context: { layout } });
+const loShu = (value: LoShuMorphState, running = false, rotating = false): MachineState<LoShuMorphState, LoShuContext> =>
+  ({ value, context: { running, rotating } });
+
+const sendHeTu = (state: MachineState<AnimationState, HeTuContext>, event: HeTuEvent) => transition(HETU_MACHINE, state, event);
+const sendLoShu = (state: MachineState<LoShuMorphState, LoShuContext>, event: LoShuEvent) => transition(LOSHU_MACHINE, state, event);
+
+describe('HETU_MACHINE', () => {
+  describe('STATIC (cube)', () => {
+    it('morphs into any layout', () => {
+      expect(sendHeTu(heTu(AnimationState.STATIC), { type: 'LAYOUT', layout: 'HELIX' })).toEqual(heTu(AnimationState.MORPHING, 'HELIX'));
+      expect(sendHeTu(heTu(AnimationState.STATIC), { type: 'LAYOUT', layout: 'GALAXY' })).toEqual(heTu(AnimationState.MORPHING, 'GALAXY'));
+    });
+
+    it('ignores RESET and morph reports', () => {
+      const state = heTu(AnimationState.STATIC);
+      expect(sendHeTu(state, { type: 'RESET' })).toBe(state);
+      expect(sendHeTu(state, { type: 'MORPH_COMPLETE', form: 'CUBE' })).toBe(state);
+      expect(sendHeTu(state, { type: 'MORPH_COMPLETE', form: 'GALAXY' })).toBe(state);
+    });
+  });
+
+  describe('MORPHING', () => {
+    it('starts running once the target layout has settled', () => {
+      expect(sendHeTu(heTu(AnimationState.MORPHING), { type: 'MORPH_COMPLETE', form: 'GALAXY' })).toEqual(heTu(AnimationState.RUNNING));
+    });
+
+    it('ignores reports of any other form', () => {
+      const state = heTu(AnimationState.MORPHING);
+      expect(sendHeTu(state, { type: 'MORPH_COMPLETE', form: 'CUBE' })).toBe(state);
+      expect(sendHeTu(state, { type: 'MORPH_COMPLETE', form: 'HELIX' })).toBe(state);
+    });
+
+    it('retargets to another layout mid-way', () => {
+      expect(sendHeTu(heTu(AnimationState.MORPHING), { type: 'LAYOUT', layout: 'TAIJI' })).toEqual(heTu(AnimationState.MORPHING, 'TAIJI'));
+    });
+
+    it('ignores its own layout button', () => {
+      const state = heTu(AnimationState.MORPHING);
+      expect(sendHeTu(state, { type: 'LAYOUT', layout: 'GALAXY' })).toBe(state);
+    });
+
+    it('folds back on RESET', () => {
+      expect(sendHeTu(heTu(AnimationState.MORPHING), { type: 'RESET' })).toEqual(heTu(AnimationState.RETURNING));
+    });
+  });
+
+  describe('RUNNING / PAUSED', () => {
+    it('pauses and resumes on the current layout button', () => {
+      expect(sendHeTu(heTu(AnimationState.RUNNING), { type: 'LAYOUT', layout: 'GALAXY' })).toEqual(heTu(AnimationState.PAUSED));
+      expect(sendHeTu(heTu(AnimationState.PAUSED), { type: 'LAYOUT', layout: 'GALAXY' })).toEqual(heTu(AnimationState.RUNNING));
+    });
+
+    it('morphs to another layout from either', () => {
+      [AnimationState.RUNNING, AnimationState.PAUSED].forEach(value => {
+        expect(sendHeTu(heTu(value), { type: 'LAYOUT', layout: 'HELIX' })).toEqual(heTu(AnimationState.MORPHING, 'HELIX'));
+      });
+    });
+
+    it('folds back on RESET, keeping the layout it folds from', () => {
+      [AnimationState.RUNNING, AnimationState.PAUSED].forEach(value => {
+        expect(sendHeTu(heTu(value, 'TAIJI'), { type: 'RESET' })).toEqual(heTu(AnimationState.RETURNING, 'TAIJI'));
+      });
+    });
+
+    it('ignores morph reports', () => {
+      [AnimationState.RUNNING, AnimationState.PAUSED].forEach(value => {
+        const state = heTu(value);
+        expect(sendHeTu(state, { type: 'MORPH_COMPLETE', form: 'GALAXY' })).toBe(state);
+        expect(sendHeTu(state, { type: 'MORPH_COMPLETE', form: 'CUBE' })).toBe(state);
+      });
+    });
+  });
+
+  describe('RETURNING', () => {
+    it('settles into the cube once it has folded', () => {
+      expect(sendHeTu(heTu(AnimationState.RETURNING), { type: 'MORPH_COMPLETE', form: 'CUBE' })).toEqual(heTu(AnimationState.STATIC));
+    });
+
+    it('ignores reports of a layout', () => {
+      const state = heTu(AnimationState.RETURNING);
+      expect(sendHeTu(state, { type: 'MORPH_COMPLETE', form: 'GALAXY' })).toBe(state);
+    });
+
+    it('turns back into any layout, including the one it folds from', () => {
+      expect(sendHeTu(heTu(AnimationState.RETURNING), { type: 'LAYOUT', layout: 'GALAXY' })).toEqual(heTu(AnimationState.MORPHING));
+      expect(sendHeTu(heTu(AnimationState.RETURNING), { type: 'LAYOUT', layout: 'HELIX' })).toEqual(heTu(AnimationState.MORPHING, 'HELIX'));
+    });
+
+    it('ignores RESET', () => {
+      const state = heTu(AnimationState.RETURNING);
+      expect(sendHeTu(state, { type: 'RESET' })).toBe(state);
+    });
+  });
+
+  it('walks the cube → layout → cube round trip', () => {
+    const steps: HeTuEvent[] = [
+      { type: 'LAYOUT', layout: 'HELIX' },
+      { type: 'MORPH_COMPLETE', form: 'HELIX' },
+      { type: 'LAYOUT', layout: 'HELIX' },
+      { type: 'RESET' },
+      { type: 'MORPH_COMPLETE', form: 'CUBE' }
+    ];
+    let state = heTu(AnimationState.STATIC);
+    const values = steps.map(event => (state = sendHeTu(state, event)).value);
+    expect(values).toEqual([AnimationState.MORPHING, AnimationState.RUNNING, AnimationState.PAUSED, AnimationState.RETURNING, AnimationState.STATIC]);
+  });
+});
+
+describe('LOSHU_MACHINE', () => {
+  it('raises the plane to the sphere and back', () => {
+    expect(sendLoShu(loShu(LoShuMorphState.PLANE), { type: 'TOGGLE_SPHERE' })).toEqual(loShu(LoShuMorphState.SPHERE));
+    expect(sendLoShu(loShu(LoShuMorphState.SPHERE), { type: 'TOGGLE_SPHERE' })).toEqual(loShu(LoShuMorphState.PLANE));
+    expect(sendLoShu(loShu(LoShuMorphState.PROJECTION), { type: 'TOGGLE_SPHERE' })).toEqual(loShu(LoShuMorphState.PLANE));
+  });
+
+  it('projects from the plane or the sphere and restores the sphere', () => {
+    expect(sendLoShu(loShu(LoShuMorphState.PLANE), { type: 'TOGGLE_PROJECTION' })).toEqual(loShu(LoShuMorphState.PROJECTION));
+    expect(sendLoShu(loShu(LoShuMorphState.SPHERE), { type: 'TOGGLE_PROJECTION' })).toEqual(loShu(LoShuMorphState.PROJECTION));
+    expect(sendLoShu(loShu(LoShuMorphState.PROJECTION), { type: 'TOGGLE_PROJECTION' })).toEqual(loShu(LoShuMorphState.SPHERE));
+  });
+
+  it('toggles flying stars and rotation on the sphere only', () => {
+    expect(sendLoShu(loShu(LoShuMorphState.SPHERE), { type: 'TOGGLE_FLOW' })).toEqual(loShu(LoShuMorphState.SPHERE, true));
+    expect(sendLoShu(loShu(LoShuMorphState.SPHERE, true), { type: 'TOGGLE_FLOW' })).toEqual(loShu(LoShuMorphState.SPHERE, false));
+    expect(sendLoShu(loShu(LoShuMorphState.SPHERE), { type: 'TOGGLE_ROTATION' })).toEqual(loShu(LoShuMorphState.SPHERE, false, true));
+    expect(sendLoShu(loShu(LoShuMorphState.SPHERE, false, true), { type: 'TOGGLE_ROTATION' })).toEqual(loShu(LoShuMorphState.SPHERE));
+
+    [LoShuMorphState.PLANE, LoShuMorphState.PROJECTION].forEach(value => {
+      const state = loShu(value, true, true);
+      expect(sendLoShu(state, { type: 'TOGGLE_FLOW' })).toBe(state);
+      expect(sendLoShu(state, { type: 'TOGGLE_ROTATION' })).toBe(state);
+      expect(canTransition(LOSHU_MACHINE, state, { type: 'TOGGLE_FLOW' })).toBe(false);
+    });
+  });
+
+  it('keeps the flying stars paused, not cleared, while off the sphere', () => {
+    const away = sendLoShu(loShu(LoShuMorphState.SPHERE, true), { type: 'TOGGLE_SPHERE' });
+    expect(away).toEqual(loShu(LoShuMorphState.PLANE, true));
+    expect(sendLoShu(away, { type: 'TOGGLE_SPHERE' })).toEqual(loShu(LoShuMorphState.SPHERE, true));
+  });
+
+  it('flattens to the plane from every state and stops the rotation', () => {
+    Object.values(LoShuMorphState).forEach(value => {
+      expect(sendLoShu(loShu(value, true, true), { type: 'FLATTEN' })).toEqual(loShu(LoShuMorphState.PLANE, true, false));
+    });
+  });
+
+  it('resets to a still plane from every state', () => {
+    Object.values(LoShuMorphState).forEach(value => {
+      expect(sendLoShu(loShu(value, true, true), { type: 'RESET' })).toEqual(loShu(LoShuMorphState.PLANE));
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { AnimationState, HeTuContext, HeTuEvent, LoShuContext, LoShuEvent, LoShuMorphState } from './types';
+
+// ============================================================================
+// VIEW STATE MACHINES
+// ============================================================================
+// Each view's modes are a typed transition table: per state, the events it
+// accepts, optional guards, the target state and actions on the context.
+// `transition` is pure, so App.tsx feeds it to a functional setState and the
+// tables can be tested without a renderer.
+
+export interface MachineState<S extends string, C> {
+  value: S;
+  context: C;
+}
+
+interface MachineTransition<S extends string, C, E> {
+  target: S;
+  guard?: (context: C, event: E) => boolean;
+  action?: (context: C, event: E) => C;
+}
+
+type TransitionList<S extends string, C, E> = MachineTransition<S, C, E> | MachineTransition<S, C, E>[];
+
+interface MachineStateNode<S extends string, C, E extends { type: string }> {
+  entry?: (context: C) => C; // Runs when the state is entered from another state
+  on?: { [T in E['type']]?: TransitionList<S, C, Extract<E, { type: T }>> };
+}
+
+export type MachineDefinition<S extends string, C, E extends { type: string }> = Record<S, MachineStateNode<S, C, E>>;
+
+// The first transition whose guard passes wins. Unhandled events return the
+// same object, so React skips the re-render.
+export const transition = <S extends string, C, E extends { type: string }>(
+  machine: MachineDefinition<S, C, E>,
+  state: MachineState<S, C>,
+  event: E
+): MachineState<S, C> => {
+  const handlers = machine[state.value].on?.[event.type as E['type']] as TransitionList<S, C, E> | undefined;
+  const candidates = handlers === undefined ? [] : Array.isArray(handlers) ? handlers : [handlers];
+  const chosen = candidates.find(t => !t.guard || t.guard(state.context, event));
+  if (!chosen) return state;
+
+  let context = chosen.action ? chosen.action(state.context, event) : state.context;
+  if (chosen.target !== state.value) {
+    const entry = machine[chosen.target].entry;
+    if (entry) context = entry(context);
+  }
+  return { value: chosen.target, context };
+};
+
+export const canTransition = <S extends string, C, E extends { type: string }>(
+  machine: MachineDefinition<S, C, E>,
+  state: MachineState<S, C>,
+  event: E
+): boolean => transition(machine, state, event) !== state;
+
+// --- HE TU (立方 / layouts from heTuLayouts.ts) ---
+// One set of phases serves every layout; the context holds which one. Pressing
+// the current layout's button pauses / resumes it, any other layout morphs
+// there. Morphs end on the scene's MORPH_COMPLETE report, not on a timer, and
+// only when the settled form is the one the state is heading for.
+
+type HeTuMachine = MachineDefinition<AnimationState, HeTuContext, HeTuEvent>;
+
+type LayoutEvent = Extract<HeTuEvent, { type: 'LAYOUT' }>;
+
+const isCurrentLayout = (context: HeTuContext, event: LayoutEvent) => event.layout === context.layout;
+const morphTo = {
+  target: AnimationState.MORPHING,
+  action: (context: HeTuContext, event: LayoutEvent): HeTuContext => ({ ...context, layout: event.layout })
+};
+const toggleTo = (target: AnimationState) => [{ target, guard: isCurrentLayout }, morphTo];
+const returning = { target: AnimationState.RETURNING };
+
+export const HETU_MACHINE: HeTuMachine = {
+  [AnimationState.STATIC]: {
+    on: { LAYOUT: morphTo }
+  },
+  [AnimationState.MORPHING]: {
+    on: {
+      LAYOUT: { ...morphTo, guard: (context, event) => !isCurrentLayout(context, event) },
+      RESET: returning,
+      MORPH_COMPLETE: { target: AnimationState.RUNNING, guard: (context, e) => e.form === context.layout }
+    }
+  },
+  [AnimationState.RUNNING]: {
+    on: { LAYOUT: toggleTo(AnimationState.PAUSED), RESET: returning }
+  },
+  [AnimationState.PAUSED]: {
+    on: { LAYOUT: toggleTo(AnimationState.RUNNING), RESET: returning }
+  },
+  [AnimationState.RETURNING]: {
+    on: {
+      LAYOUT: morphTo,
+      MORPH_COMPLETE: { target: AnimationState.STATIC, guard: (_, e) => e.form === 'CUBE' }
+    }
+  }
+};
+
+// --- LO SHU (平面 / 球体 / 投影) ---
+// Flying stars and rotation only toggle on the sphere; elsewhere they keep their
+// setting (paused) until the sphere comes back.
+
+type LoShuMachine = MachineDefinition<LoShuMorphState, LoShuContext, LoShuEvent>;
+
+const toggleFlow = { target: LoShuMorphState.SPHERE, action: (c: LoShuContext) => ({ ...c, running: !c.running }) };
+const toggleRotation = { target: LoShuMorphState.SPHERE, action: (c: LoShuContext) => ({ ...c, rotating: !c.rotating }) };
+const flatten = { target: LoShuMorphState.PLANE, action: (c: LoShuContext) => ({ ...c, rotating: false }) };
+const reset = { target: LoShuMorphState.PLANE, action: (): LoShuContext => ({ running: false, rotating: false }) };
+
+export const LOSHU_MACHINE: LoShuMachine = {
+  [LoShuMorphState.PLANE]: {
+    on: {
+      TOGGLE_SPHERE: { target: LoShuMorphState.SPHERE },
+      TOGGLE_PROJECTION: { target: LoShuMorphState.PROJECTION },
+      FLATTEN: flatten,
+      RESET: reset
+    }
+  },
+  [LoShuMorphState.SPHERE]: {
+    on: {
+      TOGGLE_SPHERE: { target: LoShuMorphState.PLANE },
+      TOGGLE_PROJECTION: { target: LoShuMorphState.PROJECTION },
+      TOGGLE_FLOW: toggleFlow,
+      TOGGLE_ROTATION: toggleRotation,
+      FLATTEN: flatten,
+      RESET: reset
+    }
+  },
+  [LoShuMorphState.PROJECTION]: {
+    on: {
+      TOGGLE_SPHERE: { target: LoShuMorphState.PLANE },
+      TOGGLE_PROJECTION: { target: LoShuMorphState.SPHERE },
+      FLATTEN: flatten,
+      RESET: reset
+    }
+  }
+};
@@ -0,0 +1,215 @@
+import { DotPattern, HeTuGroupDefinition, HeTuPoint, HeTuStructureDefinition, LoShuPalaceDefinition, LoShuStructureDefinition, Polarity, StructureDefinition } from './types';
+import type { MessageParams } from './i18n';
+import heTuPreset from './structures/hetu.json';
+import loShuPreset from './structures/loshu.json';
+
+// ============================================================================
+// STRUCTURE DEFINITIONS (JSON)
+// ============================================================================
+// The He Tu and Lo Shu dots are described by JSON definitions (structures/
+// schema.json) rather than written out in the generators. The presets in
+// structures/ reproduce the original cube and square to the last bit; a file
+// dropped onto the app goes through the same checks and replaces the preset
+// of its kind. Errors are source-text templates naming the offending field, so
+// the app can translate them like any other message.
+
+export class StructureDefinitionError extends Error {
+  constructor(message: string, readonly params: MessageParams = {}) {
+    super(message);
+    this.name = 'StructureDefinitionError';
+  }
+}
+
+const MAX_PATTERN_DOTS = 100; // Per group: enough for any figure, and a typo can't hang the scene
+const POLARITIES = Object.values(Polarity);
+const HETU_GROUPS: HeTuPoint['group'][] = ['north', 'south', 'east', 'west', 'center'];
+const HETU_NUMBERS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+const LOSHU_NUMBERS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+// --- FIELD READERS ---
+
+type JsonObject = Record<string, unknown>;
+
+const readObject = (value: unknown, path: string, keys: string[]): JsonObject => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new StructureDefinitionError('{path} 应为对象', { path });
+  }
+  const unknown = Object.keys(value).find(key => !keys.includes(key));
+  if (unknown) throw new StructureDefinitionError('{path} 含未知字段 {key}', { path, key: unknown });
+  return value as JsonObject;
+};
+
+const readArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value) || value.length === 0) throw new StructureDefinitionError('{path} 应为非空数组', { path });
+  return value;
+};
+
+const readNumber = (value: unknown, path: string, fallback?: number): number => {
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new StructureDefinitionError('{path} 应为数字', { path });
+  return value;
+};
+
+const readInteger = (value: unknown, path: string, min: number, max: number): number => {
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    throw new StructureDefinitionError('{path} 应为 {min} 到 {max} 的整数', { path, min, max });
+  }
+  return value as number;
+};
+
+const readString = (value: unknown, path: string, fallback?: string): string => {
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== 'string' || value.length === 0) throw new StructureDefinitionError('{path} 应为非空字符串', { path });
+  return value;
+};
+
+const readEnum = <T extends string>(value: unknown, path: string, options: readonly T[]): T => {
+  if (!options.includes(value as T)) throw new StructureDefinitionError('{path} 应为 {options} 之一', { path, options: options.join(' / ') });
+  return value as T;
+};
+
+const readVector = <T extends [number, number] | [number, number, number]>(value: unknown, path: string, length: T['length']): T => {
+  if (!Array.isArray(value) || value.length !== length) throw new StructureDefinitionError('{path} 应为 {length} 个数字的数组', { path, length });
+  return value.map((v, i) => readNumber(v, `${path}[${i}]`)) as T;
+};
+
+const readPattern = (value: unknown, path: string): DotPattern => {
+  const raw = readObject(value, path, ['type', 'count', 'axis', 'step', 'offset', 'points', 'ids', 'rotate']);
+  const rotate = readNumber(raw.rotate, `${path}.rotate`, 0);
+
+  if (raw.type === 'line') {
+    return {
+      type: 'line',
+      count: readInteger(raw.count, `${path}.count`, 1, MAX_PATTERN_DOTS),
+      axis: raw.axis === undefined ? 'x' : readEnum(raw.axis, `${path}.axis`, ['x', 'y'] as const),
+      step: readNumber(raw.step, `${path}.step`, 1),
+      offset: raw.offset === undefined ? [0, 0] : readVector<[number, number]>(raw.offset, `${path}.offset`, 2),
+      rotate
+    };
+  }
+  if (raw.type === 'points') {
+    const points = readArray(raw.points, `${path}.points`).map((p, i) => readVector<[number, number]>(p, `${path}.points[${i}]`, 2));
+    if (points.length > MAX_PATTERN_DOTS) throw new StructureDefinitionError('{path} 最多 {max} 个点', { path: `${path}.points`, max: MAX_PATTERN_DOTS });
+    const ids = raw.ids === undefined ? undefined : readArray(raw.ids, `${path}.ids`).map((id, i) => readString(id, `${path}.ids[${i}]`));
+    if (ids && ids.length !== points.length) throw new StructureDefinitionError('{path} 应与 points 一样长', { path: `${path}.ids` });
+    return { type: 'points', points, ids, rotate };
+  }
+  throw new StructureDefinitionError('{path} 应为 {options} 之一', { path: `${path}.type`, options: 'line / points' });
+};
+
+// --- PATTERNS ---
+
+// Dots of a pattern in scene units, with the suffix each one adds to its point id.
+// Scaling before rotating keeps the presets bit-identical to the old generators.
+export const getPatternDots = (pattern: DotPattern, unit: number): { key: string, offset: [number, number] }[] => {
+  const angle = pattern.rotate * Math.PI / 180;
+  const place = (u: number, v: number): [number, number] => {
+    const x = u * unit;
+    const y = v * unit;
+    if (!pattern.rotate) return [x, y];
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return [x * cos - y * sin, x * sin + y * cos];
+  };
+
+  if (pattern.type === 'points') {
+    return pattern.points.map(([u, v], i) => ({ key: pattern.ids?.[i] ?? String(i), offset: place(u, v) }));
+  }
+  const [du, dv] = pattern.offset;
+  return Array.from({ length: pattern.count }, (_, i) => {
+    const along = (i - (pattern.count - 1) / 2) * pattern.step;
+    return { key: String(i), offset: pattern.axis === 'x' ? place(along + du, dv) : place(du, along + dv) };
+  });
+};
+
+// --- LOADERS ---
+
+export const parseHeTuDefinition = (value: unknown): HeTuStructureDefinition => {
+  const raw = readObject(value, 'JSON', ['$schema', 'kind', 'name', 'unit', 'groups']);
+  readEnum(raw.kind, 'kind', ['hetu'] as const);
+  const unit = readNumber(raw.unit, 'unit', 1);
+  if (unit <= 0) throw new StructureDefinitionError('{path} 应大于 0', { path: 'unit' });
+
+  const groups = readArray(raw.groups, 'groups').map((entry, i): HeTuGroupDefinition => {
+    const path = `groups[${i}]`;
+    const group = readObject(entry, path, ['id', 'numberValue', 'polarity', 'group', 'position', 'pattern']);
+    return {
+      id: readString(group.id, `${path}.id`),
+      numberValue: readInteger(group.numberValue, `${path}.numberValue`, 1, 10),
+      polarity: readEnum(group.polarity, `${path}.polarity`, POLARITIES),
+      group: readEnum(group.group, `${path}.group`, HETU_GROUPS),
+      position: readVector<[number, number, number]>(group.position, `${path}.position`, 3),
+      pattern: readPattern(group.pattern, `${path}.pattern`)
+    };
+  });
+
+  // The scenes look up every number and every side (centres, elements, layouts)
+  const missing = HETU_NUMBERS.find(n => !groups.some(group => group.numberValue === n));
+  if (missing !== undefined) throw new StructureDefinitionError('河图缺少数字 {n}', { n: missing });
+  const missingSide = HETU_GROUPS.find(side => !groups.some(group => group.group === side));
+  if (missingSide) throw new StructureDefinitionError('河图缺少 group 为 {group} 的组', { group: missingSide });
+
+  const ids = new Set<string>();
+  groups.forEach(group => getPatternDots(group.pattern, unit).forEach(({ key }) => {
+    const id = `${group.id}-${key}`;
+    if (ids.has(id)) throw new StructureDefinitionError('点 id 重复：{id}', { id });
+    ids.add(id);
+  }));
+
+  return { kind: 'hetu', name: readString(raw.name, 'name', '自定义河图'), unit, groups };
+};
+
+export const parseLoShuDefinition = (value: unknown): LoShuStructureDefinition => {
+  const raw = readObject(value, 'JSON', ['$schema', 'kind', 'name', 'unit', 'palaces']);
+  readEnum(raw.kind, 'kind', ['loshu'] as const);
+  const unit = readNumber(raw.unit, 'unit', 1);
+  if (unit <= 0) throw new StructureDefinitionError('{path} 应大于 0', { path: 'unit' });
+
+  const palaces = readArray(raw.palaces, 'palaces').map((entry, i): LoShuPalaceDefinition => {
+    const path = `palaces[${i}]`;
+    const palace = readObject(entry, path, ['numberValue', 'polarity', 'anchor', 'pattern']);
+    return {
+      numberValue: readInteger(palace.numberValue, `${path}.numberValue`, 1, 9),
+      polarity: readEnum(palace.polarity, `${path}.polarity`, POLARITIES),
+      anchor: readVector<[number, number, number]>(palace.anchor, `${path}.anchor`, 3),
+      pattern: readPattern(palace.pattern, `${path}.pattern`)
+    };
+  });
+
+  // The square itself (slots, sum lines, symmetries) is fixed: one entry per palace
+  LOSHU_NUMBERS.forEach(n => {
+    const count = palaces.filter(palace => palace.numberValue === n).length;
+    if (count === 0) throw new StructureDefinitionError('洛书缺少第 {n} 宫', { n });
+    if (count > 1) throw new StructureDefinitionError('洛书第 {n} 宫重复', { n });
+  });
+
+  return {
+    kind: 'loshu',
+    name: readString(raw.name, 'name', '自定义洛书'),
+    unit,
+    palaces: [...palaces].sort((a, b) => a.numberValue - b.numberValue)
+  };
+};
+
+export const parseStructureDefinition = (value: unknown): StructureDefinition => {
+  const kind = typeof value === 'object' && value !== null ? (value as JsonObject).kind : undefined;
+  if (kind === 'hetu') return parseHeTuDefinition(value);
+  if (kind === 'loshu') return parseLoShuDefinition(value);
+  throw new StructureDefinitionError('{path} 应为 {options} 之一', { path: 'kind', options: 'hetu / loshu' });
+};
+
+// A dropped or picked file
+export const readStructureFile = async (file: File): Promise<StructureDefinition> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(await file.text());
+  } catch (e) {
+    throw new StructureDefinitionError('{file} 不是有效的 JSON', { file: file.name });
+  }
+  return parseStructureDefinition(value);
+};
+
+// --- BUILT-IN PRESETS ---
+
+export const HETU_PRESET = parseHeTuDefinition(heTuPreset);
+export const LOSHU_PRESET = parseLoShuDefinition(loShuPreset);
@@ -14,23 +14,60 @@ export interface HeTuPoint {
   numberValue: number; // The number this dot belongs to (e.g., part of the '7' group)
 }
 
+export enum FiveElement {
+  WOOD = 'WOOD',   // 木
+  FIRE = 'FIRE',   // 火
+  EARTH = 'EARTH', // 土
+  METAL = 'METAL', // 金
+  WATER = 'WATER'  // 水
+}
+
+export enum ElementCycle {
+  GENERATING = 'GENERATING',   // 相生: Wood → Fire → Earth → Metal → Water → Wood
+  CONTROLLING = 'CONTROLLING'  // 相克: Wood → Earth → Water → Fire → Metal → Wood
+}
+
+// Order of the eight trigrams around the bagua ring (see bagua.ts)
+export enum BaguaArrangement {
+  FORMER_HEAVEN = 'FORMER_HEAVEN', // 先天 (Fu Xi): 乾 south, 坤 north
+  LATER_HEAVEN = 'LATER_HEAVEN'    // 后天 (King Wen): 离 south, 坎 north, as in the Lo Shu
+}
+
+// Hexagram explorer (see hexagrams.ts): the trigrams of two Lo Shu palaces, one over the other
+export interface HexagramPick {
+  upperPalace: number;
+  lowerPalace: number;
+  changingLines: number; // Mask in the hexagram's bit order (lineBit)
+}
+
+export type HexagramSlot = 'upper' | 'lower'; // Trigram the next palace pick sets
+
+// Everything the inspector panel shows about one number group
+export interface NumberInfo {
+  numberValue: number;
+  polarity: Polarity;
+  direction: string;
+  element: FiveElement;
+  trigram?: string;       // Later Heaven trigram of the Lo Shu palace (1-9 only)
+  heTuPartner: number;    // 生成 pair in the He Tu (n ± 5)
+  loShuPartner?: number;  // Opposite Lo Shu palace, summing to 10 (1-9 only)
+  dotCount: number;
+}
+
+// Phase of the He Tu morph; which shape it unfolds into is the layout (HeTuContext.layout)
 export enum AnimationState {
   STATIC = 'STATIC',         // Cube form
-  MORPHING = 'MORPHING',     // Transition Cube -> Galaxy
-  RUNNING = 'RUNNING',       // Galaxy spinning
-  RETURNING = 'RETURNING',   // Transition Galaxy/Helix -> Cube
-  PAUSED = 'PAUSED',         // Frozen in Galaxy form
-  
-  // New Helix States
-  HELIX_MORPHING = 'HELIX_MORPHING', // Transition Cube -> Helix
-  HELIX_RUNNING = 'HELIX_RUNNING',   // Helix spinning
-  HELIX_PAUSED = 'HELIX_PAUSED'      // Frozen in Helix form
+  MORPHING = 'MORPHING',     // Transition Cube -> Layout
+  RUNNING = 'RUNNING',       // Layout spinning
+  RETURNING = 'RETURNING',   // Transition Layout -> Cube
+  PAUSED = 'PAUSED'          // Frozen in Layout form
 }
 
 export enum GalaxyPointType {
   CORE = 'CORE',
   RING = 'RING',
-  ARM = 'ARM'
+  ARM = 'ARM',
+  EYE = 'EYE'  // Taiji eye: turns with the figure, unlike the galaxy core/ring
 }
 
 export interface GalaxyPointConfig {
@@ -43,13 +80,24 @@ export interface GalaxyPointConfig {
   
   // Helix specific overrides (optional, can reuse above or add new)
   yOffset?: number;   // For vertical stacking in Helix
+
+  // Taiji: centre of the arc the dot sits on (before spin); links between dots on the same arc follow it
+  arcCenter?: { x: number, y: number };
+}
+
+// How the connecting lines run between two dots of a layout (heTuLayouts.ts)
+export enum LinkInterpolation {
+  CARTESIAN = 'CARTESIAN', // Straight between the two positions
+  POLAR = 'POLAR',         // Radius, height and angle interpolated (helix strands)
+  ARC = 'ARC'              // Along the arc both dots sit on (arcCenter)
 }
 
 // --- LO SHU TYPES ---
 
 export enum ViewMode {
   HETU = 'HETU',
-  LOSHU = 'LOSHU'
+  LOSHU = 'LOSHU',
+  HELUO = 'HELUO' // He Tu ⇄ Lo Shu transformation
 }
 
 export enum LoShuMorphState {
@@ -58,14 +106,51 @@ export enum LoShuMorphState {
   PROJECTION = 'PROJECTION'
 }
 
+// The eight orientations of the Lo Shu square, the dihedral group D4 (see loShuSymmetry.ts)
+export enum LoShuSymmetry {
+  IDENTITY = 'IDENTITY',                   // 戴九履一 (canonical)
+  ROTATE_90 = 'ROTATE_90',                 // Quarter turn anticlockwise
+  ROTATE_180 = 'ROTATE_180',
+  ROTATE_270 = 'ROTATE_270',
+  FLIP_HORIZONTAL = 'FLIP_HORIZONTAL',     // East ⇄ west
+  FLIP_VERTICAL = 'FLIP_VERTICAL',         // South ⇄ north
+  FLIP_DIAGONAL = 'FLIP_DIAGONAL',         // Across the 4-5-6 diagonal
+  FLIP_ANTIDIAGONAL = 'FLIP_ANTIDIAGONAL'  // Across the 2-5-8 diagonal
+}
+
+// --- VIEW STATE MACHINE TYPES (see stateMachine.ts) ---
+
+export interface HeTuContext {
+  layout: HeTuLayoutId; // Shape being unfolded into, shown or folded from ("归位中..." while returning)
+}
+
+export type HeTuEvent =
+  | { type: 'LAYOUT', layout: HeTuLayoutId } // A layout's toolbar button
+  | { type: 'RESET' }           // 重置 button
+  | { type: 'MORPH_COMPLETE', form: HeTuForm }; // Reported by HeTuScene once the dots settle
+
+export interface LoShuContext {
+  running: boolean;  // Flying star energy flow
+  rotating: boolean; // Sphere rotation
+}
+
+export type LoShuEvent =
+  | { type: 'TOGGLE_SPHERE' }     // 升维 / 降维
+  | { type: 'TOGGLE_PROJECTION' } // 投影 / 还原球体
+  | { type: 'TOGGLE_FLOW' }
+  | { type: 'TOGGLE_ROTATION' }
+  | { type: 'FLATTEN' }           // Back to the plane (the magic square only exists there)
+  | { type: 'RESET' };
+
 export interface LoShuPointData {
   id: string;
   numberValue: number; // 1-9
   polarity: Polarity;
   
   // Coordinates
-  planePos: [number, number, number];  // x, y, 0
-  spherePos: [number, number, number]; // x, y, z
+  planePos: [number, number, number];      // x, y, 0
+  spherePos: [number, number, number];     // x, y, z
+  projectionPos: [number, number, number]; // x, y, 0 (sphere projected onto disc)
   
   // Metadata for Trigrams/Direction
   trigram?: string;
@@ -78,4 +163,236 @@ export interface LoShuLayerState {
   trigrams: boolean;
   directions: boolean;
   lines: boolean;
+  stars: boolean;
+  sums: boolean;
+}
+
+export interface LoShuSumLine {
+  id: string;
+  kind: 'row' | 'column' | 'diagonal';
+  label: string;
+  palaces: number[]; // Lo Shu numbers along the line, in reading order
+}
+
+export interface LoShuEnergyRoute {
+  id: string;
+  label: string;
+  // Each sequence becomes its own tube; a sequence ending where it started is a closed loop
+  sequences: number[][];
+}
+
+// --- STRUCTURE DEFINITION TYPES (see structureDefinitions.ts, structures/schema.json) ---
+
+// Dots of one group in 2D, in multiples of the definition's `unit`
+export type DotPattern =
+  | { type: 'line'; count: number; axis: 'x' | 'y'; step: number; offset: [number, number]; rotate: number }
+  | { type: 'points'; points: [number, number][]; ids?: string[]; rotate: number }; // rotate in degrees
+
+export interface HeTuGroupDefinition {
+  id: string;                          // Point ids: `${id}-${index}`, or `${id}-${ids[index]}`
+  numberValue: number;                 // 1-10
+  polarity: Polarity;
+  group: HeTuPoint['group'];
+  position: [number, number, number];  // Origin of the pattern, on its face
+  pattern: DotPattern;
+}
+
+export interface HeTuStructureDefinition {
+  kind: 'hetu';
+  name: string;
+  unit: number;
+  groups: HeTuGroupDefinition[];
+}
+
+export interface LoShuPalaceDefinition {
+  numberValue: number;                 // 1-9, one palace each
+  polarity: Polarity;
+  anchor: [number, number, number];    // Direction on the sphere; the origin keeps the palace in the core
+  pattern: DotPattern;
+}
+
+export interface LoShuStructureDefinition {
+  kind: 'loshu';
+  name: string;
+  unit: number;
+  palaces: LoShuPalaceDefinition[];    // Sorted by number
+}
+
+export type StructureDefinition = HeTuStructureDefinition | LoShuStructureDefinition;
+
+// --- FLYING STAR (飞星) TYPES ---
+
+export enum FlightDirection {
+  FORWARD = 'FORWARD', // 顺飞: star number rises along the flight path
+  REVERSE = 'REVERSE'  // 逆飞: star number falls along the flight path
+}
+
+export interface FlyingStarChart {
+  period: number;     // 运 (1-9)
+  solarYear: number;  // Year counted from 立春 (Li Chun)
+  // Palace (its Lo Shu home number) -> star number
+  periodStars: Record<number, number>;
+  annualStars: Record<number, number>;
+  monthlyStars?: Record<number, number>;
+}
+
+// --- MAGIC SQUARE TYPES ---
+
+export enum MagicSquareMethod {
+  SIAMESE = 'SIAMESE',         // Odd order (罗伯法 / De la Loubère)
+  DOUBLY_EVEN = 'DOUBLY_EVEN', // Order divisible by 4 (diagonal complement)
+  SINGLY_EVEN = 'SINGLY_EVEN'  // Order 4k+2 (Strachey)
+}
+
+export interface MagicLine {
+  kind: LoShuSumLine['kind'];
+  index: number;              // Row / column index; 0 = main diagonal, 1 = anti-diagonal
+  cells: [number, number][];  // [row, col] pairs, row 0 = top (South)
+  sum: number;
+}
+
+export interface MagicSquareReport {
+  order: number;
+  magicConstant: number;      // n(n² + 1) / 2
+  lines: MagicLine[];         // n rows, n columns, 2 diagonals
+  brokenLines: MagicLine[];   // Lines whose sum differs from the magic constant
+  isMagic: boolean;
+}
+
+// --- HE TU ⇄ LO SHU TRANSFORMATION TYPES ---
+
+export enum HeLuoStage {
+  HETU = 'HETU',   // Dots on the He Tu cube
+  LOSHU = 'LOSHU'  // Dots in their Lo Shu palaces
+}
+
+// One He Tu dot and the Lo Shu dot it becomes (matched by number value)
+export interface HeLuoPointPair {
+  id: string;
+  numberValue: number;
+  polarity: Polarity;
+  heTuPos: [number, number, number];  // Cube form
+  loShuPos: [number, number, number]; // Plane form (the 10 withdraws into the centre)
+  swapped: boolean;   // Part of the 2/7 ⇄ 4/9 (Fire ⇄ Metal) exchange
+  vanishes: boolean;  // 10 has no Lo Shu palace
+}
+
+// --- SHAREABLE URL STATE ---
+
+export interface CameraPose {
+  position: [number, number, number];
+  zoom: number;
+}
+
+// Arrow-key orbit step (radians) for the mounted scene's camera; `id` grows with
+// every key press so a repeated step still reaches the scene
+export interface CameraNudge {
+  id: number;
+  azimuth: number;
+  polar: number;
+}
+
+// Everything a shared link restores (see shareState.ts)
+export interface ShareState {
+  viewMode: ViewMode;
+  animState: AnimationState;
+  heTuLayout: HeTuLayoutId;
+  autoRotate: boolean;
+  elementCycle: ElementCycle | null;
+  baguaArrangement: BaguaArrangement | null; // null = ring hidden
+  hlStage: HeLuoStage;
+  lsMorph: LoShuMorphState;
+  lsSymmetry: LoShuSymmetry;
+  lsRunning: boolean;
+  lsSphereRotating: boolean;
+  lsLayers: LoShuLayerState;
+  lsRouteId: string;
+  lsCustomRoute: string;
+  camera: CameraPose | null; // null = the view's default camera
+}
+
+// --- EXPORT (STILLS & RECORDINGS) TYPES ---
+
+export enum CaptureBackground {
+  TRANSPARENT = 'TRANSPARENT', // PNG only; videos always get the gradient
+  GRADIENT = 'GRADIENT'        // The page's radial gradient (see index.html)
+}
+
+export enum RecordingFormat {
+  WEBM = 'WEBM',
+  GIF = 'GIF'
+}
+
+export interface CaptureResolution {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// A scripted transition: settle in `from`, switch to `to`, record `duration` seconds
+export interface CaptureClip {
+  id: string;
+  label: string;
+  view: ViewMode;
+  from: Partial<ShareState>;
+  to: Partial<ShareState>;
+  duration: number;
+}
+
+// --- 3D MODEL EXPORT TYPES ---
+
+export enum ModelFormat {
+  GLB = 'GLB',
+  GLTF = 'GLTF',
+  OBJ = 'OBJ',
+  STL = 'STL'  // Watertight single body for 3D printing
+}
+
+// A settled pose of one structure, baked into geometry
+export interface ModelForm {
+  id: string;
+  label: string;
+  view: ViewMode.HETU | ViewMode.LOSHU;
+  heTuMode?: HeTuForm;
+  loShuMorph?: LoShuMorphState;
+}
+
+// --- HE TU TIMELINE TYPES ---
+
+// An id from HETU_LAYOUTS (heTuLayouts.ts), e.g. 'GALAXY'
+export type HeTuLayoutId = string;
+
+export type HeTuForm = 'CUBE' | HeTuLayoutId;
+
+export enum TimelineEasing {
+  LINEAR = 'LINEAR',
+  EASE_IN = 'EASE_IN',
+  EASE_OUT = 'EASE_OUT',
+  EASE_IN_OUT = 'EASE_IN_OUT'
+}
+
+// One stop of a sequence: reach `form` over `duration` seconds, then stay for `hold` seconds
+export interface HeTuKeyframe {
+  id: string;
+  form: HeTuForm;
+  duration: number; // Ignored on the first keyframe (the sequence starts there)
+  hold: number;
+  easing: TimelineEasing;
+}
+
+// What the He Tu scene draws at one instant
+export interface HeTuPose {
+  morph: number; // 0 = cube, 1 = unfolded
+  from: HeTuLayoutId; // Unfolded target, blended from `from` to `to`
+  to: HeTuLayoutId;
+  blend: number;      // 0 = from, 1 = to
+  time: number;  // Spin time in seconds
+}
+
+// --- LOCALE TYPES (see i18n.tsx) ---
+
+export enum Locale {
+  ZH_CN = 'zh-CN', // Source language: UI strings are written in Chinese
+  EN = 'en'
 }